@@ -0,0 +1,63 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Connect, Plugin } from 'vite'
+
+export const ANALYTICS_MOCK_PATH = '/__analytics/events'
+
+// 模拟接口最多保留的事件数
+const MAX_EVENTS = 2000
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = ''
+    req.setEncoding('utf-8')
+    req.on('data', (chunk: string) => (body += chunk))
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(payload))
+}
+
+// 开发与预览服务器上的分析事件模拟接口，事件只保存在内存中，重启即清空：
+// POST 记录一条事件，GET 返回全部事件，DELETE 清空。
+// 配合 VITE_ANALYTICS_ENDPOINT=/__analytics/events 使用，可在后台「访客分析」页读取汇总数据
+export const analyticsMock = (): Plugin => {
+  let events: unknown[] = []
+
+  const handler: Connect.NextHandleFunction = (req, res) => {
+    if (req.method === 'GET') {
+      sendJson(res, 200, events)
+      return
+    }
+    if (req.method === 'DELETE') {
+      events = []
+      res.statusCode = 204
+      res.end()
+      return
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' })
+      return
+    }
+    readBody(req)
+      .then((body) => {
+        events = [...events, JSON.parse(body)].slice(-MAX_EVENTS)
+        res.statusCode = 204
+        res.end()
+      })
+      .catch((error: Error) => sendJson(res, 400, { error: error.message }))
+  }
+
+  return {
+    name: 'xj-analytics-mock',
+    configureServer(server) {
+      server.middlewares.use(ANALYTICS_MOCK_PATH, handler)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(ANALYTICS_MOCK_PATH, handler)
+    }
+  }
+}
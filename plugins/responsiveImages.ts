@@ -0,0 +1,140 @@
+import { createHash } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
+import type { Sharp } from 'sharp'
+import type { Plugin } from 'vite'
+import { migrateSiteData } from '../src/schema/migrations'
+import { RESPONSIVE_IMAGE_WIDTHS, collectLocalImages } from '../src/utils/images'
+import type { ResponsiveImageEntry, ResponsiveImageFormat, ResponsiveImageManifest } from '../src/utils/images'
+import { SITE_DATA_PATH } from './siteDataValidation'
+
+const VIRTUAL_ID = 'virtual:responsive-images'
+const RESOLVED_VIRTUAL_ID = `\0${VIRTUAL_ID}`
+const OUTPUT_DIR = 'assets/images'
+const CACHE_DIR = 'node_modules/.cache/xj-images'
+const PLACEHOLDER_WIDTH = 16
+
+const FALLBACK_FORMATS: Partial<Record<string, ResponsiveImageFormat>> = { jpeg: 'jpeg', png: 'png', webp: 'webp' }
+
+const encoders: Record<ResponsiveImageFormat, (image: Sharp) => Sharp> = {
+  avif: (image) => image.avif({ quality: 50 }),
+  webp: (image) => image.webp({ quality: 72 }),
+  jpeg: (image) => image.jpeg({ quality: 78, mozjpeg: true }),
+  png: (image) => image.png({ compressionLevel: 9, palette: true })
+}
+
+// 按内容哈希命名，源图未变时直接复用缓存中的清单条目与文件
+const processImage = async (
+  publicDir: string,
+  cacheDir: string,
+  imagePath: string
+): Promise<ResponsiveImageEntry | null> => {
+  const input = await readFile(path.join(publicDir, imagePath))
+  const hash = createHash('sha256').update(input).digest('hex').slice(0, 8)
+  const name = `${path.basename(imagePath, path.extname(imagePath)).replace(/[^\w-]+/g, '-')}-${hash}`
+  const entryFile = path.join(cacheDir, `${name}.json`)
+  if (existsSync(entryFile)) return JSON.parse(await readFile(entryFile, 'utf-8')) as ResponsiveImageEntry
+
+  const metadata = await sharp(input).metadata()
+  const fallback = FALLBACK_FORMATS[metadata.format]
+  if (!fallback) return null
+  const { width, height } = metadata.autoOrient
+  const maxWidth = Math.min(width, RESPONSIVE_IMAGE_WIDTHS[RESPONSIVE_IMAGE_WIDTHS.length - 1])
+  const widths = [...RESPONSIVE_IMAGE_WIDTHS.filter((item) => item < maxWidth), maxWidth]
+  const formats = [...new Set<ResponsiveImageFormat>(['avif', 'webp', fallback])]
+
+  const sources: ResponsiveImageEntry['sources'] = {}
+  for (const format of formats) {
+    const variants = []
+    for (const variantWidth of widths) {
+      const fileName = `${name}-${variantWidth}.${format === 'jpeg' ? 'jpg' : format}`
+      await writeFile(
+        path.join(cacheDir, fileName),
+        await encoders[format](sharp(input).autoOrient().resize({ width: variantWidth })).toBuffer()
+      )
+      variants.push({ width: variantWidth, path: `${OUTPUT_DIR}/${fileName}` })
+    }
+    sources[format] = variants
+  }
+
+  const placeholder = metadata.hasAlpha
+    ? undefined
+    : `data:image/webp;base64,${(
+        await sharp(input).autoOrient().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer()
+      ).toString('base64')}`
+
+  const entry: ResponsiveImageEntry = {
+    width: maxWidth,
+    height: Math.round((height * maxWidth) / width),
+    placeholder,
+    sources
+  }
+  await writeFile(entryFile, JSON.stringify(entry))
+  return entry
+}
+
+// 构建时为 site-data.json 中引用的本地图片（public/ 下的 JPEG、PNG、WebP）生成多尺寸的 AVIF、WebP 与原格式文件，
+// 并通过 virtual:responsive-images 提供清单；开发环境清单为空，组件直接使用原图
+export const responsiveImages = (): Plugin => {
+  let root = process.cwd()
+  let publicDir = ''
+  let isBuild = false
+  let emit = false
+  let manifest: ResponsiveImageManifest = {}
+
+  return {
+    name: 'xj-responsive-images',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+      isBuild = config.command === 'build'
+      // 预渲染用的 SSR 构建只需要清单，不重复输出文件
+      emit = isBuild && !config.build.ssr
+    },
+    async buildStart() {
+      if (!isBuild || !publicDir) return
+
+      const cacheDir = path.resolve(root, CACHE_DIR)
+      await mkdir(cacheDir, { recursive: true })
+      const { data } = migrateSiteData(JSON.parse(await readFile(path.resolve(root, SITE_DATA_PATH), 'utf-8')))
+
+      manifest = {}
+      for (const imagePath of collectLocalImages(data)) {
+        if (!existsSync(path.join(publicDir, imagePath))) {
+          this.warn(`${imagePath} is referenced in ${SITE_DATA_PATH} but does not exist in public/.`)
+          continue
+        }
+        try {
+          const entry = await processImage(publicDir, cacheDir, imagePath)
+          if (entry) manifest[imagePath] = entry
+        } catch (error) {
+          this.warn(`${imagePath}: unable to generate responsive variants (${(error as Error).message})`)
+        }
+      }
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_VIRTUAL_ID : null
+    },
+    load(id) {
+      return id === RESOLVED_VIRTUAL_ID ? `export default ${JSON.stringify(manifest)}` : null
+    },
+    async generateBundle() {
+      if (!emit) return
+
+      const cacheDir = path.resolve(root, CACHE_DIR)
+      for (const entry of Object.values(manifest)) {
+        for (const variants of Object.values(entry.sources)) {
+          for (const variant of variants ?? []) {
+            this.emitFile({
+              type: 'asset',
+              fileName: variant.path,
+              source: await readFile(path.join(cacheDir, path.basename(variant.path)))
+            })
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { formatSiteDataReport, validateSiteData } from '../src/schema/validateSiteData'
+import { migrateSiteData } from '../src/schema/migrations'
+import { CURRENT_SCHEMA_VERSION } from '../src/schema/siteDataMigrations'
+
+export const SITE_DATA_PATH = 'src/data/site-data.json'
+
+// 构建时校验 site-data.json，存在问题时中断 `npm run build`；开发时仅在终端输出报告
+export const siteDataValidation = (): Plugin => {
+  let root = process.cwd()
+  let isBuild = false
+
+  return {
+    name: 'xj-site-data-validation',
+    configResolved(config) {
+      root = config.root
+      isBuild = config.command === 'build'
+    },
+    buildStart() {
+      const file = path.resolve(root, SITE_DATA_PATH)
+      this.addWatchFile(file)
+
+      let data: unknown
+      try {
+        data = JSON.parse(readFileSync(file, 'utf-8'))
+      } catch (error) {
+        this.error(`${SITE_DATA_PATH}: unable to read JSON (${(error as Error).message})`)
+      }
+
+      // 应用运行时会自动迁移旧版本文档，这里按迁移后的结果校验，并提示更新文件
+      let migrated: unknown
+      try {
+        const result = migrateSiteData(data)
+        migrated = result.data
+        if (result.applied.length > 0) {
+          this.warn(
+            `${SITE_DATA_PATH} is at schemaVersion ${result.fromVersion}, current is ${CURRENT_SCHEMA_VERSION}. ` +
+              'Run `npm run data:migrate` to upgrade the file in place.'
+          )
+        }
+      } catch (error) {
+        this.error(`${SITE_DATA_PATH}: ${(error as Error).message}`)
+      }
+
+      const issues = validateSiteData(migrated)
+      if (issues.length === 0) return
+
+      const report = formatSiteDataReport(issues, SITE_DATA_PATH)
+      if (isBuild) {
+        this.error(report)
+      } else {
+        this.warn(report)
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { DEFAULT_LOCALE, LOCALE_CODES, getLocaleDefinition } from '../src/i18n/locales'
+import { migrateSiteData } from '../src/schema/migrations'
+import { getPublicRoutes, toLocalizedPath } from '../src/utils/publicRoutes'
+import { SITE_DATA_PATH } from './siteDataValidation'
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+// 构建时根据 site-data.json 生成 sitemap.xml（每个路由 × 语言一条，附 hreflang 互链）与 robots.txt
+// 需要 VITE_SITE_URL 提供站点域名；未设置时只输出 robots.txt
+export const sitemap = (): Plugin => {
+  let root = process.cwd()
+  let base = '/'
+  let siteUrl = ''
+  let enabled = false
+
+  return {
+    name: 'xj-sitemap',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+      base = config.base
+      siteUrl = (config.env.VITE_SITE_URL ?? '').replace(/\/+$/, '')
+      // 预渲染用的 SSR 构建不输出静态文件
+      enabled = !config.build.ssr
+    },
+    generateBundle() {
+      if (!enabled) return
+
+      const { data } = migrateSiteData(JSON.parse(readFileSync(path.resolve(root, SITE_DATA_PATH), 'utf-8')))
+      const basePath = base.replace(/\/+$/, '')
+      const robots = [
+        'User-agent: *',
+        'Allow: /',
+        ...LOCALE_CODES.map((locale) => `Disallow: ${toLocalizedPath(basePath, '/admin', locale).replace(/\/$/, '')}`)
+      ]
+
+      if (siteUrl) {
+        const entries = getPublicRoutes(data)
+          .filter((route) => !route.noindex)
+          .flatMap((route) => {
+            const alternates = [
+              ...data.locales.map((locale) => ({
+                hreflang: getLocaleDefinition(locale).tag,
+                href: `${siteUrl}${toLocalizedPath(basePath, route.path, locale)}`
+              })),
+              {
+                hreflang: 'x-default',
+                href: `${siteUrl}${toLocalizedPath(basePath, route.path, DEFAULT_LOCALE)}`
+              }
+            ]
+            return data.locales.map((locale) =>
+              [
+                '  <url>',
+                `    <loc>${escapeXml(`${siteUrl}${toLocalizedPath(basePath, route.path, locale)}`)}</loc>`,
+                ...(route.lastmod ? [`    <lastmod>${escapeXml(route.lastmod)}</lastmod>`] : []),
+                ...alternates.map(
+                  (alternate) =>
+                    `    <xhtml:link rel="alternate" hreflang="${alternate.hreflang}" href="${escapeXml(alternate.href)}" />`
+                ),
+                '  </url>'
+              ].join('\n')
+            )
+          })
+
+        this.emitFile({
+          type: 'asset',
+          fileName: 'sitemap.xml',
+          source: [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+            ...entries,
+            '</urlset>',
+            ''
+          ].join('\n')
+        })
+        robots.push('', `Sitemap: ${siteUrl}${basePath}/sitemap.xml`)
+      } else {
+        this.warn('VITE_SITE_URL is not set: sitemap.xml was not generated.')
+      }
+
+      this.emitFile({ type: 'asset', fileName: 'robots.txt', source: `${robots.join('\n')}\n` })
+    }
+  }
+}
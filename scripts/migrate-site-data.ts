@@ -0,0 +1,34 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { migrateSiteData } from '../src/schema/migrations'
+import { CURRENT_SCHEMA_VERSION } from '../src/schema/siteDataMigrations'
+import { formatSiteDataReport, validateSiteData } from '../src/schema/validateSiteData'
+
+// 用法：npm run data:migrate -- [文件路径] [--check]
+// 默认升级 src/data/site-data.json；--check 只检查不写入，需要迁移时以非零状态退出（适合 CI）
+const args = process.argv.slice(2)
+const checkOnly = args.includes('--check')
+const target = path.resolve(args.find((arg) => !arg.startsWith('--')) ?? 'src/data/site-data.json')
+
+const raw = JSON.parse(readFileSync(target, 'utf-8'))
+const { data, fromVersion, applied } = migrateSiteData(raw)
+
+if (applied.length === 0) {
+  console.log(`${target} is already at schemaVersion ${CURRENT_SCHEMA_VERSION}.`)
+  process.exit(0)
+}
+
+console.log(`${target}: schemaVersion ${fromVersion} → ${CURRENT_SCHEMA_VERSION}`)
+applied.forEach((migration) => console.log(`  • v${migration.version}: ${migration.description}`))
+
+if (checkOnly) {
+  process.exit(1)
+}
+
+const issues = validateSiteData(data)
+if (issues.length > 0) {
+  console.warn(formatSiteDataReport(issues, path.basename(target)))
+}
+
+writeFileSync(target, `${JSON.stringify(data, null, 2)}\n`)
+console.log('File updated.')
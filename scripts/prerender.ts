@@ -0,0 +1,57 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { DEFAULT_LOCALE } from '../src/i18n/locales'
+import { migrateSiteData } from '../src/schema/migrations'
+import { getPublicRoutes } from '../src/utils/publicRoutes'
+
+// 用法：npm run build 的最后一步（先 vite build 生成客户端，再 vite build --ssr 生成 dist-ssr/entry-server.js）
+// 为每个公开路由、每种启用的语言输出 dist/<语言>/<路由>/index.html，并生成 GitHub Pages 的 404.html 兜底
+const distDir = path.resolve('dist')
+const ssrDir = path.resolve('dist-ssr')
+
+interface RenderResult {
+  html: string
+  head: string
+  lang: string
+  dir: 'ltr' | 'rtl'
+}
+
+type Render = (pathname: string, locale: string) => Promise<RenderResult>
+
+const { render } = (await import(pathToFileURL(path.join(ssrDir, 'entry-server.js')).href)) as { render: Render }
+
+const template = readFileSync(path.join(distDir, 'index.html'), 'utf-8')
+const { data } = migrateSiteData(JSON.parse(readFileSync(path.resolve('src/data/site-data.json'), 'utf-8')))
+
+// 未预渲染的地址（询价篮、对比、后台、新增产品等）由 404.html 加载同一个应用，在浏览器中按路径渲染
+writeFileSync(path.join(distDir, '404.html'), template)
+
+const routes = getPublicRoutes(data).map((route) => route.path)
+
+const fillTemplate = ({ html, head, lang, dir }: RenderResult) =>
+  template
+    .replace(/<html[^>]*>/, `<html lang="${lang}" dir="${dir}">`)
+    .replace(/\s*<title>[\s\S]*?<\/title>/, '')
+    .replace(/\s*<meta\s+name="description"[\s\S]*?\/>/, '')
+    .replace('</head>', `  ${head}\n  </head>`)
+    .replace('<div id="root"></div>', `<div id="root">${html}</div>`)
+
+if (!process.env.VITE_SITE_URL) {
+  console.warn('VITE_SITE_URL is not set: canonical and hreflang links will be written without the site origin.')
+}
+
+let count = 0
+for (const locale of data.locales) {
+  for (const route of routes) {
+    const result = await render(route, locale)
+    const relativeDir = path.join(locale === DEFAULT_LOCALE ? '' : locale, route)
+    const outputDir = path.join(distDir, relativeDir)
+    mkdirSync(outputDir, { recursive: true })
+    writeFileSync(path.join(outputDir, 'index.html'), fillTemplate(result))
+    count += 1
+  }
+}
+
+rmSync(ssrDir, { recursive: true, force: true })
+console.log(`Prerendered ${count} pages (${routes.length} routes × ${data.locales.length} locales).`)
@@ -1,40 +1,40 @@
-import { HashRouter, Route, Routes, useLocation } from 'react-router-dom'
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
 import { useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Toaster } from 'react-hot-toast'
 import { AppLayout } from './components/layout/AppLayout'
 import { ScrollToTop } from './components/common/ScrollToTop'
+import { AnalyticsTracker } from './components/common/AnalyticsTracker'
+import { SiteDataDiagnostics } from './components/common/SiteDataDiagnostics'
 import { Home } from './pages/Home'
 import { Products } from './pages/Products'
 import { ProductDetail } from './pages/ProductDetail'
 import { About } from './pages/About'
 import { Contact } from './pages/Contact'
-import { setLanguageParam, getQueryLanguage } from './i18n/utils'
+import { QuoteBasket } from './pages/QuoteBasket'
+import { Compare } from './pages/Compare'
+import { Favorites } from './pages/Favorites'
+import { Datasheet } from './pages/Datasheet'
+import { Brochure } from './pages/Brochure'
+import { AdminLayout } from './pages/admin/AdminLayout'
+import { AdminProducts } from './pages/admin/AdminProducts'
+import { AdminCategories } from './pages/admin/AdminCategories'
+import { AdminContent } from './pages/admin/AdminContent'
+import { AdminInquiries } from './pages/admin/AdminInquiries'
+import { AdminTranslations } from './pages/admin/AdminTranslations'
+import { AdminBrochures } from './pages/admin/AdminBrochures'
+import { AdminAnalytics } from './pages/admin/AdminAnalytics'
+import { changeLanguage } from './i18n'
+import { DEFAULT_LOCALE } from './i18n/locales'
+import { getLocaleBasename, getPathLocale } from './i18n/utils'
 import type { Locale } from './types/site'
 
-const LanguageSync = () => {
-  const { i18n } = useTranslation()
-  const location = useLocation()
-
-  useEffect(() => {
-    const urlLang = getQueryLanguage()
-    if (urlLang && urlLang !== i18n.language) {
-      void i18n.changeLanguage(urlLang)
-    }
-  }, [i18n, location.key])
-
-  useEffect(() => {
-    setLanguageParam((i18n.language as Locale) || 'en')
-  }, [i18n.language])
-
-  return null
-}
-
-const App = () => {
+// 路由与全局组件，浏览器端与预渲染共用
+export const AppRoutes = () => {
   return (
-    <HashRouter>
+    <>
       <ScrollToTop />
-      <LanguageSync />
+      <AnalyticsTracker />
       <Routes>
         <Route element={<AppLayout />}>
           <Route path="/" element={<Home />} />
@@ -42,8 +42,26 @@ const App = () => {
           <Route path="/products/:productId" element={<ProductDetail />} />
           <Route path="/about" element={<About />} />
           <Route path="/contact" element={<Contact />} />
+          <Route path="/quote" element={<QuoteBasket />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/favorites" element={<Favorites />} />
+        </Route>
+        {/* 规格书为独立的 A4 打印页面，不套用站点页头页脚 */}
+        <Route path="/products/:productId/datasheet" element={<Datasheet />} />
+        <Route path="/admin" element={<AdminLayout />}>
+          <Route index element={<Navigate to="products" replace />} />
+          <Route path="products" element={<AdminProducts />} />
+          <Route path="categories" element={<AdminCategories />} />
+          <Route path="content" element={<AdminContent />} />
+          <Route path="translations" element={<AdminTranslations />} />
+          <Route path="inquiries" element={<AdminInquiries />} />
+          <Route path="brochures" element={<AdminBrochures />} />
+          <Route path="analytics" element={<AdminAnalytics />} />
         </Route>
+        {/* 手册打印页只包含公开数据，不经过后台登录，也不套用后台布局 */}
+        <Route path="/admin/brochures/:brochureId/print" element={<Brochure />} />
       </Routes>
+      {import.meta.env.DEV && <SiteDataDiagnostics />}
       <Toaster
         position="bottom-right"
         toastOptions={{
@@ -54,7 +72,30 @@ const App = () => {
           }
         }}
       />
-    </HashRouter>
+    </>
+  )
+}
+
+// 语言前缀作为路由 basename，站内链接无需关心当前语言；切换语言时以新的 basename 重新挂载路由
+const App = () => {
+  const { i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const basename = getLocaleBasename(locale)
+
+  // 浏览器前进后退跨越语言前缀时同步界面语言
+  useEffect(() => {
+    const handlePopState = () => {
+      const pathLocale = getPathLocale(window.location.pathname) ?? DEFAULT_LOCALE
+      if (pathLocale !== i18n.language) void changeLanguage(pathLocale)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [i18n])
+
+  return (
+    <BrowserRouter key={basename} basename={basename}>
+      <AppRoutes />
+    </BrowserRouter>
   )
 }
 
@@ -0,0 +1,28 @@
+import { StrictMode } from 'react'
+import type { ReactNode } from 'react'
+import { SiteDataProvider } from './context/SiteDataContext'
+import { AnalyticsProvider } from './context/AnalyticsContext'
+import { QuoteBasketProvider } from './context/QuoteBasketContext'
+import { CurrencyProvider } from './context/CurrencyContext'
+import { CompareProvider } from './context/CompareContext'
+import { FavoritesProvider } from './context/FavoritesContext'
+import { RecentlyViewedProvider } from './context/RecentlyViewedContext'
+
+// 全局状态位于路由之外，浏览器端与预渲染共用同一套 Provider
+export const AppProviders = ({ children }: { children: ReactNode }) => (
+  <StrictMode>
+    <AnalyticsProvider>
+      <SiteDataProvider>
+        <CurrencyProvider>
+          <QuoteBasketProvider>
+            <CompareProvider>
+              <FavoritesProvider>
+                <RecentlyViewedProvider>{children}</RecentlyViewedProvider>
+              </FavoritesProvider>
+            </CompareProvider>
+          </QuoteBasketProvider>
+        </CurrencyProvider>
+      </SiteDataProvider>
+    </AnalyticsProvider>
+  </StrictMode>
+)
@@ -0,0 +1,121 @@
+import type { ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useSiteData } from '../../context/SiteDataContext'
+import { getLocaleDefinition } from '../../i18n/locales'
+import type { Locale, LocalizedText } from '../../types/site'
+
+export const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none placeholder:text-white/30 focus:border-amber-300/60'
+
+interface FieldProps {
+  label: string
+  children: ReactNode
+  className?: string
+}
+
+export const Field = ({ label, children, className = '' }: FieldProps) => (
+  <label className={`block text-xs text-white/60 ${className}`}>
+    <span className="mb-1 block">{label}</span>
+    {children}
+  </label>
+)
+
+interface TextFieldProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  type?: 'text' | 'number' | 'url' | 'password' | 'date'
+  placeholder?: string
+  className?: string
+}
+
+export const TextField = ({
+  label,
+  value,
+  onChange,
+  type = 'text',
+  placeholder,
+  className
+}: TextFieldProps) => (
+  <Field label={label} className={className}>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(event) => onChange(event.target.value)}
+      className={inputClassName}
+    />
+  </Field>
+)
+
+interface LocalizedTextFieldProps {
+  label: string
+  value: LocalizedText | undefined
+  onChange: (value: LocalizedText) => void
+  multiline?: boolean
+  className?: string
+}
+
+// 按站点配置的语言逐一渲染输入框，保证每个 LocalizedText 字段都能完整编辑
+export const LocalizedTextField = ({
+  label,
+  value,
+  onChange,
+  multiline = false,
+  className = ''
+}: LocalizedTextFieldProps) => {
+  const { t } = useTranslation()
+  const { siteData } = useSiteData()
+  const current = (value ?? {}) as LocalizedText
+
+  const handleChange = (locale: Locale, text: string) => {
+    onChange({ ...current, [locale]: text })
+  }
+
+  return (
+    <fieldset className={`space-y-2 ${className}`}>
+      <legend className="mb-1 text-xs text-white/60">{label}</legend>
+      {siteData.locales.map((locale) => (
+        <div key={locale} className="flex items-start gap-2">
+          <span className="mt-2 w-10 shrink-0 text-[10px] uppercase tracking-widest text-white/40">
+            {locale}
+          </span>
+          {multiline ? (
+            <textarea
+              rows={3}
+              value={current[locale] ?? ''}
+              dir={getLocaleDefinition(locale).dir}
+              placeholder={t(`languages.${locale}`)}
+              onChange={(event) => handleChange(locale, event.target.value)}
+              className={inputClassName}
+            />
+          ) : (
+            <input
+              value={current[locale] ?? ''}
+              dir={getLocaleDefinition(locale).dir}
+              placeholder={t(`languages.${locale}`)}
+              onChange={(event) => handleChange(locale, event.target.value)}
+              className={inputClassName}
+            />
+          )}
+        </div>
+      ))}
+    </fieldset>
+  )
+}
+
+interface AdminCardProps {
+  title: string
+  actions?: ReactNode
+  children: ReactNode
+}
+
+export const AdminCard = ({ title, actions, children }: AdminCardProps) => (
+  <section className="rounded-3xl border border-white/10 bg-slate-950/60 p-6">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <h2 className="text-lg font-semibold text-white">{title}</h2>
+      {actions}
+    </div>
+    <div className="mt-4">{children}</div>
+  </section>
+)
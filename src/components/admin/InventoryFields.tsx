@@ -0,0 +1,70 @@
+import { useTranslation } from 'react-i18next'
+import { Field, TextField, inputClassName } from './FormFields'
+import { AVAILABILITY_LABEL_KEYS, STOCK_STATUSES } from '../../utils/inventory'
+import type { Inventory, StockStatus } from '../../types/site'
+
+interface InventoryFieldsProps {
+  stockStatus: StockStatus
+  inventory?: Inventory
+  onChange: (patch: { stockStatus: StockStatus; inventory?: Inventory }) => void
+  // 有变体的产品由各变体维护库存，产品本身只显示汇总状态
+  disabled?: boolean
+  disabledHint?: string
+}
+
+const parseOptionalCount = (value: string) =>
+  value.trim() === '' ? undefined : Math.max(0, Math.floor(Number(value) || 0))
+
+// 各字段都为空时不写入 inventory，保持导出的 JSON 干净
+const normalizeInventory = (inventory: Inventory) =>
+  Object.values(inventory).some((value) => value !== undefined) ? inventory : undefined
+
+export const InventoryFields = ({ stockStatus, inventory, onChange, disabled = false, disabledHint }: InventoryFieldsProps) => {
+  const { t } = useTranslation()
+
+  const updateInventory = (patch: Partial<Inventory>) =>
+    onChange({ stockStatus, inventory: normalizeInventory({ ...inventory, ...patch }) })
+
+  return (
+    <>
+      <Field label={t('products.filter.stock')}>
+        <select
+          value={stockStatus}
+          onChange={(event) => onChange({ stockStatus: event.target.value as StockStatus, inventory })}
+          disabled={disabled}
+          title={disabled ? disabledHint : undefined}
+          className={`${inputClassName} disabled:opacity-50`}
+        >
+          {STOCK_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {t(AVAILABILITY_LABEL_KEYS[status])}
+            </option>
+          ))}
+        </select>
+      </Field>
+      {!disabled && (
+        <>
+          <TextField
+            label={t('admin.inventory.quantity')}
+            type="number"
+            value={inventory?.quantity === undefined ? '' : String(inventory.quantity)}
+            placeholder={t('admin.inventory.untracked')}
+            onChange={(value) => updateInventory({ quantity: parseOptionalCount(value) })}
+          />
+          <TextField
+            label={t('admin.inventory.lowStockThreshold')}
+            type="number"
+            value={inventory?.lowStockThreshold === undefined ? '' : String(inventory.lowStockThreshold)}
+            onChange={(value) => updateInventory({ lowStockThreshold: parseOptionalCount(value) })}
+          />
+          <TextField
+            label={t('admin.inventory.restockDate')}
+            type="date"
+            value={inventory?.restockDate ?? ''}
+            onChange={(value) => updateInventory({ restockDate: value || undefined })}
+          />
+        </>
+      )}
+    </>
+  )
+}
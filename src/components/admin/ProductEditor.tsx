@@ -0,0 +1,421 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Plus, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { Field, LocalizedTextField, TextField, inputClassName } from './FormFields'
+import { InventoryFields } from './InventoryFields'
+import { ProductLinksField } from './ProductLinksField'
+import { VariantEditor } from './VariantEditor'
+import { computeTranslationStatus } from '../../utils/translations'
+import { createLocalizedText, localize } from '../../utils/localize'
+import { getAggregateStockStatus, hasVariants } from '../../utils/variants'
+import type { Locale, Product } from '../../types/site'
+
+interface ProductEditorProps {
+  product: Product
+  isNew: boolean
+  onSave: (product: Product) => void
+  onCancel: () => void
+}
+
+const splitLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+export const ProductEditor = ({ product, isNew, onSave, onCancel }: ProductEditorProps) => {
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [draft, setDraft] = useState<Product>(product)
+
+  const update = <K extends keyof Product>(key: K, value: Product[K]) => {
+    setDraft((previous) => ({ ...previous, [key]: value }))
+  }
+
+  const updatePrice = <K extends keyof Product['price']>(key: K, value: Product['price'][K]) => {
+    setDraft((previous) => ({ ...previous, price: { ...previous.price, [key]: value } }))
+  }
+
+  // 翻译状态由内容实时计算，保存时写回产品
+  const translationStatus = computeTranslationStatus(draft, siteData.locales)
+
+  const subcategories =
+    siteData.categories.find((category) => category.id === draft.categoryId)?.subcategories ?? []
+
+  const handleSubmit = () => {
+    if (!draft.sku.trim() || !draft.name[siteData.defaultLocale]?.trim() || !draft.categoryId) {
+      toast.error(t('admin.products.requiredError'))
+      return
+    }
+    // 变体 SKU 与产品 SKU 共用命名空间
+    const variants = draft.variants?.map((variant) => ({ ...variant, sku: variant.sku.trim() }))
+    const usedSkus = siteData.products
+      .filter((item) => item.id !== product.id)
+      .flatMap((item) => [item.sku, ...(item.variants ?? []).map((variant) => variant.sku)])
+    const draftSkus = [draft.sku.trim(), ...(variants ?? []).map((variant) => variant.sku)]
+    const duplicateSku = draftSkus.find(
+      (sku, index) => !sku || usedSkus.includes(sku) || draftSkus.indexOf(sku) !== index
+    )
+    if (duplicateSku !== undefined) {
+      toast.error(t('admin.products.duplicateSku', { sku: duplicateSku }))
+      return
+    }
+    onSave({
+      ...draft,
+      sku: draft.sku.trim(),
+      variants,
+      stockStatus: getAggregateStockStatus({ ...draft, variants }),
+      mainImage: draft.mainImage || draft.images[0] || '',
+      translationStatus,
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <TextField label={t('admin.products.sku')} value={draft.sku} onChange={(value) => update('sku', value)} />
+        <Field label={t('products.filter.category')}>
+          <select
+            value={draft.categoryId}
+            onChange={(event) =>
+              setDraft((previous) => ({
+                ...previous,
+                categoryId: event.target.value,
+                subcategoryId: undefined
+              }))
+            }
+            className={inputClassName}
+          >
+            {siteData.categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {localize(category.name, locale) || category.id}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label={t('products.filter.subcategory')}>
+          <select
+            value={draft.subcategoryId ?? ''}
+            onChange={(event) => update('subcategoryId', event.target.value || undefined)}
+            className={inputClassName}
+          >
+            <option value="">—</option>
+            {subcategories.map((subcategory) => (
+              <option key={subcategory.id} value={subcategory.id}>
+                {localize(subcategory.name, locale) || subcategory.id}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <LocalizedTextField label={t('admin.products.name')} value={draft.name} onChange={(value) => update('name', value)} />
+        <LocalizedTextField
+          label={t('admin.products.shortDescription')}
+          value={draft.shortDescription}
+          onChange={(value) => update('shortDescription', value)}
+        />
+      </div>
+      <LocalizedTextField
+        label={t('admin.products.description')}
+        value={draft.description}
+        onChange={(value) => update('description', value)}
+        multiline
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <TextField
+          label={t('productDetail.price')}
+          type="number"
+          value={String(draft.price.amount)}
+          onChange={(value) => updatePrice('amount', Number(value) || 0)}
+        />
+        <TextField
+          label={t('admin.products.currency')}
+          value={draft.price.currency}
+          onChange={(value) => updatePrice('currency', value.toUpperCase())}
+        />
+        <TextField
+          label={t('productDetail.moq')}
+          type="number"
+          value={String(draft.price.moq)}
+          onChange={(value) => updatePrice('moq', Math.max(1, Number(value) || 1))}
+        />
+      </div>
+      <div className="grid gap-4 md:grid-cols-4">
+        <InventoryFields
+          stockStatus={getAggregateStockStatus(draft)}
+          inventory={draft.inventory}
+          onChange={(patch) => setDraft((previous) => ({ ...previous, ...patch }))}
+          disabled={hasVariants(draft)}
+          disabledHint={t('admin.variants.stockHint')}
+        />
+      </div>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-white">{t('productDetail.priceBreaks')}</p>
+          <button
+            type="button"
+            onClick={() =>
+              updatePrice('tiers', [
+                ...(draft.price.tiers ?? []),
+                { minQuantity: (draft.price.tiers?.at(-1)?.minQuantity ?? draft.price.moq) * 5, amount: draft.price.amount }
+              ])
+            }
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        </div>
+        {(draft.price.tiers ?? []).map((tier, index) => (
+          <div key={index} className="flex items-end gap-3">
+            <TextField
+              label={t('admin.products.tierMinQuantity')}
+              type="number"
+              value={String(tier.minQuantity)}
+              onChange={(value) =>
+                updatePrice(
+                  'tiers',
+                  draft.price.tiers?.map((item, itemIndex) =>
+                    itemIndex === index ? { ...item, minQuantity: Math.max(1, Number(value) || 1) } : item
+                  )
+                )
+              }
+              className="flex-1"
+            />
+            <TextField
+              label={`${t('productDetail.unitPrice')} (${draft.price.currency})`}
+              type="number"
+              value={String(tier.amount)}
+              onChange={(value) =>
+                updatePrice(
+                  'tiers',
+                  draft.price.tiers?.map((item, itemIndex) =>
+                    itemIndex === index ? { ...item, amount: Number(value) || 0 } : item
+                  )
+                )
+              }
+              className="flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                const tiers = draft.price.tiers?.filter((_, itemIndex) => itemIndex !== index) ?? []
+                updatePrice('tiers', tiers.length > 0 ? tiers : undefined)
+              }}
+              className="rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <LocalizedTextField
+          label={t('productDetail.unit')}
+          value={draft.price.unit}
+          onChange={(value) => updatePrice('unit', value)}
+        />
+        <LocalizedTextField
+          label={t('productDetail.leadTime')}
+          value={draft.leadTime}
+          onChange={(value) => update('leadTime', value)}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <TextField
+          label={t('admin.products.mainImage')}
+          type="url"
+          value={draft.mainImage}
+          onChange={(value) => update('mainImage', value)}
+        />
+        <TextField
+          label={t('admin.products.certifications')}
+          value={draft.certifications.join(', ')}
+          onChange={(value) =>
+            update(
+              'certifications',
+              value
+                .split(',')
+                .map((item) => item.trim())
+                .filter(Boolean)
+            )
+          }
+        />
+      </div>
+      <Field label={t('admin.products.images')}>
+        <textarea
+          rows={3}
+          value={draft.images.join('\n')}
+          onChange={(event) => update('images', splitLines(event.target.value))}
+          className={inputClassName}
+        />
+      </Field>
+
+      <VariantEditor product={draft} onChange={(patch) => setDraft((previous) => ({ ...previous, ...patch }))} />
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <ProductLinksField
+          label={t('admin.products.frequentlyQuotedWith')}
+          hint={t('admin.products.frequentlyQuotedWithHint')}
+          value={draft.frequentlyQuotedWith}
+          productId={draft.id}
+          onChange={(ids) => update('frequentlyQuotedWith', ids)}
+        />
+        <ProductLinksField
+          label={t('admin.products.accessories')}
+          hint={t('admin.products.accessoriesHint')}
+          value={draft.accessoryIds}
+          productId={draft.id}
+          onChange={(ids) => update('accessoryIds', ids)}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-white">{t('productDetail.featuresTitle')}</p>
+          <button
+            type="button"
+            onClick={() => update('features', [...draft.features, createLocalizedText(siteData.locales)])}
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        </div>
+        {draft.features.map((feature, index) => (
+          <div key={index} className="flex items-start gap-2 rounded-2xl border border-white/10 p-3">
+            <LocalizedTextField
+              label={`#${index + 1}`}
+              value={feature}
+              onChange={(value) =>
+                update(
+                  'features',
+                  draft.features.map((item, itemIndex) => (itemIndex === index ? value : item))
+                )
+              }
+              className="flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => update('features', draft.features.filter((_, itemIndex) => itemIndex !== index))}
+              className="mt-6 rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-white">{t('productDetail.specsTitle')}</p>
+          <button
+            type="button"
+            onClick={() =>
+              update('specs', [
+                ...draft.specs,
+                { label: createLocalizedText(siteData.locales), value: createLocalizedText(siteData.locales) }
+              ])
+            }
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        </div>
+        {draft.specs.map((spec, index) => (
+          <div key={index} className="flex items-start gap-2 rounded-2xl border border-white/10 p-3">
+            <div className="grid flex-1 gap-3 md:grid-cols-2">
+              <LocalizedTextField
+                label={t('admin.products.specLabel')}
+                value={spec.label}
+                onChange={(value) =>
+                  update(
+                    'specs',
+                    draft.specs.map((item, itemIndex) => (itemIndex === index ? { ...item, label: value } : item))
+                  )
+                }
+              />
+              <LocalizedTextField
+                label={t('admin.products.specValue')}
+                value={spec.value}
+                onChange={(value) =>
+                  update(
+                    'specs',
+                    draft.specs.map((item, itemIndex) => (itemIndex === index ? { ...item, value } : item))
+                  )
+                }
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => update('specs', draft.specs.filter((_, itemIndex) => itemIndex !== index))}
+              className="mt-6 rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <LocalizedTextField
+          label={t('admin.products.seoTitle')}
+          value={draft.seo?.title}
+          onChange={(value) => update('seo', { ...draft.seo, title: value })}
+        />
+        <LocalizedTextField
+          label={t('admin.products.seoDescription')}
+          value={draft.seo?.description}
+          onChange={(value) => update('seo', { ...draft.seo, description: value })}
+          multiline
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-white/70">
+        <input
+          type="checkbox"
+          checked={draft.noindex ?? false}
+          onChange={(event) => update('noindex', event.target.checked || undefined)}
+          className="h-4 w-4 accent-amber-300"
+        />
+        {t('admin.products.noindex')}
+      </label>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-white/60">
+        <span>{t('admin.products.translationStatus')}</span>
+        {siteData.locales.map((item) => (
+          <span
+            key={item}
+            className={`rounded-full px-2 py-0.5 ${
+              translationStatus[item] ? 'bg-emerald-500/20 text-emerald-300' : 'bg-white/10 text-white/50'
+            }`}
+          >
+            {t(`languages.${item}`)}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="btn-ghost">
+          {t('actions.cancel')}
+        </button>
+        <button type="button" onClick={handleSubmit} className="btn-primary">
+          {isNew ? t('actions.add') : t('actions.save')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Download, Upload } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { inputClassName } from './FormFields'
+import { parseCsv } from '../../utils/csv'
+import { readXlsxRows } from '../../utils/xlsx'
+import { downloadFile } from '../../utils/download'
+import {
+  SPEC_TARGET,
+  applyImport,
+  buildImportPreview,
+  exportProductsCsv,
+  getImportTargets,
+  guessColumnMapping
+} from '../../utils/productImport'
+import type { ImportAction } from '../../utils/productImport'
+import type { SheetRow } from '../../utils/csv'
+
+interface ProductImportProps {
+  onClose: () => void
+}
+
+interface Sheet {
+  fileName: string
+  headers: string[]
+  rows: SheetRow[]
+}
+
+const actionClassNames: Record<ImportAction, string> = {
+  create: 'border-emerald-300/40 bg-emerald-400/10 text-emerald-200',
+  update: 'border-amber-300/40 bg-amber-400/10 text-amber-200',
+  unchanged: 'border-white/10 text-white/50',
+  error: 'border-rose-300/40 bg-rose-400/10 text-rose-200'
+}
+
+const readSheet = async (file: File) =>
+  file.name.toLowerCase().endsWith('.xlsx') ? readXlsxRows(await file.arrayBuffer()) : parseCsv(await file.text())
+
+export const ProductImport = ({ onClose }: ProductImportProps) => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t } = useTranslation()
+  const [sheet, setSheet] = useState<Sheet | null>(null)
+  const [mapping, setMapping] = useState<string[]>([])
+
+  const targets = getImportTargets(siteData.locales)
+
+  const results = useMemo(
+    () => (sheet ? buildImportPreview(siteData, sheet.rows, mapping, sheet.headers) : []),
+    [mapping, sheet, siteData]
+  )
+
+  const counts = results.reduce<Record<ImportAction, number>>(
+    (total, result) => ({ ...total, [result.action]: total[result.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, error: 0 }
+  )
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const [headerRow, ...rows] = await readSheet(file)
+      if (!headerRow || rows.length === 0) {
+        toast.error(t('admin.import.emptyFile'))
+        return
+      }
+      const headers = headerRow.cells.map((header) => header.trim())
+      setSheet({ fileName: file.name, headers, rows })
+      setMapping(guessColumnMapping(headers, siteData))
+    } catch (error) {
+      console.error(error)
+      toast.error(t('admin.import.readError'))
+    }
+  }
+
+  const handleExport = () => {
+    downloadFile(
+      `products-${new Date().toISOString().slice(0, 10)}.csv`,
+      exportProductsCsv(siteData),
+      'text/csv;charset=utf-8'
+    )
+  }
+
+  const handleApply = () => {
+    updateSiteData((previous) => ({ ...previous, products: applyImport(previous.products, results) }))
+    toast.success(t('admin.import.applied', { created: counts.create, updated: counts.update }))
+    onClose()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="btn-primary cursor-pointer gap-2 px-4 py-2">
+          <Upload className="h-4 w-4" />
+          {t('admin.import.chooseFile')}
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+        <button type="button" onClick={handleExport} className="btn-ghost gap-2 px-4 py-2">
+          <Download className="h-4 w-4" />
+          {t('admin.import.exportTemplate')}
+        </button>
+        {sheet && (
+          <span className="text-xs text-white/50">
+            {t('admin.import.fileSummary', { name: sheet.fileName, count: sheet.rows.length })}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-white/50">{t('admin.import.formatHint')}</p>
+
+      {sheet && (
+        <>
+          <div>
+            <h3 className="text-sm font-semibold text-white">{t('admin.import.mappingTitle')}</h3>
+            <div className="mt-3 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+              {sheet.headers.map((header, column) => (
+                <label key={`${header}-${column}`} className="block text-xs text-white/60">
+                  <span className="mb-1 flex justify-between gap-2">
+                    <span className="font-mono text-white/80">{header || `#${column + 1}`}</span>
+                    <span className="truncate text-white/40">{sheet.rows[0]?.cells[column]}</span>
+                  </span>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(event) =>
+                      setMapping((previous) =>
+                        sheet.headers.map((_, index) => (index === column ? event.target.value : (previous[index] ?? '')))
+                      )
+                    }
+                    className={inputClassName}
+                  >
+                    <option value="">{t('admin.import.ignoreColumn')}</option>
+                    {targets.map((target) => (
+                      <option key={target} value={target}>
+                        {target}
+                      </option>
+                    ))}
+                    <option value={SPEC_TARGET}>{t('admin.import.specColumn')}</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-sm font-semibold text-white">{t('admin.import.previewTitle')}</h3>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(counts) as ImportAction[]).map((action) => (
+                  <span key={action} className={`rounded-full border px-3 py-1 ${actionClassNames[action]}`}>
+                    {t(`admin.import.actions.${action}`)} · {counts[action]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="mt-3 max-h-[32rem] overflow-auto rounded-2xl border border-white/10">
+              <table className="w-full text-start text-sm text-white/70">
+                <thead className="sticky top-0 bg-slate-950 text-xs uppercase tracking-widest text-white/40">
+                  <tr>
+                    <th className="px-3 py-2 text-start">{t('admin.import.row')}</th>
+                    <th className="px-3 py-2 text-start">{t('admin.products.sku')}</th>
+                    <th className="px-3 py-2 text-start">{t('admin.import.status')}</th>
+                    <th className="px-3 py-2 text-start">{t('admin.import.details')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr key={result.rowNumber} className="border-t border-white/5 align-top">
+                      <td className="px-3 py-2 text-xs text-white/40">{result.rowNumber}</td>
+                      <td className="px-3 py-2 font-mono text-xs">{result.sku || '—'}</td>
+                      <td className="px-3 py-2">
+                        <span className={`rounded-full border px-2 py-0.5 text-xs ${actionClassNames[result.action]}`}>
+                          {t(`admin.import.actions.${result.action}`)}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {result.issues.length > 0 ? (
+                          <ul className="space-y-1 text-rose-300">
+                            {result.issues.map((issue, index) => (
+                              <li key={`${issue.code}-${index}`}>
+                                {t(`admin.import.issues.${issue.code}`, { field: issue.field, value: issue.value })}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : result.action === 'create' ? (
+                          <span className="text-white/60">{result.product.name[siteData.defaultLocale]}</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {result.changes.map((change) => (
+                              <li key={change.field} className="break-all">
+                                <span className="font-mono text-white/50">{change.field}</span>:{' '}
+                                <span className="text-rose-300/80 line-through">{change.before || '∅'}</span> →{' '}
+                                <span className="text-emerald-300">{change.after || '∅'}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onClose} className="btn-ghost">
+          {t('actions.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={counts.create + counts.update === 0}
+          className="btn-primary disabled:opacity-40"
+        >
+          {t('admin.import.apply', { count: counts.create + counts.update })}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { useTranslation } from 'react-i18next'
+import { useSiteData } from '../../context/SiteDataContext'
+import { localize } from '../../utils/localize'
+import type { Locale } from '../../types/site'
+
+interface ProductLinksFieldProps {
+  label: string
+  hint?: string
+  value: string[] | undefined
+  // 正在编辑的产品，不能关联自身
+  productId: string
+  onChange: (ids: string[] | undefined) => void
+}
+
+export const ProductLinksField = ({ label, hint, value = [], productId, onChange }: ProductLinksFieldProps) => {
+  const { siteData } = useSiteData()
+  const { i18n } = useTranslation()
+  const locale = i18n.language as Locale
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = checked ? [...value, id] : value.filter((item) => item !== id)
+    onChange(next.length > 0 ? next : undefined)
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-white/60">{label}</p>
+      {hint && <p className="text-xs text-white/40">{hint}</p>}
+      <div className="mt-2 max-h-48 space-y-2 overflow-y-auto rounded-xl border border-white/10 p-3 pe-2">
+        {siteData.products
+          .filter((product) => product.id !== productId)
+          .map((product) => (
+            <label key={product.id} className="flex items-center gap-2 text-sm text-white/70">
+              <input
+                type="checkbox"
+                checked={value.includes(product.id)}
+                onChange={(event) => toggle(product.id, event.target.checked)}
+              />
+              <span className="font-mono text-xs text-white/40">{product.sku}</span>
+              <span>{localize(product.name, locale)}</span>
+            </label>
+          ))}
+      </div>
+    </div>
+  )
+}
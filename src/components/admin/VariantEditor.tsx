@@ -0,0 +1,221 @@
+import { useTranslation } from 'react-i18next'
+import { Plus, Trash2, Wand2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { LocalizedTextField, TextField } from './FormFields'
+import { InventoryFields } from './InventoryFields'
+import { createUniqueId } from '../../utils/admin'
+import { createLocalizedText } from '../../utils/localize'
+import { buildVariantCombinations, createVariantSku, findVariant, getVariantLabel } from '../../utils/variants'
+import type { Locale, Product, ProductOption, ProductVariant } from '../../types/site'
+
+interface VariantEditorProps {
+  product: Product
+  onChange: (patch: Pick<Product, 'options' | 'variants'>) => void
+}
+
+const parseOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value) || 0)
+
+export const VariantEditor = ({ product, onChange }: VariantEditorProps) => {
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const options = product.options ?? []
+  const variants = product.variants ?? []
+
+  const updateOptions = (next: ProductOption[]) =>
+    onChange({ options: next.length > 0 ? next : undefined, variants: product.variants })
+
+  const updateOption = (index: number, patch: Partial<ProductOption>) =>
+    updateOptions(options.map((option, optionIndex) => (optionIndex === index ? { ...option, ...patch } : option)))
+
+  const updateVariant = (index: number, patch: Partial<ProductVariant>) =>
+    onChange({
+      options: product.options,
+      variants: variants.map((variant, variantIndex) => (variantIndex === index ? { ...variant, ...patch } : variant))
+    })
+
+  // 按当前选项重新生成全部组合，已有组合保留其 SKU、价格、库存与图片
+  const handleGenerate = () => {
+    const ids: string[] = []
+    const next = buildVariantCombinations(options).map((selection) => {
+      const existing = findVariant(product, selection)
+      if (existing) {
+        ids.push(existing.id)
+        return existing
+      }
+      const id = createUniqueId(['v', ...options.map((option) => selection[option.id])].join('-'), ids)
+      ids.push(id)
+      return { id, sku: createVariantSku(product, selection), options: selection, stockStatus: 'in_stock' as const }
+    })
+    onChange({ options: product.options, variants: next.length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-white">{t('admin.variants.title')}</p>
+          <p className="text-xs text-white/50">{t('admin.variants.hint')}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            updateOptions([
+              ...options,
+              {
+                id: createUniqueId(
+                  'option',
+                  options.map((option) => option.id)
+                ),
+                name: createLocalizedText(siteData.locales),
+                values: []
+              }
+            ])
+          }
+          className="btn-ghost gap-1 px-3 py-1 text-xs"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          {t('admin.variants.addOption')}
+        </button>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={option.id} className="space-y-3 rounded-2xl border border-white/10 p-3">
+          <div className="flex items-start gap-2">
+            <LocalizedTextField
+              label={`${t('admin.variants.optionName')} (${option.id})`}
+              value={option.name}
+              onChange={(name) => updateOption(index, { name })}
+              className="flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => updateOptions(options.filter((_, optionIndex) => optionIndex !== index))}
+              className="mt-6 rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            {option.values.map((value, valueIndex) => (
+              <div key={value.id} className="flex items-start gap-2">
+                <LocalizedTextField
+                  label={`${t('admin.variants.value')} (${value.id})`}
+                  value={value.label}
+                  onChange={(label) =>
+                    updateOption(index, {
+                      values: option.values.map((item, itemIndex) => (itemIndex === valueIndex ? { ...item, label } : item))
+                    })
+                  }
+                  className="flex-1"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateOption(index, { values: option.values.filter((_, itemIndex) => itemIndex !== valueIndex) })
+                  }
+                  className="mt-6 rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                  aria-label={t('actions.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() =>
+              updateOption(index, {
+                values: [
+                  ...option.values,
+                  {
+                    id: createUniqueId(
+                      'value',
+                      option.values.map((value) => value.id)
+                    ),
+                    label: createLocalizedText(siteData.locales)
+                  }
+                ]
+              })
+            }
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('admin.variants.addValue')}
+          </button>
+        </div>
+      ))}
+
+      {options.length > 0 && (
+        <button type="button" onClick={handleGenerate} className="btn-ghost gap-2 px-3 py-1.5 text-xs">
+          <Wand2 className="h-3.5 w-3.5" />
+          {t('admin.variants.generate')}
+        </button>
+      )}
+
+      {variants.map((variant, index) => (
+        <div key={variant.id} className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-white/80">{getVariantLabel(product, variant, locale) || variant.id}</p>
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  options: product.options,
+                  variants: variants.length > 1 ? variants.filter((_, variantIndex) => variantIndex !== index) : undefined
+                })
+              }
+              className="rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <TextField
+              label={t('admin.products.sku')}
+              value={variant.sku}
+              onChange={(sku) => updateVariant(index, { sku })}
+            />
+            <TextField
+              label={`${t('productDetail.price')} (${product.price.currency})`}
+              type="number"
+              value={variant.amount === undefined ? '' : String(variant.amount)}
+              placeholder={String(product.price.amount)}
+              onChange={(value) => updateVariant(index, { amount: parseOptionalNumber(value) })}
+            />
+            <TextField
+              label={t('productDetail.moq')}
+              type="number"
+              value={variant.moq === undefined ? '' : String(variant.moq)}
+              placeholder={String(product.price.moq)}
+              onChange={(value) => {
+                const moq = parseOptionalNumber(value)
+                updateVariant(index, { moq: moq === undefined ? undefined : Math.max(1, moq) })
+              }}
+            />
+          </div>
+          <div className="grid gap-3 md:grid-cols-4">
+            <InventoryFields
+              stockStatus={variant.stockStatus}
+              inventory={variant.inventory}
+              onChange={(patch) => updateVariant(index, patch)}
+            />
+          </div>
+          <TextField
+            label={t('admin.variants.images')}
+            value={(variant.images ?? []).join(', ')}
+            onChange={(value) => {
+              const images = value
+                .split(',')
+                .map((item) => item.trim())
+                .filter(Boolean)
+              updateVariant(index, { images: images.length > 0 ? images : undefined })
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
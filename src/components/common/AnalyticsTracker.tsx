@@ -0,0 +1,16 @@
+import { useEffect } from 'react'
+import { useLocation } from 'react-router-dom'
+import { useAnalytics } from '../../hooks/useAnalytics'
+
+// 每次路由切换记录一次页面浏览；后台页面不统计
+export const AnalyticsTracker = () => {
+  const { pathname } = useLocation()
+  const { track } = useAnalytics()
+
+  useEffect(() => {
+    if (pathname.startsWith('/admin')) return
+    track('page_view', { path: pathname })
+  }, [pathname, track])
+
+  return null
+}
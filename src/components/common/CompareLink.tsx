@@ -0,0 +1,32 @@
+import { NavLink } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { GitCompareArrows } from 'lucide-react'
+import { useCompare } from '../../hooks/useCompare'
+import { buildComparePath } from '../../utils/compare'
+
+// 仅在已选择对比产品时显示
+export const CompareLink = ({ onClick }: { onClick?: () => void }) => {
+  const { t } = useTranslation()
+  const { ids } = useCompare()
+
+  if (ids.length === 0) return null
+
+  return (
+    <NavLink
+      to={buildComparePath(ids)}
+      onClick={onClick}
+      aria-label={t('compare.title')}
+      title={t('compare.title')}
+      className={({ isActive }) =>
+        `relative flex items-center rounded-full border px-2.5 py-1.5 transition ${
+          isActive ? 'border-amber-300/60 text-amber-300' : 'border-white/20 text-white/80 hover:border-white/40'
+        }`
+      }
+    >
+      <GitCompareArrows className="h-4 w-4" />
+      <span className="absolute -end-1.5 -top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber-400 px-1 text-[10px] font-semibold text-slate-900">
+        {ids.length}
+      </span>
+    </NavLink>
+  )
+}
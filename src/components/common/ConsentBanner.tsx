@@ -0,0 +1,29 @@
+import { useTranslation } from 'react-i18next'
+import { useAnalytics } from '../../hooks/useAnalytics'
+
+// 访客做出选择前显示；同意之前不会记录任何事件
+export const ConsentBanner = () => {
+  const { t } = useTranslation()
+  const { consent, setConsent } = useAnalytics()
+
+  if (consent !== null) return null
+
+  return (
+    <div
+      role="dialog"
+      aria-label={t('consent.title')}
+      className="glass-panel fixed inset-x-4 bottom-24 z-40 rounded-3xl border border-white/10 p-5 print:hidden md:inset-x-auto md:bottom-6 md:start-6 md:max-w-md"
+    >
+      <p className="text-sm font-semibold text-white">{t('consent.title')}</p>
+      <p className="mt-2 text-xs text-white/60">{t('consent.description')}</p>
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button type="button" onClick={() => setConsent('granted')} className="btn-primary px-4 py-2 text-xs">
+          {t('consent.accept')}
+        </button>
+        <button type="button" onClick={() => setConsent('denied')} className="btn-ghost px-4 py-2 text-xs">
+          {t('consent.decline')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { useTranslation } from 'react-i18next'
+import { useCurrency } from '../../hooks/useCurrency'
+import { formatDate } from '../../utils/format'
+import type { Locale } from '../../types/site'
+
+interface CurrencyDisclaimerProps {
+  // 参与展示的原始币种，全部与当前展示币种一致时不显示提示
+  sourceCurrencies: string[]
+  className?: string
+}
+
+export const CurrencyDisclaimer = ({ sourceCurrencies, className = '' }: CurrencyDisclaimerProps) => {
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const { currency, asOf } = useCurrency()
+
+  if (!currency || !asOf || sourceCurrencies.every((code) => code === currency)) return null
+
+  return (
+    <p className={`text-xs text-white/40 ${className}`}>
+      {t('currency.disclaimer', { currency, date: formatDate(asOf, locale) })}
+    </p>
+  )
+}
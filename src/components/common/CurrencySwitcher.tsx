@@ -0,0 +1,47 @@
+import { useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { useCurrency } from '../../hooks/useCurrency'
+
+export const CurrencySwitcher = () => {
+  const { t } = useTranslation()
+  const { currency, currencies, setCurrency } = useCurrency()
+  const [open, setOpen] = useState(false)
+
+  // 汇率表只有一种货币时无需切换
+  if (!currency || currencies.length < 2) return null
+
+  const handleSelect = (code: string) => {
+    setCurrency(code)
+    setOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label={t('currency.label')}
+        className="flex items-center gap-2 rounded-full border border-white/20 px-3 py-1.5 text-xs text-white/80 transition hover:border-white/40"
+      >
+        <span>{currency}</span>
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+      {open && (
+        <div className="absolute end-0 mt-2 w-28 overflow-hidden rounded-xl border border-white/10 bg-slate-950/90 text-xs shadow-xl backdrop-blur">
+          {currencies.map((code) => (
+            <button
+              key={code}
+              type="button"
+              onClick={() => handleSelect(code)}
+              className="flex w-full items-center justify-between px-3 py-2 text-start text-white/80 hover:bg-white/10"
+            >
+              <span>{code}</span>
+              {currency === code && <span className="text-amber-300">●</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
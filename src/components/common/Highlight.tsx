@@ -0,0 +1,20 @@
+import { splitHighlights } from '../../utils/search'
+
+interface HighlightProps {
+  text: string
+  terms?: string[]
+}
+
+export const Highlight = ({ text, terms = [] }: HighlightProps) => (
+  <>
+    {splitHighlights(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded bg-amber-300/20 px-0.5 text-amber-200">
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+)
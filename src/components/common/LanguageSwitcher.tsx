@@ -1,18 +1,22 @@
 import { useState } from 'react'
 import { ChevronDown } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
-import { setLanguageParam, SUPPORTED_LANGUAGES } from '../../i18n/utils'
+import { useSiteData } from '../../context/SiteDataContext'
+import { switchLanguage } from '../../i18n'
+import { SUPPORTED_LANGUAGES } from '../../i18n/locales'
 import type { Locale } from '../../types/site'
 
 export const LanguageSwitcher = () => {
   const { i18n, t } = useTranslation()
+  const { siteData } = useSiteData()
   const [open, setOpen] = useState(false)
   const current = (i18n.language as Locale) || 'en'
+  // 只列出站点启用的语言，顺序与语言注册表一致
+  const languages = SUPPORTED_LANGUAGES.filter((lang) => siteData.locales.includes(lang))
 
   const handleSelect = (lang: Locale) => {
-    void i18n.changeLanguage(lang)
-    setLanguageParam(lang)
     setOpen(false)
+    if (lang !== current) void switchLanguage(lang)
   }
 
   return (
@@ -26,13 +30,13 @@ export const LanguageSwitcher = () => {
         <ChevronDown className="h-3.5 w-3.5" />
       </button>
       {open && (
-        <div className="absolute right-0 mt-2 w-32 overflow-hidden rounded-xl border border-white/10 bg-slate-950/90 text-xs shadow-xl backdrop-blur">
-          {SUPPORTED_LANGUAGES.map((lang) => (
+        <div className="absolute end-0 mt-2 w-32 overflow-hidden rounded-xl border border-white/10 bg-slate-950/90 text-xs shadow-xl backdrop-blur">
+          {languages.map((lang) => (
             <button
               key={lang}
               type="button"
               onClick={() => handleSelect(lang)}
-              className="flex w-full items-center justify-between px-3 py-2 text-left text-white/80 hover:bg-white/10"
+              className="flex w-full items-center justify-between px-3 py-2 text-start text-white/80 hover:bg-white/10"
             >
               <span>{t(`languages.${lang}`)}</span>
               {current === lang && <span className="text-amber-300">●</span>}
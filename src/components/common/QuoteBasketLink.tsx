@@ -0,0 +1,30 @@
+import { NavLink } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ClipboardList } from 'lucide-react'
+import { useQuoteBasket } from '../../hooks/useQuoteBasket'
+
+export const QuoteBasketLink = ({ onClick }: { onClick?: () => void }) => {
+  const { t } = useTranslation()
+  const { itemCount } = useQuoteBasket()
+
+  return (
+    <NavLink
+      to="/quote"
+      onClick={onClick}
+      aria-label={t('quote.title')}
+      title={t('quote.title')}
+      className={({ isActive }) =>
+        `relative flex items-center rounded-full border px-2.5 py-1.5 transition ${
+          isActive ? 'border-amber-300/60 text-amber-300' : 'border-white/20 text-white/80 hover:border-white/40'
+        }`
+      }
+    >
+      <ClipboardList className="h-4 w-4" />
+      {itemCount > 0 && (
+        <span className="absolute -end-1.5 -top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber-400 px-1 text-[10px] font-semibold text-slate-900">
+          {itemCount}
+        </span>
+      )}
+    </NavLink>
+  )
+}
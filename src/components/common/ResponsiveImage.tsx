@@ -0,0 +1,75 @@
+import type { ImgHTMLAttributes } from 'react'
+import manifest from 'virtual:responsive-images'
+import { RESPONSIVE_IMAGE_FORMATS, buildSrcSet, isRemoteImage, toPublicImagePath } from '../../utils/images'
+
+type ResponsiveImageProps = Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> & {
+  src: string
+  alt: string
+  // 图片在页面上的显示宽度，浏览器据此从 srcset 中挑选尺寸
+  sizes?: string
+  // 打印页等使用 object-contain 的场景关闭模糊占位，避免留白处露出背景
+  placeholder?: boolean
+}
+
+const resolvePublicUrl = (path: string) => `${import.meta.env.BASE_URL}${path}`
+
+// 构建时生成过多尺寸版本的本地图片输出 <picture>（AVIF、WebP 与原格式）、固有宽高和模糊占位图；
+// 远程图片与清单外的图片退回普通 <img>
+export const ResponsiveImage = ({
+  src,
+  alt,
+  sizes = '100vw',
+  placeholder = true,
+  style,
+  ...props
+}: ResponsiveImageProps) => {
+  if (!src) return null
+
+  const entry = isRemoteImage(src) ? undefined : manifest[toPublicImagePath(src)]
+  if (!entry) {
+    return (
+      <img
+        src={isRemoteImage(src) ? src : resolvePublicUrl(src.replace(/^\.?\/+/, ''))}
+        alt={alt}
+        decoding="async"
+        style={style}
+        {...props}
+      />
+    )
+  }
+
+  const formats = RESPONSIVE_IMAGE_FORMATS.filter((format) => entry.sources[format]?.length)
+  const fallback = entry.sources[formats[formats.length - 1]] ?? []
+  return (
+    <picture className="contents">
+      {formats.slice(0, -1).map((format) => (
+        <source
+          key={format}
+          type={`image/${format}`}
+          srcSet={buildSrcSet(entry.sources[format] ?? [], resolvePublicUrl)}
+          sizes={sizes}
+        />
+      ))}
+      <img
+        src={resolvePublicUrl(fallback[fallback.length - 1].path)}
+        srcSet={buildSrcSet(fallback, resolvePublicUrl)}
+        sizes={sizes}
+        width={entry.width}
+        height={entry.height}
+        alt={alt}
+        decoding="async"
+        style={
+          placeholder && entry.placeholder
+            ? {
+                backgroundImage: `url(${entry.placeholder})`,
+                backgroundSize: 'cover',
+                backgroundPosition: 'center',
+                ...style
+              }
+            : style
+        }
+        {...props}
+      />
+    </picture>
+  )
+}
@@ -1,13 +1,17 @@
-import { useEffect } from 'react'
+import { useContext, useEffect, useMemo } from 'react'
 import { useLocation } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { useSiteData } from '../../context/SiteDataContext'
-import type { LocalizedText } from '../../types/site'
+import { SeoCollectorContext } from '../../context/SeoCollectorContext'
+import { buildSeoTags } from '../../utils/seo'
+import type { StructuredData } from '../../utils/seo'
+import type { Locale, LocalizedText } from '../../types/site'
 
 interface SeoProps {
   title: LocalizedText
   description: LocalizedText
-  structuredData?: Record<string, unknown> | Array<Record<string, unknown>>
+  structuredData?: StructuredData
+  noindex?: boolean
 }
 
 const ensureMetaTag = (attr: 'name' | 'property', value: string) => {
@@ -44,48 +48,61 @@ const ensureCanonical = () => {
   return element
 }
 
-export const Seo = ({ title, description, structuredData }: SeoProps) => {
+export const Seo = ({ title, description, structuredData, noindex }: SeoProps) => {
   const location = useLocation()
   const { i18n } = useTranslation()
   const { siteData } = useSiteData()
+  const collect = useContext(SeoCollectorContext)
 
-  useEffect(() => {
-    // 确保 title 和 description 是有效的对象
-    const safeTitle = title && typeof title === 'object' ? title : { en: '', zh: '' }
-    const safeDescription = description && typeof description === 'object' ? description : { en: '', zh: '' }
-    
-    const lang = i18n.language as 'en' | 'zh'
-    const pageTitle = safeTitle[lang] || siteData.settings?.seoDefaults?.title?.[lang] || ''
-    const pageDescription =
-      safeDescription[lang] || siteData.settings?.seoDefaults?.description?.[lang] || ''
+  const tags = useMemo(
+    () =>
+      buildSeoTags({
+        title,
+        description,
+        structuredData,
+        noindex,
+        locale: i18n.language as Locale,
+        pathname: location.pathname,
+        siteData
+      }),
+    [description, i18n.language, location.pathname, noindex, siteData, structuredData, title]
+  )
 
-    document.title = pageTitle
-    ensureMetaTag('name', 'description').content = pageDescription
-    ensureMetaTag('property', 'og:title').content = pageTitle
-    ensureMetaTag('property', 'og:description').content = pageDescription
+  // 预渲染不会执行 effect，在渲染阶段把标签交给脚本写入 HTML
+  collect?.(tags)
+
+  useEffect(() => {
+    document.title = tags.title
+    ensureMetaTag('name', 'description').content = tags.description
+    ensureMetaTag('property', 'og:title').content = tags.title
+    ensureMetaTag('property', 'og:description').content = tags.description
     ensureMetaTag('property', 'og:type').content = 'website'
-    ensureMetaTag('property', 'og:locale').content = lang === 'zh' ? 'zh_CN' : 'en_US'
+    ensureMetaTag('property', 'og:url').content = tags.canonical
+    ensureMetaTag('property', 'og:locale').content = tags.ogLocale
     ensureMetaTag('name', 'twitter:card').content = 'summary_large_image'
-    ensureMetaTag('name', 'twitter:title').content = pageTitle
-    ensureMetaTag('name', 'twitter:description').content = pageDescription
+    ensureMetaTag('name', 'twitter:title').content = tags.title
+    ensureMetaTag('name', 'twitter:description').content = tags.description
 
-    const baseUrl = `${window.location.origin}${window.location.pathname}`
-    const hashPath = location.pathname === '/' ? '' : location.pathname
-    const routeHash = `#${hashPath}`
-    const canonicalUrl = `${baseUrl}${routeHash}`
-
-    siteData.locales?.forEach((locale) => {
-      const link = ensureLinkTag('alternate', locale)
-      link.href = `${baseUrl}${routeHash}?lang=${locale}`
+    // 移除已停用语言的 alternate 链接
+    const hreflangs = new Set(tags.alternates.map((alternate) => alternate.hreflang))
+    document.head.querySelectorAll<HTMLLinkElement>('link[rel="alternate"][hreflang]').forEach((link) => {
+      if (!hreflangs.has(link.hreflang)) link.remove()
+    })
+    tags.alternates.forEach((alternate) => {
+      ensureLinkTag('alternate', alternate.hreflang).href = alternate.href
     })
 
-    const xDefault = ensureLinkTag('alternate', 'x-default')
-    xDefault.href = `${baseUrl}${routeHash}?lang=${siteData.defaultLocale || 'en'}`
+    ensureCanonical().href = tags.canonical
 
-    ensureCanonical().href = canonicalUrl
+    const robots = document.head.querySelector<HTMLMetaElement>('meta[name="robots"]')
+    if (tags.noindex) {
+      ensureMetaTag('name', 'robots').content = 'noindex'
+    } else {
+      robots?.remove()
+    }
 
     const existing = document.getElementById('structured-data')
-    if (structuredData) {
+    if (tags.structuredData) {
       let script = existing as HTMLScriptElement | null
       if (!script) {
         script = document.createElement('script')
@@ -93,11 +110,11 @@ export const Seo = ({ title, description, structuredData }: SeoProps) => {
         script.type = 'application/ld+json'
         document.head.appendChild(script)
       }
-      script.textContent = JSON.stringify(structuredData)
+      script.textContent = JSON.stringify(tags.structuredData)
     } else if (existing) {
       existing.remove()
     }
-  }, [description, i18n.language, location.pathname, siteData, structuredData, title])
+  }, [tags])
 
   return null
 }
@@ -0,0 +1,55 @@
+import { useMemo, useState } from 'react'
+import { AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { validateSiteData } from '../../schema/validateSiteData'
+
+// 仅开发环境使用：列出 site-data.json（或后台工作副本）中的全部问题路径
+export const SiteDataDiagnostics = () => {
+  const { siteData } = useSiteData()
+  const issues = useMemo(() => validateSiteData(siteData), [siteData])
+  const [collapsed, setCollapsed] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+
+  if (issues.length === 0 || dismissed) return null
+
+  return (
+    <div className="fixed bottom-4 start-4 z-[60] w-[min(32rem,calc(100vw-2rem))] rounded-2xl border border-rose-400/40 bg-slate-950/95 text-xs text-white/80 shadow-2xl backdrop-blur">
+      <div className="flex items-center justify-between gap-2 border-b border-white/10 px-4 py-3">
+        <p className="flex items-center gap-2 font-semibold text-rose-300">
+          <AlertTriangle className="h-4 w-4" />
+          site-data.json · {issues.length} problem(s)
+        </p>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setCollapsed((previous) => !previous)}
+            className="rounded-full p-1 hover:bg-white/10"
+            aria-label="Toggle details"
+          >
+            {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => setDismissed(true)}
+            className="rounded-full p-1 hover:bg-white/10"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {!collapsed && (
+        <ul className="max-h-72 space-y-2 overflow-y-auto px-4 py-3 font-mono">
+          {issues.map((issue, index) => (
+            <li key={`${issue.path}-${index}`}>
+              <span className={issue.kind === 'schema' ? 'text-amber-300' : 'text-sky-300'}>
+                {issue.path}
+              </span>
+              <span className="text-white/60"> — {issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,20 @@
+import { useLocation } from 'react-router-dom'
 import { MessageCircle } from 'lucide-react'
 import { useSiteData } from '../../context/SiteDataContext'
+import { useAnalytics } from '../../hooks/useAnalytics'
 
 export const WhatsAppButton = () => {
   const { siteData } = useSiteData()
+  const { track } = useAnalytics()
+  const { pathname } = useLocation()
 
   return (
     <a
       href={`https://wa.me/${siteData.contact.whatsapp}`}
       target="_blank"
       rel="noreferrer"
-      className="fixed bottom-6 right-6 z-40 flex h-12 w-12 items-center justify-center rounded-full bg-emerald-400 text-slate-900 shadow-lg shadow-emerald-400/40 transition hover:scale-105"
+      onClick={() => track('whatsapp_click', { path: pathname })}
+      className="fixed bottom-6 end-6 z-40 print:hidden flex h-12 w-12 items-center justify-center rounded-full bg-emerald-400 text-slate-900 shadow-lg shadow-emerald-400/40 transition hover:scale-105"
       aria-label="WhatsApp"
     >
       <MessageCircle className="h-6 w-6" />
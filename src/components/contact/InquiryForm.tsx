@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Mail, MessageCircle, Send } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { useAnalytics } from '../../hooks/useAnalytics'
+import { buildInquiry, createInquirySchema, formatInquiryText, submitInquiry } from '../../utils/inquiries'
+import { localize } from '../../utils/localize'
+import { applyVariant, getVariant, getVariantLabel } from '../../utils/variants'
+import type { InquiryFormValues } from '../../utils/inquiries'
+import type { InquiryItem, Locale } from '../../types/site'
+
+interface InquiryFormProps {
+  defaultProductId?: string
+  defaultVariantId?: string
+  // 传入多行产品时作为询价篮整体提交，隐藏单一产品与数量字段
+  items?: InquiryItem[]
+  disabled?: boolean
+  onSubmitted?: () => void
+}
+
+const inputClassName =
+  'w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white outline-none placeholder:text-white/40 focus:border-amber-300/60'
+
+export const InquiryForm = ({
+  defaultProductId,
+  defaultVariantId,
+  items,
+  disabled = false,
+  onSubmitted
+}: InquiryFormProps) => {
+  const { siteData } = useSiteData()
+  const { track } = useAnalytics()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [submitting, setSubmitting] = useState(false)
+  // 询价未能送达（未配置后端）时的邮件 / WhatsApp 正文
+  const [undeliveredText, setUndeliveredText] = useState<string | null>(null)
+
+  // 语言切换时重新生成 schema，使错误信息跟随当前语言
+  const schema = useMemo(() => createInquirySchema(t), [t])
+
+  const initialProduct = siteData.products.find((product) => product.id === defaultProductId)
+  const initialVariantId = initialProduct ? getVariant(initialProduct, defaultVariantId)?.id ?? '' : ''
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<InquiryFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      name: '',
+      email: '',
+      phone: '',
+      company: '',
+      productId: initialProduct?.id ?? '',
+      variantId: initialVariantId,
+      quantity: '',
+      message: ''
+    }
+  })
+
+  const selectedProduct = siteData.products.find((product) => product.id === watch('productId'))
+
+  const onSubmit = async (values: InquiryFormValues) => {
+    setSubmitting(true)
+    try {
+      const product = siteData.products.find((item) => item.id === values.productId)
+      const sku = product && applyVariant(product, getVariant(product, values.variantId)).sku
+      const inquiry = buildInquiry(values, locale, items, sku)
+      if ((await submitInquiry(inquiry)) === 'stored') {
+        setUndeliveredText(formatInquiryText(inquiry, siteData.products, t))
+        return
+      }
+      setUndeliveredText(null)
+      track('inquiry_submitted', {
+        productIds: inquiry.items?.map((item) => item.productId) ?? (inquiry.productId ? [inquiry.productId] : [])
+      })
+      toast.success(t('contact.submitSuccess'))
+      reset({ ...values, message: '', quantity: '' })
+      onSubmitted?.()
+    } catch (error) {
+      console.error(error)
+      toast.error(t('contact.submitError'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderError = (message?: string) =>
+    message ? <p className="mt-1 text-xs text-rose-300">{message}</p> : null
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} noValidate className="mt-4 grid gap-4 sm:grid-cols-2">
+      <label className="block text-xs text-white/60">
+        <span>{t('contact.fields.name')} *</span>
+        <input {...register('name')} autoComplete="name" className={`mt-1 ${inputClassName}`} />
+        {renderError(errors.name?.message)}
+      </label>
+      <label className="block text-xs text-white/60">
+        <span>{t('contact.fields.email')} *</span>
+        <input
+          {...register('email')}
+          type="email"
+          autoComplete="email"
+          className={`mt-1 ${inputClassName}`}
+        />
+        {renderError(errors.email?.message)}
+      </label>
+      <label className="block text-xs text-white/60">
+        <span>{t('contact.fields.phone')}</span>
+        <input {...register('phone')} type="tel" autoComplete="tel" className={`mt-1 ${inputClassName}`} />
+        {renderError(errors.phone?.message)}
+      </label>
+      <label className="block text-xs text-white/60">
+        <span>{t('contact.fields.company')}</span>
+        <input
+          {...register('company')}
+          autoComplete="organization"
+          className={`mt-1 ${inputClassName}`}
+        />
+        {renderError(errors.company?.message)}
+      </label>
+      {!items && (
+        <>
+          <label className="block text-xs text-white/60">
+            <span>{t('contact.fields.product')}</span>
+            {/* 更换产品时清除所选变体 */}
+            <select
+              {...register('productId', { onChange: () => setValue('variantId', '') })}
+              className={`mt-1 ${inputClassName}`}
+            >
+              <option value="">{t('contact.productNone')}</option>
+              {siteData.products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {localize(product.name, locale) || product.sku}
+                </option>
+              ))}
+            </select>
+            {renderError(errors.productId?.message)}
+          </label>
+          {selectedProduct?.variants?.length ? (
+            <label className="block text-xs text-white/60">
+              <span>{t('contact.fields.variant')}</span>
+              <select {...register('variantId')} className={`mt-1 ${inputClassName}`}>
+                <option value="">{t('contact.variantAny')}</option>
+                {selectedProduct.variants.map((variant) => (
+                  <option key={variant.id} value={variant.id}>
+                    {getVariantLabel(selectedProduct, variant, locale) || variant.sku} ({variant.sku})
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <label className="block text-xs text-white/60">
+            <span>{t('contact.fields.quantity')}</span>
+            <input
+              {...register('quantity')}
+              inputMode="numeric"
+              className={`mt-1 ${inputClassName}`}
+            />
+            {renderError(errors.quantity?.message)}
+          </label>
+        </>
+      )}
+      <label className="block text-xs text-white/60 sm:col-span-2">
+        <span>{t('contact.fields.message')} *</span>
+        <textarea {...register('message')} rows={5} className={`mt-1 ${inputClassName}`} />
+        {renderError(errors.message?.message)}
+      </label>
+      {undeliveredText && (
+        <div role="alert" className="rounded-2xl border border-amber-300/40 bg-amber-400/10 p-4 text-sm text-amber-100 sm:col-span-2">
+          <p>{t('contact.notDelivered')}</p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <a
+              href={`mailto:${siteData.contact.email}?subject=${encodeURIComponent(t('contact.mailSubject'))}&body=${encodeURIComponent(undeliveredText)}`}
+              className="btn-ghost gap-2 px-4 py-2"
+            >
+              <Mail className="h-4 w-4" />
+              {t('contact.sendByEmail')}
+            </a>
+            <a
+              href={`https://wa.me/${siteData.contact.whatsapp}?text=${encodeURIComponent(undeliveredText)}`}
+              target="_blank"
+              rel="noreferrer"
+              className="btn-ghost gap-2 px-4 py-2"
+            >
+              <MessageCircle className="h-4 w-4" />
+              {t('contact.sendByWhatsApp')}
+            </a>
+          </div>
+        </div>
+      )}
+      <div className="sm:col-span-2">
+        <button type="submit" disabled={submitting || disabled} className="btn-primary gap-2 disabled:opacity-60">
+          <Send className="h-4 w-4" />
+          {submitting ? t('contact.submitting') : t('actions.submit')}
+        </button>
+      </div>
+    </form>
+  )
+}
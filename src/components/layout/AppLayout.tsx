@@ -2,6 +2,7 @@ import { Outlet } from 'react-router-dom'
 import { Header } from './Header'
 import { Footer } from './Footer'
 import { WhatsAppButton } from '../common/WhatsAppButton'
+import { ConsentBanner } from '../common/ConsentBanner'
 
 export const AppLayout = () => {
   return (
@@ -12,6 +13,7 @@ export const AppLayout = () => {
       </main>
       <Footer />
       <WhatsAppButton />
+      <ConsentBanner />
     </div>
   )
 }
@@ -1,7 +1,10 @@
 import { NavLink } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { Mail, MapPin, Phone } from 'lucide-react'
+import { useAnalytics } from '../../hooks/useAnalytics'
 import { useSiteData } from '../../context/SiteDataContext'
+import { ResponsiveImage } from '../common/ResponsiveImage'
+import { localize } from '../../utils/localize'
 import type { Locale } from '../../types/site'
 
 const navLinks = [
@@ -14,23 +17,25 @@ const navLinks = [
 export const Footer = () => {
   const { t, i18n } = useTranslation()
   const { siteData } = useSiteData()
+  const { setConsent } = useAnalytics()
   const locale = i18n.language as Locale
 
   return (
-    <footer className="border-t border-white/10 bg-slate-950/80 py-10">
+    <footer className="border-t border-white/10 bg-slate-950/80 py-10 print:hidden">
       <div className="mx-auto grid max-w-6xl gap-8 px-4 md:grid-cols-[1.2fr_1fr_1fr] md:px-6">
         <div>
           <div className="flex items-center gap-3">
-            <img
+            <ResponsiveImage
               src={siteData.settings.logoUrl}
-              alt={siteData.settings.siteName[locale]}
+              sizes="40px"
+              alt={localize(siteData.settings.siteName, locale)}
               className="h-10 w-10 rounded-full object-cover ring-1 ring-white/20"
             />
             <div>
               <p className="text-sm font-semibold text-white">
-                {siteData.settings.siteName[locale]}
+                {localize(siteData.settings.siteName, locale)}
               </p>
-              <p className="text-xs text-white/60">{siteData.settings.tagline[locale]}</p>
+              <p className="text-xs text-white/60">{localize(siteData.settings.tagline, locale)}</p>
             </div>
           </div>
           <p className="mt-4 text-sm text-white/60">{t('footer.tagline')}</p>
@@ -53,7 +58,7 @@ export const Footer = () => {
           <div className="mt-4 flex flex-col gap-3 text-sm text-white/60">
             <div className="flex items-start gap-2">
               <MapPin className="mt-0.5 h-4 w-4 text-amber-300" />
-              <span>{siteData.contact.address[locale]}</span>
+              <span>{localize(siteData.contact.address, locale)}</span>
             </div>
             <div className="flex items-center gap-2">
               <Phone className="h-4 w-4 text-amber-300" />
@@ -69,11 +74,15 @@ export const Footer = () => {
 
       <div className="mx-auto mt-8 flex max-w-6xl flex-col items-center justify-between gap-3 border-t border-white/10 px-4 pt-6 text-xs text-white/50 md:flex-row md:px-6">
         <span>
-          © {new Date().getFullYear()} {siteData.settings.siteName[locale]} · {t('footer.rights')}
+          © {new Date().getFullYear()} {localize(siteData.settings.siteName, locale)} · {t('footer.rights')}
         </span>
         <div className="flex items-center gap-4">
           <span>{t('footer.privacy')}</span>
           <span>{t('footer.terms')}</span>
+          {/* 重置选择后重新显示同意横幅 */}
+          <button type="button" onClick={() => setConsent(null)} className="hover:text-white">
+            {t('footer.analyticsSettings')}
+          </button>
         </div>
       </div>
     </footer>
@@ -4,6 +4,12 @@ import { Menu, X } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { useSiteData } from '../../context/SiteDataContext'
 import { LanguageSwitcher } from '../common/LanguageSwitcher'
+import { CurrencySwitcher } from '../common/CurrencySwitcher'
+import { QuoteBasketLink } from '../common/QuoteBasketLink'
+import { CompareLink } from '../common/CompareLink'
+import { FavoritesLink } from '../common/FavoritesLink'
+import { ResponsiveImage } from '../common/ResponsiveImage'
+import { localize } from '../../utils/localize'
 import type { Locale } from '../../types/site'
 
 const navLinks = [
@@ -20,19 +26,20 @@ export const Header = () => {
   const locale = i18n.language as Locale
 
   return (
-    <header className="sticky top-0 z-30 w-full">
+    <header className="sticky top-0 z-30 w-full print:hidden">
       <div className="glass-panel mx-auto flex max-w-6xl items-center justify-between px-4 py-4 md:px-6">
         <NavLink to="/" className="flex items-center gap-3">
-          <img
+          <ResponsiveImage
             src={siteData.settings.logoUrl}
-            alt={siteData.settings.siteName[locale]}
+            sizes="40px"
+            alt={localize(siteData.settings.siteName, locale)}
             className="h-10 w-10 rounded-full object-cover ring-1 ring-white/20"
           />
           <div className="hidden md:block">
             <p className="text-sm font-semibold text-white">
-              {siteData.settings.siteName[locale]}
+              {localize(siteData.settings.siteName, locale)}
             </p>
-            <p className="text-xs text-white/60">{siteData.settings.tagline[locale]}</p>
+            <p className="text-xs text-white/60">{localize(siteData.settings.tagline, locale)}</p>
           </div>
         </NavLink>
 
@@ -48,6 +55,10 @@ export const Header = () => {
               {t(link.key)}
             </NavLink>
           ))}
+          <FavoritesLink />
+          <CompareLink />
+          <QuoteBasketLink />
+          <CurrencySwitcher />
           <LanguageSwitcher />
         </nav>
 
@@ -75,7 +86,11 @@ export const Header = () => {
               {t(link.key)}
             </NavLink>
           ))}
-          <div className="flex items-center justify-end pt-2">
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <FavoritesLink onClick={() => setOpen(false)} />
+            <CompareLink onClick={() => setOpen(false)} />
+            <QuoteBasketLink onClick={() => setOpen(false)} />
+            <CurrencySwitcher />
             <LanguageSwitcher />
           </div>
         </div>
@@ -0,0 +1,59 @@
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Check, ClipboardList } from 'lucide-react'
+import { useQuoteBasket } from '../../hooks/useQuoteBasket'
+
+interface AddToQuoteButtonProps {
+  productId: string
+  variantId?: string
+  // 缺货或停产时不能加入询价篮
+  disabled?: boolean
+  compact?: boolean
+}
+
+export const AddToQuoteButton = ({ productId, variantId, disabled = false, compact = false }: AddToQuoteButtonProps) => {
+  const { t } = useTranslation()
+  const { addItem, hasItem } = useQuoteBasket()
+  const added = hasItem(productId, variantId)
+
+  const handleClick = () => {
+    if (added || disabled) return
+    addItem(productId, undefined, variantId)
+    toast.success(t('quote.added'))
+  }
+
+  const label = disabled && !added ? t('quote.unavailable') : added ? t('quote.inBasket') : t('quote.add')
+
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-label={label}
+        aria-disabled={disabled || undefined}
+        title={label}
+        className={`rounded-full border p-2 transition ${
+          added
+            ? 'border-emerald-400/60 text-emerald-300'
+            : disabled
+              ? 'cursor-not-allowed border-white/10 text-white/30'
+              : 'border-white/20 text-white/70 hover:border-amber-300/60 hover:text-amber-300'
+        }`}
+      >
+        {added ? <Check className="h-4 w-4" /> : <ClipboardList className="h-4 w-4" />}
+      </button>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-disabled={disabled || undefined}
+      className={`btn-ghost w-full gap-2 ${disabled && !added ? 'cursor-not-allowed opacity-50' : ''}`}
+    >
+      {added ? <Check className="h-4 w-4 text-emerald-300" /> : <ClipboardList className="h-4 w-4" />}
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,27 @@
+import { useTranslation } from 'react-i18next'
+import { AVAILABILITY_LABEL_KEYS } from '../../utils/inventory'
+import type { Availability } from '../../utils/inventory'
+
+const badgeClassNames: Record<Availability, string> = {
+  in_stock: 'bg-emerald-400 text-slate-900',
+  low_stock: 'bg-amber-300 text-slate-900',
+  made_to_order: 'bg-sky-300 text-slate-900',
+  backorder: 'bg-violet-300 text-slate-900',
+  pre_order: 'bg-indigo-300 text-slate-900',
+  out_of_stock: 'bg-rose-400 text-slate-900',
+  discontinued: 'bg-slate-400 text-slate-900'
+}
+
+interface AvailabilityBadgeProps {
+  availability: Availability
+  className?: string
+}
+
+export const AvailabilityBadge = ({ availability, className = '' }: AvailabilityBadgeProps) => {
+  const { t } = useTranslation()
+  return (
+    <span className={`rounded-full px-3 py-1 text-xs font-semibold ${badgeClassNames[availability]} ${className}`}>
+      {t(AVAILABILITY_LABEL_KEYS[availability])}
+    </span>
+  )
+}
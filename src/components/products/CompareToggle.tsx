@@ -0,0 +1,36 @@
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { GitCompareArrows } from 'lucide-react'
+import { useCompare } from '../../hooks/useCompare'
+import { MAX_COMPARE_ITEMS } from '../../utils/compare'
+
+export const CompareToggle = ({ productId }: { productId: string }) => {
+  const { t } = useTranslation()
+  const { addItem, hasItem, removeItem } = useCompare()
+  const selected = hasItem(productId)
+
+  const handleClick = () => {
+    if (selected) {
+      removeItem(productId)
+    } else if (!addItem(productId)) {
+      toast.error(t('compare.limit', { max: MAX_COMPARE_ITEMS }))
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={selected}
+      aria-label={selected ? t('compare.remove') : t('compare.add')}
+      title={selected ? t('compare.remove') : t('compare.add')}
+      className={`rounded-full border p-2 transition ${
+        selected
+          ? 'border-amber-300/60 bg-amber-300/10 text-amber-300'
+          : 'border-white/20 text-white/70 hover:border-amber-300/60 hover:text-amber-300'
+      }`}
+    >
+      <GitCompareArrows className="h-4 w-4" />
+    </button>
+  )
+}
@@ -0,0 +1,127 @@
+import { useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X } from 'lucide-react'
+import { localize } from '../../utils/localize'
+import { countSelectedFacets } from '../../utils/facets'
+import type { Facet, FacetSelection } from '../../utils/facets'
+import type { Locale } from '../../types/site'
+
+interface FacetListProps {
+  facets: Facet[]
+  selection: FacetSelection
+  onToggle: (id: string, value: string) => void
+  onClear: () => void
+}
+
+interface FacetDrawerProps extends FacetListProps {
+  open: boolean
+  resultCount: number
+  onClose: () => void
+}
+
+const FacetList = ({ facets, selection, onToggle, onClear }: FacetListProps) => {
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const selectedCount = countSelectedFacets(selection)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-white">{t('products.facets.title')}</p>
+        {selectedCount > 0 && (
+          <button type="button" onClick={onClear} className="text-xs text-amber-300 hover:text-amber-200">
+            {t('products.facets.clear')}
+          </button>
+        )}
+      </div>
+      {facets.map((facet) => (
+        <fieldset key={facet.id} className="space-y-2">
+          <legend className="mb-2 text-xs uppercase tracking-wide text-white/50">
+            {facet.kind === 'spec' ? localize(facet.label, locale) : t(`products.facets.${facet.kind}`)}
+          </legend>
+          {facet.options.map((option) => {
+            const checked = selection[facet.id]?.includes(option.value) ?? false
+            // 已勾选的取值即使计数为 0 也保留可点，便于取消
+            const disabled = option.count === 0 && !checked
+            return (
+              <label
+                key={option.value}
+                className={`flex items-center gap-2 text-sm ${
+                  disabled ? 'cursor-not-allowed text-white/30' : 'cursor-pointer text-white/70 hover:text-white'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={disabled}
+                  onChange={() => onToggle(facet.id, option.value)}
+                  className="h-4 w-4 rounded border-white/20 bg-white/5 accent-amber-300"
+                />
+                <span className="flex-1">{localize(option.label, locale) || option.value}</span>
+                <span className="text-xs text-white/40">{option.count}</span>
+              </label>
+            )
+          })}
+        </fieldset>
+      ))}
+    </div>
+  )
+}
+
+export const FacetSidebar = (props: FacetListProps) => (
+  <aside className="hidden h-fit rounded-3xl border border-white/10 bg-slate-950/70 p-6 lg:sticky lg:top-28 lg:block">
+    <FacetList {...props} />
+  </aside>
+)
+
+// 移动端以抽屉形式展示同一组分面
+export const FacetDrawer = ({ open, resultCount, onClose, ...props }: FacetDrawerProps) => {
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    if (!open) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    document.body.style.overflow = 'hidden'
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      document.body.style.overflow = ''
+    }
+  }, [open, onClose])
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm lg:hidden" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('products.facets.title')}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute inset-y-0 start-0 flex w-80 max-w-[85vw] flex-col bg-slate-950"
+      >
+        <div className="flex-1 overflow-y-auto p-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="float-end rounded-full p-1 text-white/60 hover:bg-white/10 hover:text-white"
+            aria-label={t('actions.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+          <FacetList {...props} />
+        </div>
+        <div className="border-t border-white/10 p-4">
+          <button type="button" onClick={onClose} className="btn-primary w-full">
+            {t('products.facets.showResults', { count: resultCount })}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { useTranslation } from 'react-i18next'
+import { Heart } from 'lucide-react'
+import { useFavorites } from '../../hooks/useFavorites'
+
+export const FavoriteToggle = ({ productId }: { productId: string }) => {
+  const { t } = useTranslation()
+  const { hasItem, toggleItem } = useFavorites()
+  const selected = hasItem(productId)
+
+  const handleClick = () => {
+    toggleItem(productId)
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={selected}
+      aria-label={selected ? t('favorites.remove') : t('favorites.add')}
+      title={selected ? t('favorites.remove') : t('favorites.add')}
+      className={`rounded-full border p-2 transition ${
+        selected
+          ? 'border-rose-300/60 bg-rose-300/10 text-rose-300'
+          : 'border-white/20 text-white/70 hover:border-rose-300/60 hover:text-rose-300'
+      }`}
+    >
+      <Heart className={`h-4 w-4 ${selected ? 'fill-current' : ''}`} />
+    </button>
+  )
+}
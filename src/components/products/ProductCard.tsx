@@ -1,51 +1,106 @@
 import { Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { formatCurrency } from '../../utils/format'
-import type { Locale, Product } from '../../types/site'
+import { useCurrency } from '../../hooks/useCurrency'
+import { ResponsiveImage } from '../common/ResponsiveImage'
+import { getLowestUnitPrice, hasPriceRange } from '../../utils/pricing'
+import { localize } from '../../utils/localize'
+import { formatDate } from '../../utils/format'
+import { acceptsInquiries, getRestockDate } from '../../utils/inventory'
+import { getMatchSnippet, splitHighlights } from '../../utils/search'
+import { buildVariantPath, getProductAvailability, hasVariants } from '../../utils/variants'
+import { Highlight } from '../common/Highlight'
+import { AddToQuoteButton } from './AddToQuoteButton'
+import { AvailabilityBadge } from './AvailabilityBadge'
+import { CompareToggle } from './CompareToggle'
+import { FavoriteToggle } from './FavoriteToggle'
+import type { Locale, Product, ProductVariant } from '../../types/site'
 
 interface ProductCardProps {
   product: Product
+  // 搜索命中的片段，传入时高亮名称与描述
+  highlights?: string[]
 }
 
-export const ProductCard = ({ product }: ProductCardProps) => {
+const getHighlightedLength = (text: string, terms: string[]) =>
+  splitHighlights(text, terms).reduce((length, segment) => length + (segment.match ? segment.text.length : 0), 0)
+
+export const ProductCard = ({ product, highlights = [] }: ProductCardProps) => {
   const { t, i18n } = useTranslation()
+  const { formatPrice } = useCurrency()
   const locale = i18n.language as Locale
-  const inStock = product.stockStatus === 'in_stock'
+  const availability = getProductAvailability(product)
+  const restockDate = hasVariants(product) ? undefined : getRestockDate(product)
+  const price = formatPrice(getLowestUnitPrice(product), product.price.currency, locale)
+  const shortDescription = localize(product.shortDescription, locale)
+  const snippet =
+    highlights.length > 0 && !splitHighlights(shortDescription, highlights).some((segment) => segment.match)
+      ? getMatchSnippet(product, locale, highlights)
+      : null
+  // 搜索命中某个变体的 SKU 比命中产品 SKU 更完整时，显示该变体的 SKU 并直接打开对应变体
+  const matchedVariant = (product.variants ?? []).reduce<{ variant?: ProductVariant; length: number }>(
+    (best, variant) => {
+      const length = getHighlightedLength(variant.sku, highlights)
+      return length > best.length ? { variant, length } : best
+    },
+    { length: highlights.length > 0 ? getHighlightedLength(product.sku, highlights) : Infinity }
+  ).variant
 
+  // 标题链接通过 after 伪元素覆盖整张卡片，操作按钮位于链接之外并叠放在其上方
   return (
-    <Link
-      to={`/products/${product.id}`}
-      className="group flex h-full flex-col overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60 shadow-lg transition hover:border-amber-400/40"
-    >
+    <article className="group relative flex h-full flex-col overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60 shadow-lg transition hover:border-amber-400/40">
       <div className="relative h-48 overflow-hidden">
-        <img
+        <ResponsiveImage
           src={product.mainImage}
-          alt={product.name[locale]}
+          alt={localize(product.name, locale)}
+          sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
           className="h-full w-full object-cover transition duration-500 group-hover:scale-105"
           loading="lazy"
         />
-        <span
-          className={`absolute left-4 top-4 rounded-full px-3 py-1 text-xs font-semibold ${
-            inStock ? 'bg-emerald-400 text-slate-900' : 'bg-rose-400 text-slate-900'
-          }`}
-        >
-          {t(inStock ? 'products.badge.inStock' : 'products.badge.outOfStock')}
-        </span>
+        <AvailabilityBadge availability={availability} className="absolute start-4 top-4" />
       </div>
       <div className="flex flex-1 flex-col gap-3 p-5">
         <div>
-          <h3 className="text-base font-semibold text-white">{product.name[locale]}</h3>
+          <h3 className="text-base font-semibold text-white">
+            <Link
+              to={buildVariantPath(product.id, matchedVariant?.id)}
+              className="after:absolute after:inset-0 focus-visible:outline-none after:focus-visible:rounded-2xl after:focus-visible:ring-2 after:focus-visible:ring-amber-300"
+            >
+              <Highlight text={localize(product.name, locale)} terms={highlights} />
+            </Link>
+          </h3>
           <p className="mt-2 text-sm text-white/60">
-            {product.shortDescription[locale]}
+            <Highlight text={shortDescription} terms={highlights} />
           </p>
+          {snippet && (
+            <p className="mt-2 text-xs text-white/50">
+              <Highlight text={snippet} terms={highlights} />
+            </p>
+          )}
+          {highlights.length > 0 && (
+            <p className="mt-2 font-mono text-xs text-white/40">
+              <Highlight text={matchedVariant?.sku ?? product.sku} terms={highlights} />
+            </p>
+          )}
+          {restockDate && (
+            <p className="mt-2 text-xs text-violet-200">
+              {t('products.restockDate', { date: formatDate(restockDate, locale) })}
+            </p>
+          )}
         </div>
-        <div className="mt-auto flex items-center justify-between text-sm">
-          <span className="text-amber-300">
-            {formatCurrency(product.price.amount, product.price.currency, locale)}
-          </span>
-          <span className="text-white/50">{product.price.unit[locale]}</span>
+        <div className="mt-auto flex items-center justify-between gap-3 text-sm">
+          <div>
+            <span className="text-amber-300">
+              {hasPriceRange(product) ? t('products.fromPrice', { price }) : price}
+            </span>
+            <span className="ms-2 text-white/50">{localize(product.price.unit, locale)}</span>
+          </div>
+          <div className="relative z-10 flex items-center gap-2">
+            <FavoriteToggle productId={product.id} />
+            <CompareToggle productId={product.id} />
+            <AddToQuoteButton productId={product.id} disabled={!acceptsInquiries(availability)} compact />
+          </div>
         </div>
       </div>
-    </Link>
+    </article>
   )
 }
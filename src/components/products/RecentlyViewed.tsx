@@ -0,0 +1,69 @@
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { useSiteData } from '../../context/SiteDataContext'
+import { useRecentlyViewed } from '../../hooks/useRecentlyViewed'
+import { useCurrency } from '../../hooks/useCurrency'
+import { ResponsiveImage } from '../common/ResponsiveImage'
+import { getLowestUnitPrice } from '../../utils/pricing'
+import { localize } from '../../utils/localize'
+import { getVisibleProducts } from '../../utils/translations'
+import type { Locale, Product } from '../../types/site'
+
+interface RecentlyViewedProps {
+  // 详情页中排除正在浏览的产品
+  excludeId?: string
+  className?: string
+}
+
+// 最近浏览的产品横向排列；没有记录时不渲染
+export const RecentlyViewed = ({ excludeId, className = '' }: RecentlyViewedProps) => {
+  const { siteData } = useSiteData()
+  const { ids, clear } = useRecentlyViewed()
+  const { t, i18n } = useTranslation()
+  const { formatPrice } = useCurrency()
+  const locale = i18n.language as Locale
+
+  const visibleProducts = getVisibleProducts(siteData, locale)
+  const products = ids
+    .filter((id) => id !== excludeId)
+    .map((id) => visibleProducts.find((product) => product.id === id))
+    .filter((product): product is Product => Boolean(product))
+
+  if (products.length === 0) return null
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-white">{t('recentlyViewed.title')}</h2>
+        <button type="button" onClick={clear} className="text-xs text-white/50 hover:text-white">
+          {t('recentlyViewed.clear')}
+        </button>
+      </div>
+      <div className="mt-4 flex snap-x gap-4 overflow-x-auto pb-2">
+        {products.map((product) => (
+          <Link
+            key={product.id}
+            to={`/products/${product.id}`}
+            className="group w-40 shrink-0 snap-start overflow-hidden rounded-2xl border border-white/10 bg-slate-950/60 transition hover:border-amber-400/40"
+          >
+            <div className="h-24 overflow-hidden">
+              <ResponsiveImage
+                src={product.mainImage}
+                alt={localize(product.name, locale)}
+                sizes="10rem"
+                className="h-full w-full object-cover transition duration-500 group-hover:scale-105"
+                loading="lazy"
+              />
+            </div>
+            <div className="p-3">
+              <p className="line-clamp-2 text-xs font-semibold text-white">{localize(product.name, locale)}</p>
+              <p className="mt-1 text-xs text-amber-300">
+                {formatPrice(getLowestUnitPrice(product), product.price.currency, locale)}
+              </p>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
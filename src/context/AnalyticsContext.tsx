@@ -0,0 +1,82 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AnalyticsContext } from '../hooks/useAnalytics'
+import {
+  clearStoredEvents,
+  createDefaultSinks,
+  createEvent,
+  getOncePerPageKey,
+  loadConsent,
+  saveConsent
+} from '../utils/analytics'
+import type {
+  AnalyticsConsent,
+  AnalyticsEvent,
+  AnalyticsEventMap,
+  AnalyticsEventType,
+  AnalyticsSink
+} from '../utils/analytics'
+
+interface AnalyticsProviderProps {
+  children: ReactNode
+  // 默认按环境变量创建，可传入自定义的事件去向
+  sinks?: AnalyticsSink[]
+}
+
+export const AnalyticsProvider = ({ children, sinks }: AnalyticsProviderProps) => {
+  const { i18n } = useTranslation()
+  const [defaultSinks] = useState(createDefaultSinks)
+  const [consent, setConsentState] = useState(loadConsent)
+  const activeSinks = sinks ?? defaultSinks
+
+  // track 的引用保持不变，调用方的副作用只随页面或产品变化重新执行；最新的同意状态、语言与去向从 ref 读取。
+  // 使用 layout effect，保证在子组件的副作用之前更新
+  const latestRef = useRef({ consent, language: i18n.language, sinks: activeSinks })
+  useLayoutEffect(() => {
+    latestRef.current = { consent, language: i18n.language, sinks: activeSinks }
+  }, [activeSinks, consent, i18n.language])
+  // 当前页面访问中已记录的去重键，记录新的 page_view 时重置
+  const pageKeysRef = useRef(new Set<string>())
+
+  const setConsent = useCallback((next: AnalyticsConsent | null) => {
+    saveConsent(next)
+    // 撤回同意时一并清除本机记录的事件
+    if (next !== 'granted') clearStoredEvents()
+    setConsentState(next)
+  }, [])
+
+  const track = useCallback(
+    <K extends AnalyticsEventType>(type: K, data: AnalyticsEventMap[K]) => {
+      const { consent: currentConsent, language, sinks: currentSinks } = latestRef.current
+      if (currentConsent !== 'granted') return
+      // 统计失败不能影响调用方（渲染副作用、点击处理），事件创建与发送都在保护范围内
+      let event: AnalyticsEvent
+      try {
+        event = createEvent(type, data, language)
+      } catch (error) {
+        console.error('Analytics event could not be created', error)
+        return
+      }
+      const key = getOncePerPageKey(event)
+      if (key) {
+        if (pageKeysRef.current.has(key)) return
+        if (event.type === 'page_view') pageKeysRef.current = new Set()
+        pageKeysRef.current.add(key)
+      }
+      currentSinks.forEach((sink) => {
+        try {
+          sink.send(event)
+        } catch (error) {
+          console.error(`Analytics sink "${sink.name}" failed`, error)
+        }
+      })
+    },
+    []
+  )
+
+  const value = useMemo(() => ({ consent, setConsent, track }), [consent, setConsent, track])
+
+  return <AnalyticsContext.Provider value={value}>{children}</AnalyticsContext.Provider>
+}
+
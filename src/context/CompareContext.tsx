@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { CompareContext } from '../hooks/useCompare'
+import { usePersistedIdList } from '../hooks/usePersistedList'
+import { MAX_COMPARE_ITEMS } from '../utils/compare'
+
+const COMPARE_STORAGE_KEY = 'xj-compare'
+
+export const CompareProvider = ({ children }: { children: ReactNode }) => {
+  const [ids, setStoredIds] = usePersistedIdList(COMPARE_STORAGE_KEY, MAX_COMPARE_ITEMS)
+
+  const addItem = useCallback(
+    (productId: string) => {
+      if (ids.includes(productId)) return true
+      if (ids.length >= MAX_COMPARE_ITEMS) return false
+      setStoredIds([...ids, productId])
+      return true
+    },
+    [ids, setStoredIds]
+  )
+
+  const removeItem = useCallback(
+    (productId: string) => setStoredIds((previous) => previous.filter((id) => id !== productId)),
+    [setStoredIds]
+  )
+
+  const clear = useCallback(() => setStoredIds([]), [setStoredIds])
+
+  const value = useMemo(
+    () => ({
+      ids,
+      isFull: ids.length >= MAX_COMPARE_ITEMS,
+      hasItem: (productId: string) => ids.includes(productId),
+      addItem,
+      removeItem,
+      clear
+    }),
+    [addItem, clear, ids, removeItem]
+  )
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import { useSiteData } from './SiteDataContext'
+import { CurrencyContext } from '../hooks/useCurrency'
+import { formatCurrency } from '../utils/format'
+import { CURRENCY_STORAGE_KEY, convertAmount, getDisplayCurrencies } from '../utils/currency'
+import type { ConvertedAmount } from '../hooks/useCurrency'
+import type { Locale } from '../types/site'
+
+// 预渲染时没有 localStorage，按基准货币输出
+const loadSelectedCurrency = () => {
+  try {
+    return localStorage.getItem(CURRENCY_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+export const CurrencyProvider = ({ children }: { children: ReactNode }) => {
+  const { siteData } = useSiteData()
+  const exchangeRates = siteData.exchangeRates
+  const currencies = useMemo(() => getDisplayCurrencies(exchangeRates), [exchangeRates])
+  const [selected, setSelected] = useState(loadSelectedCurrency)
+
+  // 汇率表中已移除的币种回退到基准货币；没有汇率表时按产品原币种展示
+  const currency = selected && currencies.includes(selected) ? selected : (exchangeRates?.base ?? null)
+
+  useEffect(() => {
+    if (!selected) return
+    try {
+      localStorage.setItem(CURRENCY_STORAGE_KEY, selected)
+    } catch {
+      // 隐私模式或存储已满时只在本次访问中生效
+    }
+  }, [selected])
+
+  const convert = useCallback(
+    (amount: number, from: string): ConvertedAmount => {
+      if (!currency) return { amount, currency: from, approximate: false }
+      const converted = convertAmount(amount, from, currency, exchangeRates)
+      if (converted === null) return { amount, currency: from, approximate: false }
+      return { amount: converted, currency, approximate: from !== currency }
+    },
+    [currency, exchangeRates]
+  )
+
+  const formatPrice = useCallback(
+    (amount: number, from: string, locale: Locale) => {
+      const converted = convert(amount, from)
+      const formatted = formatCurrency(converted.amount, converted.currency, locale)
+      return converted.approximate ? `≈ ${formatted}` : formatted
+    },
+    [convert]
+  )
+
+  const value = useMemo(
+    () => ({
+      currency,
+      currencies,
+      asOf: exchangeRates?.asOf,
+      setCurrency: setSelected,
+      convert,
+      formatPrice
+    }),
+    [convert, currencies, currency, exchangeRates?.asOf, formatPrice]
+  )
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+}
+
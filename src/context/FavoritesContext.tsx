@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { FavoritesContext } from '../hooks/useFavorites'
+import { usePersistedIdList } from '../hooks/usePersistedList'
+
+const FAVORITES_STORAGE_KEY = 'xj-favorites'
+
+export const FavoritesProvider = ({ children }: { children: ReactNode }) => {
+  const [ids, setStoredIds] = usePersistedIdList(FAVORITES_STORAGE_KEY)
+
+  const toggleItem = useCallback(
+    (productId: string) =>
+      setStoredIds(ids.includes(productId) ? ids.filter((id) => id !== productId) : [...ids, productId]),
+    [ids, setStoredIds]
+  )
+
+  const addItems = useCallback(
+    (productIds: string[]) => setStoredIds([...new Set([...ids, ...productIds])]),
+    [ids, setStoredIds]
+  )
+
+  const removeItem = useCallback(
+    (productId: string) => setStoredIds((previous) => previous.filter((id) => id !== productId)),
+    [setStoredIds]
+  )
+
+  const clear = useCallback(() => setStoredIds([]), [setStoredIds])
+
+  const value = useMemo(
+    () => ({
+      ids,
+      hasItem: (productId: string) => ids.includes(productId),
+      toggleItem,
+      addItems,
+      removeItem,
+      clear
+    }),
+    [addItems, clear, ids, removeItem, toggleItem]
+  )
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>
+}
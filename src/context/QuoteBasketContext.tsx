@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { useSiteData } from './SiteDataContext'
+import { usePersistedList } from '../hooks/usePersistedList'
+import { QuoteBasketContext } from '../hooks/useQuoteBasket'
+import { getMinimumQuantity, getQuoteLineKey, isQuoteLineValid } from '../utils/quote'
+import { applyVariant, getDefaultVariant, getVariant } from '../utils/variants'
+import type { QuoteLine } from '../utils/quote'
+import type { Product } from '../types/site'
+
+const QUOTE_BASKET_STORAGE_KEY = 'xj-quote-basket'
+
+// 忽略已从目录中删除的产品与变体
+const isLineValid = (line: QuoteLine, productById: Map<string, Product>) =>
+  isQuoteLineValid(line, productById.get(line.productId))
+
+// 询价篮位于路由之外，切换语言或页面时不会丢失，并持久化到 localStorage
+export const QuoteBasketProvider = ({ children }: { children: ReactNode }) => {
+  const { siteData } = useSiteData()
+  const [lines, setStoredLines] = usePersistedList(QUOTE_BASKET_STORAGE_KEY, isLineValid)
+
+  const addItem = useCallback(
+    (productId: string, quantity?: number, variantId?: string) => {
+      const product = siteData.products.find((item) => item.id === productId)
+      if (!product) return
+      // 目录卡片上加入有变体的产品时使用默认变体
+      const variant = getVariant(product, variantId) ?? getDefaultVariant(product)
+      const line = { productId, ...(variant ? { variantId: variant.id } : {}) }
+      const initialQuantity = Math.max(quantity ?? 0, getMinimumQuantity(applyVariant(product, variant)))
+      setStoredLines((previous) =>
+        previous.some((item) => getQuoteLineKey(item) === getQuoteLineKey(line))
+          ? previous
+          : [...previous, { ...line, quantity: initialQuantity }]
+      )
+    },
+    [setStoredLines, siteData.products]
+  )
+
+  const updateQuantity = useCallback((lineKey: string, quantity: number) => {
+    setStoredLines((previous) =>
+      previous.map((line) =>
+        getQuoteLineKey(line) === lineKey ? { ...line, quantity: Math.max(0, Math.floor(quantity) || 0) } : line
+      )
+    )
+  }, [setStoredLines])
+
+  const removeItem = useCallback((lineKey: string) => {
+    setStoredLines((previous) => previous.filter((line) => getQuoteLineKey(line) !== lineKey))
+  }, [setStoredLines])
+
+  const clear = useCallback(() => setStoredLines([]), [setStoredLines])
+
+  const value = useMemo(
+    () => ({
+      lines,
+      itemCount: lines.length,
+      hasItem: (productId: string, variantId?: string) =>
+        lines.some((line) => line.productId === productId && (!variantId || line.variantId === variantId)),
+      addItem,
+      updateQuantity,
+      removeItem,
+      clear
+    }),
+    [addItem, clear, lines, removeItem, updateQuantity]
+  )
+
+  return <QuoteBasketContext.Provider value={value}>{children}</QuoteBasketContext.Provider>
+}
+
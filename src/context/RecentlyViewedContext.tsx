@@ -0,0 +1,23 @@
+import { useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { usePersistedIdList } from '../hooks/usePersistedList'
+import { RecentlyViewedContext } from '../hooks/useRecentlyViewed'
+import { MAX_RECENTLY_VIEWED, pushRecentlyViewed } from '../utils/favorites'
+
+const RECENTLY_VIEWED_STORAGE_KEY = 'xj-recently-viewed'
+
+export const RecentlyViewedProvider = ({ children }: { children: ReactNode }) => {
+  const [ids, setStoredIds] = usePersistedIdList(RECENTLY_VIEWED_STORAGE_KEY, MAX_RECENTLY_VIEWED)
+
+  const addView = useCallback(
+    (productId: string) =>
+      setStoredIds((previous) => (previous[0] === productId ? previous : pushRecentlyViewed(previous, productId))),
+    [setStoredIds]
+  )
+
+  const clear = useCallback(() => setStoredIds([]), [setStoredIds])
+
+  const value = useMemo(() => ({ ids, addView, clear }), [addView, clear, ids])
+
+  return <RecentlyViewedContext.Provider value={value}>{children}</RecentlyViewedContext.Provider>
+}
@@ -0,0 +1,5 @@
+import { createContext } from 'react'
+import type { SeoTags } from '../utils/seo'
+
+// 预渲染时由脚本提供，Seo 组件在渲染阶段上报页面的 head 标签；浏览器中为 null
+export const SeoCollectorContext = createContext<((tags: SeoTags) => void) | null>(null)
@@ -1,29 +1,87 @@
-import { createContext, useContext, useMemo, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
 import type { ReactNode } from 'react'
+import i18next from 'i18next'
+import toast from 'react-hot-toast'
 import rawSiteData from '../data/site-data.json'
+import { migrateSiteData } from '../schema/migrations'
 import type { SiteData } from '../types/site'
 
-// 直接从 JSON 文件导入数据
-const getDefaultData = (): SiteData => rawSiteData as SiteData
+const SITE_DATA_DRAFT_KEY = 'xj-site-data-draft'
+
+// 直接从 JSON 文件导入数据，旧版本文档在加载时升级到当前结构
+const getDefaultData = (): SiteData => migrateSiteData(rawSiteData).data
+
+interface StoredDraft {
+  data: SiteData | null
+  // 工作副本已损坏或无法迁移到当前结构，需丢弃
+  invalid: boolean
+}
+
+// 管理后台保存在浏览器中的工作副本优先于打包数据，读取时同样经过迁移与结构校验
+const readStoredDraft = (): StoredDraft => {
+  let raw: string | null
+  try {
+    raw = localStorage.getItem(SITE_DATA_DRAFT_KEY)
+  } catch {
+    return { data: null, invalid: false }
+  }
+  if (!raw) return { data: null, invalid: false }
+  try {
+    return { data: migrateSiteData(JSON.parse(raw)).data, invalid: false }
+  } catch (error) {
+    console.error(error)
+    return { data: null, invalid: true }
+  }
+}
 
 interface SiteDataContextValue {
   siteData: SiteData
   isLoading: boolean
+  hasLocalChanges: boolean
+  updateSiteData: (updater: (previous: SiteData) => SiteData) => void
+  resetSiteData: () => void
 }
 
 const SiteDataContext = createContext<SiteDataContextValue | null>(null)
 
 export const SiteDataProvider = ({ children }: { children: ReactNode }) => {
-  // 直接使用导入的数据，无需异步加载
-  const [siteData] = useState<SiteData>(getDefaultData())
+  const [storedDraft] = useState(readStoredDraft)
+  const [siteData, setSiteData] = useState<SiteData>(() => storedDraft.data ?? getDefaultData())
+  const [hasLocalChanges, setHasLocalChanges] = useState(storedDraft.data !== null)
   const [isLoading] = useState(false)
 
+  useEffect(() => {
+    if (!storedDraft.invalid) return
+    localStorage.removeItem(SITE_DATA_DRAFT_KEY)
+    toast.error(i18next.t('admin.draftDiscarded'), { id: 'site-data-draft-discarded' })
+  }, [storedDraft])
+
+  useEffect(() => {
+    if (hasLocalChanges) {
+      localStorage.setItem(SITE_DATA_DRAFT_KEY, JSON.stringify(siteData))
+    }
+  }, [hasLocalChanges, siteData])
+
+  const updateSiteData = useCallback((updater: (previous: SiteData) => SiteData) => {
+    setSiteData((previous) => updater(previous))
+    setHasLocalChanges(true)
+  }, [])
+
+  const resetSiteData = useCallback(() => {
+    localStorage.removeItem(SITE_DATA_DRAFT_KEY)
+    setSiteData(getDefaultData())
+    setHasLocalChanges(false)
+  }, [])
+
   const value = useMemo(
     () => ({
       siteData,
-      isLoading
+      isLoading,
+      hasLocalChanges,
+      updateSiteData,
+      resetSiteData
     }),
-    [siteData]
+    [hasLocalChanges, isLoading, resetSiteData, siteData, updateSiteData]
   )
 
   return <SiteDataContext.Provider value={value}>{children}</SiteDataContext.Provider>
@@ -0,0 +1,44 @@
+import { renderToString } from 'react-dom/server'
+import { StaticRouter } from 'react-router-dom'
+import { changeLanguage, i18nReady } from './i18n'
+import { getLocaleDefinition } from './i18n/locales'
+import { getLocaleBasename, getLocalizedPath } from './i18n/utils'
+import { AppRoutes } from './App'
+import { AppProviders } from './AppProviders'
+import { SeoCollectorContext } from './context/SeoCollectorContext'
+import { renderSeoTags } from './utils/seo'
+import type { SeoTags } from './utils/seo'
+import type { Locale } from './types/site'
+
+export interface RenderResult {
+  html: string
+  head: string
+  lang: string
+  dir: 'ltr' | 'rtl'
+}
+
+// 构建脚本按路由与语言逐页调用，输出 #root 内的 HTML 与 <head> 标签
+export const render = async (pathname: string, locale: Locale): Promise<RenderResult> => {
+  await i18nReady
+  await changeLanguage(locale)
+
+  const collected: { tags?: SeoTags } = {}
+  const basename = getLocaleBasename(locale)
+  const html = renderToString(
+    <SeoCollectorContext.Provider value={(tags) => (collected.tags = tags)}>
+      <AppProviders>
+        <StaticRouter basename={basename} location={getLocalizedPath(pathname, locale)}>
+          <AppRoutes />
+        </StaticRouter>
+      </AppProviders>
+    </SeoCollectorContext.Provider>
+  )
+
+  const definition = getLocaleDefinition(locale)
+  return {
+    html,
+    head: collected.tags ? renderSeoTags(collected.tags) : '',
+    lang: definition.tag,
+    dir: definition.dir
+  }
+}
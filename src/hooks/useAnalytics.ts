@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react'
+import type { AnalyticsConsent, AnalyticsEventMap, AnalyticsEventType } from '../utils/analytics'
+
+interface AnalyticsContextValue {
+  // null 表示访客尚未选择，此时显示同意横幅
+  consent: AnalyticsConsent | null
+  setConsent: (consent: AnalyticsConsent | null) => void
+  // 未同意时直接丢弃，不缓存、不补发
+  track: <K extends AnalyticsEventType>(type: K, data: AnalyticsEventMap[K]) => void
+}
+
+export const AnalyticsContext = createContext<AnalyticsContextValue | null>(null)
+
+export const useAnalytics = () => {
+  const context = useContext(AnalyticsContext)
+  if (!context) {
+    throw new Error('useAnalytics must be used within AnalyticsProvider')
+  }
+  return context
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+
+interface CompareContextValue {
+  ids: string[]
+  isFull: boolean
+  hasItem: (productId: string) => boolean
+  // 已满时返回 false，由调用方提示
+  addItem: (productId: string) => boolean
+  removeItem: (productId: string) => void
+  clear: () => void
+}
+
+export const CompareContext = createContext<CompareContextValue | null>(null)
+
+export const useCompare = () => {
+  const context = useContext(CompareContext)
+  if (!context) {
+    throw new Error('useCompare must be used within CompareProvider')
+  }
+  return context
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react'
+import type { Locale } from '../types/site'
+
+export interface ConvertedAmount {
+  amount: number
+  currency: string
+  // 经过汇率换算，仅为参考价
+  approximate: boolean
+}
+
+interface CurrencyContextValue {
+  currency: string | null
+  currencies: string[]
+  asOf?: string
+  setCurrency: (currency: string) => void
+  convert: (amount: number, from: string) => ConvertedAmount
+  formatPrice: (amount: number, from: string, locale: Locale) => string
+}
+
+export const CurrencyContext = createContext<CurrencyContextValue | null>(null)
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext)
+  if (!context) {
+    throw new Error('useCurrency must be used within CurrencyProvider')
+  }
+  return context
+}
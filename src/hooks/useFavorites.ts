@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+
+interface FavoritesContextValue {
+  ids: string[]
+  hasItem: (productId: string) => boolean
+  toggleItem: (productId: string) => void
+  // 合并分享链接中的收藏，已收藏的产品保持原位置
+  addItems: (productIds: string[]) => void
+  removeItem: (productId: string) => void
+  clear: () => void
+}
+
+export const FavoritesContext = createContext<FavoritesContextValue | null>(null)
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext)
+  if (!context) {
+    throw new Error('useFavorites must be used within FavoritesProvider')
+  }
+  return context
+}
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useSiteData } from '../context/SiteDataContext'
+import type { Product } from '../types/site'
+
+type ItemValidator<T> = (item: T, productById: Map<string, Product>) => boolean
+
+const loadItems = <T>(storageKey: string): T[] => {
+  try {
+    const raw = localStorage.getItem(storageKey)
+    return raw ? (JSON.parse(raw) as T[]) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 持久化到 localStorage 的列表（询价篮、对比、收藏、最近浏览）。
+ * 读取时忽略 isValid 判定为失效的条目（如已从目录中删除的产品），最多保留 limit 条，并将清理后的结果写回存储。
+ * isValid 需保持引用稳定，建议定义在模块顶层。
+ */
+export const usePersistedList = <T>(storageKey: string, isValid: ItemValidator<T>, limit = Infinity) => {
+  const { siteData } = useSiteData()
+  const [storedItems, setStoredItems] = useState(() => loadItems<T>(storageKey))
+
+  const items = useMemo(() => {
+    const productById = new Map(siteData.products.map((product) => [product.id, product]))
+    return storedItems.filter((item) => isValid(item, productById)).slice(0, limit)
+  }, [isValid, limit, siteData.products, storedItems])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(items))
+    } catch {
+      // 隐私模式或存储已满时列表只保存在内存中
+    }
+  }, [items, storageKey])
+
+  return [items, setStoredItems] as const
+}
+
+const isKnownProductId: ItemValidator<string> = (id, productById) => productById.has(id)
+
+export const usePersistedIdList = (storageKey: string, limit?: number) =>
+  usePersistedList(storageKey, isKnownProductId, limit)
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react'
+import type { QuoteLine } from '../utils/quote'
+
+interface QuoteBasketContextValue {
+  lines: QuoteLine[]
+  itemCount: number
+  // 未指定变体时只要该产品有任一行即视为已加入
+  hasItem: (productId: string, variantId?: string) => boolean
+  addItem: (productId: string, quantity?: number, variantId?: string) => void
+  // 以下按 getQuoteLineKey 生成的行标识操作
+  updateQuantity: (lineKey: string, quantity: number) => void
+  removeItem: (lineKey: string) => void
+  clear: () => void
+}
+
+export const QuoteBasketContext = createContext<QuoteBasketContextValue | null>(null)
+
+export const useQuoteBasket = () => {
+  const context = useContext(QuoteBasketContext)
+  if (!context) {
+    throw new Error('useQuoteBasket must be used within QuoteBasketProvider')
+  }
+  return context
+}
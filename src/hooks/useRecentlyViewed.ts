@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react'
+
+interface RecentlyViewedContextValue {
+  // 按浏览时间倒序
+  ids: string[]
+  addView: (productId: string) => void
+  clear: () => void
+}
+
+export const RecentlyViewedContext = createContext<RecentlyViewedContextValue | null>(null)
+
+export const useRecentlyViewed = () => {
+  const context = useContext(RecentlyViewedContext)
+  if (!context) {
+    throw new Error('useRecentlyViewed must be used within RecentlyViewedProvider')
+  }
+  return context
+}
@@ -1,19 +1,56 @@
 import i18n from 'i18next'
 import { initReactI18next } from 'react-i18next'
-import en from './locales/en.json'
-import zh from './locales/zh.json'
-import { getInitialLanguage } from './utils'
+import rawSiteData from '../data/site-data.json'
+import { DEFAULT_LOCALE, getLocaleDefinition } from './locales'
+import { getCurrentUrlForLocale, getInitialLanguage, storeLanguage } from './utils'
+import { migrateSiteData } from '../schema/migrations'
+import type { Locale } from '../types/site'
 
+// 所有语言包（含回退用的英文）都通过注册表按需加载
 void i18n.use(initReactI18next).init({
-  resources: {
-    en: { translation: en },
-    zh: { translation: zh }
-  },
-  lng: getInitialLanguage(),
-  fallbackLng: 'en',
+  resources: {},
+  lng: DEFAULT_LOCALE,
+  fallbackLng: DEFAULT_LOCALE,
+  partialBundledLanguages: true,
   interpolation: {
     escapeValue: false
   }
 })
 
+i18n.on('languageChanged', (language) => {
+  // 预渲染时由脚本写入 <html lang dir>
+  if (typeof document === 'undefined') return
+  const definition = getLocaleDefinition(language)
+  document.documentElement.lang = definition.tag
+  document.documentElement.dir = definition.dir
+})
+
+// 规格书等需要同时使用多种语言文案的页面也通过它预先加载语言包
+export const ensureBundle = async (locale: Locale) => {
+  if (i18n.hasResourceBundle(locale, 'translation')) return
+  i18n.addResourceBundle(locale, 'translation', await getLocaleDefinition(locale).load())
+}
+
+export const changeLanguage = async (locale: Locale) => {
+  await ensureBundle(locale)
+  await i18n.changeLanguage(locale)
+}
+
+// 用户切换语言：先加载语言包，再把地址换到目标语言的路径下，最后更新界面，避免路由短暂匹配不到页面
+export const switchLanguage = async (locale: Locale) => {
+  await ensureBundle(locale)
+  storeLanguage(locale)
+  window.history.pushState(null, '', getCurrentUrlForLocale(locale))
+  await i18n.changeLanguage(locale)
+}
+
+// 首屏语言包与英文回退包并行加载，完成（或失败）后再渲染，避免先闪现翻译键
+// 与预渲染、站点地图一致，以打包的站点数据中启用的语言为准
+const initialLanguage = getInitialLanguage(migrateSiteData(rawSiteData).data.locales)
+export const i18nReady = Promise.all([ensureBundle(DEFAULT_LOCALE), ensureBundle(initialLanguage)])
+  .then(() => i18n.changeLanguage(initialLanguage))
+  .catch((error: unknown) => {
+    console.error(error)
+  })
+
 export default i18n
@@ -0,0 +1,36 @@
+import type { Locale } from '../types/site'
+
+export const LOCALE_CODES = ['en', 'zh', 'es', 'ru', 'ar'] as const
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export type TranslationBundle = Record<string, unknown>
+
+export interface LocaleDefinition {
+  code: Locale
+  // BCP-47 语言标签，用于 <html lang>、hreflang 与 Intl 格式化
+  tag: string
+  ogLocale: string
+  dir: 'ltr' | 'rtl'
+  load: () => Promise<TranslationBundle>
+}
+
+// 翻译包按需加载，仅在首次切换到该语言时请求
+const loadBundle = (code: Locale) =>
+  import(`./locales/${code}.json`).then((module: { default: TranslationBundle }) => module.default)
+
+export const localeRegistry: Record<Locale, LocaleDefinition> = {
+  en: { code: 'en', tag: 'en-US', ogLocale: 'en_US', dir: 'ltr', load: () => loadBundle('en') },
+  zh: { code: 'zh', tag: 'zh-CN', ogLocale: 'zh_CN', dir: 'ltr', load: () => loadBundle('zh') },
+  es: { code: 'es', tag: 'es-419', ogLocale: 'es_LA', dir: 'ltr', load: () => loadBundle('es') },
+  ru: { code: 'ru', tag: 'ru-RU', ogLocale: 'ru_RU', dir: 'ltr', load: () => loadBundle('ru') },
+  ar: { code: 'ar', tag: 'ar', ogLocale: 'ar_AR', dir: 'rtl', load: () => loadBundle('ar') }
+}
+
+export const SUPPORTED_LANGUAGES = LOCALE_CODES.map((code) => localeRegistry[code].code)
+
+export const isSupportedLocale = (value: string): value is Locale =>
+  (LOCALE_CODES as readonly string[]).includes(value)
+
+export const getLocaleDefinition = (locale: string) =>
+  isSupportedLocale(locale) ? localeRegistry[locale] : localeRegistry[DEFAULT_LOCALE]
@@ -1,72 +1,102 @@
+import { DEFAULT_LOCALE, isSupportedLocale } from './locales'
+import { toLocalizedPath } from '../utils/publicRoutes'
 import type { Locale } from '../types/site'
 
-export const SUPPORTED_LANGUAGES: Locale[] = ['en', 'zh']
 export const LANGUAGE_STORAGE_KEY = 'xj-lang'
 
+// 默认语言不带前缀（/products），其他语言以语言代码作为第一段路径（/zh/products）
+const BASE_PATH = import.meta.env.BASE_URL.replace(/\/+$/, '')
+
+// 只比较主语言子标签，如 zh-Hans、es_MX、ar-EG 分别归为 zh、es、ar
 const normalizeLanguage = (lang?: string | null): Locale | null => {
   if (!lang) return null
-  const lower = lang.toLowerCase()
-  if (lower.startsWith('zh')) return 'zh'
-  if (lower.startsWith('en')) return 'en'
-  return null
+  const primary = lang.toLowerCase().split(/[-_]/)[0]
+  return isSupportedLocale(primary) ? primary : null
 }
 
-const getSearchParam = (search: string): string | null => {
-  if (!search) return null
-  const params = new URLSearchParams(search.startsWith('?') ? search : `?${search}`)
-  return params.get('lang')
+// 去掉部署子路径后的站内路径，如 /XingJue/zh/products -> /zh/products
+const stripBasePath = (pathname: string) =>
+  BASE_PATH && pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) || '/' : pathname
+
+export const getPathLocale = (pathname: string): Locale | null => {
+  const [, firstSegment] = stripBasePath(pathname).split('/')
+  return firstSegment && firstSegment !== DEFAULT_LOCALE && isSupportedLocale(firstSegment) ? firstSegment : null
 }
 
-export const getQueryLanguage = (): Locale | null => {
-  // 优先从哈希中的查询参数读取（HashRouter 场景：#/path?lang=zh）
-  const hash = window.location.hash
-  const queryIndex = hash.indexOf('?')
-  if (queryIndex >= 0) {
-    const query = hash.slice(queryIndex + 1)
-    return normalizeLanguage(getSearchParam(query))
-  }
+export const getLocaleBasename = (locale: Locale) =>
+  `${BASE_PATH}${locale === DEFAULT_LOCALE ? '' : `/${locale}`}` || '/'
 
-  // 其次从普通 search 读取（兼容历史 URL，如 ?lang=zh#/path）
-  const fromSearch = getSearchParam(window.location.search)
-  const normalizedSearch = normalizeLanguage(fromSearch)
-  if (normalizedSearch) return normalizedSearch
+// 站内路由路径转为带部署子路径与语言前缀的完整路径
+export const getLocalizedPath = (path: string, locale: Locale) => toLocalizedPath(BASE_PATH, path, locale)
 
-  return null
+const getStoredLanguage = () => {
+  try {
+    return normalizeLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY))
+  } catch {
+    return null
+  }
 }
 
-export const getInitialLanguage = (): Locale => {
-  const fromQuery = getQueryLanguage()
-  if (fromQuery) return fromQuery
+export const storeLanguage = (lang: Locale) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, lang)
+  } catch {
+    // 隐私模式等无法写入时忽略，仅影响下次访问的默认语言
+  }
+}
 
-  const stored = normalizeLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY))
-  if (stored) return stored
+// 当前地址对应的站内路由（不含部署子路径与语言前缀）
+const getRoutePath = (pathname: string) => {
+  const path = stripBasePath(pathname)
+  const locale = getPathLocale(pathname)
+  return locale ? path.slice(locale.length + 1) || '/' : path
+}
 
-  const navigatorLang = normalizeLanguage(navigator.language)
-  return navigatorLang ?? 'en'
+const getLocalizedUrl = (route: string, locale: Locale) => {
+  const [path, query] = route.split('?')
+  return `${getLocalizedPath(path, locale)}${query ? `?${query}` : ''}`
 }
 
-export const setLanguageParam = (lang: Locale) => {
-  const url = new URL(window.location.href)
-  let hash = url.hash || '#/'
-
-  // 拆分哈希中的路径和查询字符串：#/path?lang=xx
-  const queryIndex = hash.indexOf('?')
-  let hashPath = hash
-  let hashQuery = ''
-  if (queryIndex >= 0) {
-    hashPath = hash.slice(0, queryIndex)
-    hashQuery = hash.slice(queryIndex + 1)
+// 兼容旧版 HashRouter 链接（#/products/p-timer?lang=zh 或 ?lang=zh#/path），lang 参数不再保留在地址中
+const readLocation = () => {
+  const { hash, pathname, search } = window.location
+  const isHashRoute = hash.startsWith('#/')
+  const [hashPath, hashQuery = ''] = isHashRoute ? hash.slice(1).split('?') : []
+  const params = new URLSearchParams(isHashRoute ? hashQuery : search)
+  const lang = normalizeLanguage(params.get('lang')) ?? normalizeLanguage(new URLSearchParams(search).get('lang'))
+  params.delete('lang')
+  const query = params.size > 0 ? `?${params.toString()}` : ''
+  return {
+    route: `${isHashRoute ? hashPath : getRoutePath(pathname)}${query}`,
+    hash: isHashRoute ? '' : hash,
+    lang
   }
+}
 
-  const params = new URLSearchParams(hashQuery)
-  params.set('lang', lang)
-  url.hash = `${hashPath}?${params.toString()}`
+/**
+ * 首屏确定语言：路径中的语言前缀优先；没有前缀时依次参考旧链接参数、用户上次的选择与浏览器语言，
+ * 并在路由挂载前改写地址，使路径与语言保持一致。预渲染（无 window）时返回默认语言。
+ * 只接受站点启用的语言（siteLocales），其他语言没有预渲染页面与 hreflang，回退到默认语言。
+ */
+export const getInitialLanguage = (siteLocales: Locale[]): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE
 
-  // 可选：清理 search 中旧的 lang，避免同时存在 ?lang=xx#/path?lang=yy 这种形式
-  url.searchParams.delete('lang')
-  url.search = url.searchParams.toString()
+  const { route, hash, lang } = readLocation()
+  const candidates = [
+    getPathLocale(window.location.pathname),
+    lang,
+    getStoredLanguage(),
+    normalizeLanguage(navigator.language)
+  ]
+  const locale = candidates.find((item) => item !== null && siteLocales.includes(item)) ?? DEFAULT_LOCALE
 
-  window.history.replaceState({}, '', url.toString())
-  localStorage.setItem(LANGUAGE_STORAGE_KEY, lang)
-  document.documentElement.lang = lang
+  const url = `${getLocalizedUrl(route, locale)}${hash}`
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(null, '', url)
+  }
+  return locale
 }
+
+// 切换语言时把当前页面换到目标语言的路径下，保留查询参数
+export const getCurrentUrlForLocale = (locale: Locale) =>
+  getLocalizedUrl(`${getRoutePath(window.location.pathname)}${window.location.search}`, locale)
@@ -1,14 +1,14 @@
-import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import './i18n'
+import { i18nReady } from './i18n'
 import App from './App'
-import { SiteDataProvider } from './context/SiteDataContext'
+import { AppProviders } from './AppProviders'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <SiteDataProvider>
+// 预渲染的 HTML 仅供首屏与爬虫使用，浏览器端直接接管重新渲染（本地草稿、币种等状态只存在于浏览器）
+void i18nReady.then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <AppProviders>
       <App />
-    </SiteDataProvider>
-  </StrictMode>,
-)
+    </AppProviders>,
+  )
+})
@@ -1,6 +1,7 @@
 import { useTranslation } from 'react-i18next'
 import { useSiteData } from '../context/SiteDataContext'
 import { Seo } from '../components/common/Seo'
+import { createLocalizedText, localize } from '../utils/localize'
 import type { Locale } from '../types/site'
 
 export const About = () => {
@@ -11,15 +12,15 @@ export const About = () => {
   return (
     <>
       <Seo 
-        title={siteData.seo?.pages?.about?.title || { en: '', zh: '' }} 
-        description={siteData.seo?.pages?.about?.description || { en: '', zh: '' }} 
+        title={siteData.seo?.pages?.about?.title || createLocalizedText(siteData.locales)} 
+        description={siteData.seo?.pages?.about?.description || createLocalizedText(siteData.locales)} 
       />
       <section className="px-4 py-12 md:px-6">
         <div className="mx-auto max-w-4xl">
           <div className="rounded-3xl border border-white/10 bg-slate-950/60 p-6">
             <h1 className="section-title">{t('about.title')}</h1>
             <p className="mt-3 text-sm text-white/60">{t('about.subtitle')}</p>
-            <p className="mt-6 text-sm text-white/70">{siteData.about?.overview?.[locale] || ''}</p>
+            <p className="mt-6 text-sm text-white/70">{localize(siteData.about?.overview, locale)}</p>
           </div>
         </div>
       </section>
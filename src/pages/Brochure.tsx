@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react'
+import type { ReactNode } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { useSiteData } from '../context/SiteDataContext'
+import { Seo } from '../components/common/Seo'
+import { LoadingSpinner } from '../components/common/LoadingSpinner'
+import { ensureBundle } from '../i18n'
+import { getLocaleDefinition } from '../i18n/locales'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
+import { formatCurrency } from '../utils/format'
+import { getLowestUnitPrice, hasPriceRange } from '../utils/pricing'
+import { localize } from '../utils/localize'
+import { getAbsoluteUrl } from '../utils/seo'
+import { printAsPdf } from '../utils/download'
+import { BROCHURE_MAX_FEATURES, BROCHURE_MAX_SPECS, buildBrochureLayout } from '../utils/brochure'
+import type { BrochurePage } from '../utils/brochure'
+import type { Locale, LocalizedText, Product } from '../types/site'
+
+// 每页固定为 A4 打印区域（纸张减去 @page 页边距），内容超出时截断而不是顺延，保证目录页码准确
+const pageClassName =
+  'mx-auto mb-8 flex h-[297mm] w-[210mm] max-w-full flex-col overflow-hidden bg-white p-[12mm] text-slate-900 shadow-2xl shadow-black/40 break-after-page last:mb-0 last:break-after-auto print:mb-0 print:h-[273mm] print:w-auto print:p-0 print:shadow-none'
+
+export const Brochure = () => {
+  const { brochureId } = useParams()
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const [readyLocale, setReadyLocale] = useState<Locale | null>(null)
+
+  const brochure = siteData.brochures?.find((item) => item.id === brochureId)
+  const locale = brochure?.locale
+
+  // 手册语言与后台界面语言无关，先加载手册语言的语言包
+  useEffect(() => {
+    if (!locale) return
+    let active = true
+    void ensureBundle(locale)
+      .catch((error: unknown) => console.error(error))
+      .then(() => {
+        if (active) setReadyLocale(locale)
+      })
+    return () => {
+      active = false
+    }
+  }, [locale])
+
+  if (!brochure || !locale) {
+    return (
+      <section className="px-4 py-16 md:px-6">
+        <div className="mx-auto max-w-4xl rounded-3xl border border-white/10 bg-slate-950/60 p-10 text-center text-white/60">
+          <p>{t('admin.brochures.missing')}</p>
+          <Link to="/admin/brochures" className="btn-ghost mt-6">
+            {t('admin.brochures.back')}
+          </Link>
+        </div>
+      </section>
+    )
+  }
+
+  const layout = buildBrochureLayout(siteData, brochure)
+  const tl = i18n.getFixedT(locale)
+  const text = (value: LocalizedText | undefined) => localize(value, locale)
+  const siteName = text(siteData.settings.siteName)
+  const title = text(brochure.title) || text(siteData.hero.title)
+  const totalPages = layout.pages.length
+
+  const formatPrice = (product: Product) => {
+    const price = formatCurrency(getLowestUnitPrice(product), product.price.currency, locale)
+    return hasPriceRange(product) ? tl('products.fromPrice', { price }) : price
+  }
+
+  const pageFooter = (pageNumber: number) => (
+    <footer className="mt-auto flex justify-between gap-4 border-t border-slate-200 pt-2 text-[10px] text-slate-400">
+      <span>
+        {siteName} · {title}
+      </span>
+      <span className="tabular-nums">
+        {pageNumber} / {totalPages}
+      </span>
+    </footer>
+  )
+
+  const pageHeading = (heading: string, continued: boolean) => (
+    <header className="border-b-2 border-amber-400 pb-3">
+      <p className="text-[10px] uppercase tracking-widest text-slate-400">{siteName}</p>
+      <h2 className="text-2xl font-semibold">
+        {heading}
+        {continued && <span className="ms-2 text-base font-normal text-slate-400">{tl('brochure.continued')}</span>}
+      </h2>
+    </header>
+  )
+
+  const contentsEntry = (key: string, label: ReactNode, page: number) => (
+    <li key={key} className="flex items-baseline gap-3">
+      <span>{label}</span>
+      <span className="flex-1 border-b border-dotted border-slate-300" />
+      <span className="tabular-nums">{page}</span>
+    </li>
+  )
+
+  const renderPage = (page: BrochurePage, pageNumber: number) => {
+    switch (page.type) {
+      case 'cover':
+        return (
+          <>
+            <ResponsiveImage
+              src={siteData.hero.backgroundImage}
+              alt=""
+              placeholder={false}
+              className="h-[140mm] w-full rounded-2xl object-cover print:h-[130mm]"
+            />
+            <div className="mt-8 flex items-center gap-3">
+              <ResponsiveImage src={siteData.settings.logoUrl} alt="" sizes="56px" placeholder={false} className="h-14 w-14 rounded-full object-cover ring-1 ring-slate-200" />
+              <div>
+                <p className="text-xl font-semibold">{siteName}</p>
+                <p className="text-sm text-slate-500">{text(siteData.settings.tagline)}</p>
+              </div>
+            </div>
+            <h1 className="mt-10 text-4xl font-semibold leading-tight">{title}</h1>
+            {text(brochure.title) && <p className="mt-3 text-lg text-slate-600">{text(siteData.hero.title)}</p>}
+            <p className="mt-2 text-sm text-slate-500">{text(siteData.hero.subtitle)}</p>
+            <p className="mt-auto border-t-4 border-amber-400 pt-3 text-sm text-slate-500">
+              {getAbsoluteUrl('/', locale)}
+            </p>
+          </>
+        )
+      case 'contents':
+        return (
+          <>
+            {pageHeading(tl('brochure.contents'), false)}
+            <ol className="mt-8 space-y-3 text-base">
+              {layout.sections.map((section) =>
+                contentsEntry(
+                  section.category.id,
+                  <>
+                    {text(section.category.name)}{' '}
+                    <span className="text-xs text-slate-400">
+                      ({tl('brochure.productCount', { count: section.products.length })})
+                    </span>
+                  </>,
+                  section.page
+                )
+              )}
+              {layout.productCount > 0 && contentsEntry('prices', tl('brochure.priceList'), layout.pricePage)}
+              {contentsEntry('contact', tl('contact.infoTitle'), layout.backPage)}
+            </ol>
+            {pageFooter(pageNumber)}
+          </>
+        )
+      case 'category':
+        return (
+          <>
+            {pageHeading(text(page.category.name), page.continued)}
+            <div className="mt-6 flex flex-1 flex-col gap-6 overflow-hidden">
+              {page.products.map((product) => (
+                <article key={product.id} className="flex min-h-0 flex-1 gap-6 border-b border-slate-100 pb-6 last:border-0">
+                  <ResponsiveImage
+                    src={product.mainImage}
+                    sizes="80mm"
+                    placeholder={false}
+                    alt={text(product.name)}
+                    className="h-[85mm] w-2/5 shrink-0 rounded-xl border border-slate-200 object-contain"
+                  />
+                  <div className="min-w-0 flex-1 text-sm">
+                    <h3 className="text-lg font-semibold leading-tight">{text(product.name)}</h3>
+                    <p className="mt-1 font-mono text-xs text-slate-400">
+                      {tl('datasheet.sku')}: {product.sku}
+                    </p>
+                    <p className="mt-2 text-slate-600">{text(product.shortDescription)}</p>
+                    {product.features.length > 0 && (
+                      <ul className="mt-3 space-y-1 text-xs text-slate-700">
+                        {product.features.slice(0, BROCHURE_MAX_FEATURES).map((feature, index) => (
+                          <li key={`${feature?.en || index}-${index}`} className="flex gap-2">
+                            <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-amber-400" />
+                            <span>{text(feature)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {product.specs.length > 0 && (
+                      <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                        {product.specs.slice(0, BROCHURE_MAX_SPECS).map((spec, index) => (
+                          <div key={spec?.label?.en || index} className="flex justify-between gap-2 border-b border-slate-100">
+                            <dt className="text-slate-500">{text(spec.label)}</dt>
+                            <dd className="text-end font-medium">{text(spec.value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                    <p className="mt-3 text-xs text-slate-500">
+                      {tl('productDetail.moq')}: {product.price.moq} · {tl('productDetail.leadTime')}:{' '}
+                      {text(product.leadTime)}
+                      {product.certifications.length > 0 && ` · ${product.certifications.join(', ')}`}
+                    </p>
+                  </div>
+                </article>
+              ))}
+            </div>
+            {pageFooter(pageNumber)}
+          </>
+        )
+      case 'prices':
+        return (
+          <>
+            {pageHeading(tl('brochure.priceList'), page.continued)}
+            <table className="mt-6 w-full border-collapse text-xs">
+              <thead className="text-slate-500">
+                <tr className="border-b-2 border-slate-200">
+                  <th className="py-2 pe-2 text-start font-medium">{tl('datasheet.sku')}</th>
+                  <th className="py-2 pe-2 text-start font-medium">{tl('brochure.product')}</th>
+                  <th className="py-2 pe-2 text-end font-medium">{tl('productDetail.moq')}</th>
+                  <th className="py-2 pe-2 text-end font-medium">{tl('productDetail.unitPrice')}</th>
+                  <th className="py-2 text-start font-medium">{tl('productDetail.leadTime')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {page.products.map((product) => (
+                  <tr key={product.id} className="border-b border-slate-100 even:bg-slate-50">
+                    <td className="py-1.5 pe-2 font-mono">{product.sku}</td>
+                    <td className="py-1.5 pe-2">{text(product.name)}</td>
+                    <td className="py-1.5 pe-2 text-end tabular-nums">
+                      {product.price.moq} {text(product.price.unit)}
+                    </td>
+                    <td className="py-1.5 pe-2 text-end tabular-nums">{formatPrice(product)}</td>
+                    <td className="py-1.5">{text(product.leadTime)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-4 text-[10px] text-slate-400">{tl('brochure.priceNote')}</p>
+            {pageFooter(pageNumber)}
+          </>
+        )
+      case 'back':
+        return (
+          <>
+            <div className="flex flex-1 flex-col items-center justify-center text-center">
+              <ResponsiveImage src={siteData.settings.logoUrl} alt="" sizes="80px" placeholder={false} className="h-20 w-20 rounded-full object-cover ring-1 ring-slate-200" />
+              <p className="mt-4 text-2xl font-semibold">{siteName}</p>
+              <p className="text-sm text-slate-500">{text(siteData.settings.tagline)}</p>
+              <h2 className="mt-10 text-xs font-semibold uppercase tracking-widest text-slate-400">
+                {tl('contact.infoTitle')}
+              </h2>
+              <dl className="mt-4 space-y-2 text-sm">
+                {[
+                  { key: 'address', label: tl('contact.address'), value: text(siteData.contact.address) },
+                  { key: 'phone', label: tl('contact.phone'), value: siteData.contact.phone },
+                  { key: 'email', label: tl('contact.email'), value: siteData.contact.email },
+                  { key: 'whatsapp', label: tl('contact.whatsapp'), value: siteData.contact.whatsapp },
+                  { key: 'hours', label: tl('contact.hours'), value: text(siteData.contact.hours) }
+                ]
+                  .filter((item) => item.value)
+                  .map((item) => (
+                    <div key={item.key}>
+                      <dt className="text-xs text-slate-400">{item.label}</dt>
+                      <dd>{item.value}</dd>
+                    </div>
+                  ))}
+              </dl>
+              {siteData.contact.socials.length > 0 && (
+                <p className="mt-6 text-xs text-slate-500">
+                  {siteData.contact.socials.map((social) => `${social.platform}: ${social.url}`).join(' · ')}
+                </p>
+              )}
+            </div>
+            <p className="border-t-4 border-amber-400 pt-3 text-center text-sm text-slate-500">
+              {getAbsoluteUrl('/', locale)}
+            </p>
+          </>
+        )
+    }
+  }
+
+  return (
+    <>
+      <Seo title={brochure.title} description={siteData.settings.seoDefaults.description} noindex />
+      <div className="min-h-screen px-4 py-8 print:min-h-0 print:p-0">
+        <div className="mx-auto mb-6 flex w-[210mm] max-w-full flex-wrap items-center justify-between gap-3 print:hidden">
+          <Link to="/admin/brochures" className="btn-ghost gap-2">
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('admin.brochures.back')}
+          </Link>
+          <button
+            type="button"
+            onClick={() => printAsPdf(`${brochure.id}-${locale}`)}
+            disabled={readyLocale !== locale}
+            className="btn-primary gap-2"
+          >
+            <Printer className="h-4 w-4" />
+            {t('admin.brochures.print')}
+          </button>
+          <p className="w-full text-xs text-white/50">
+            {t('admin.brochures.summary', { count: layout.productCount, pages: totalPages })} ·{' '}
+            {t('datasheet.pdfHint')}
+          </p>
+        </div>
+
+        {readyLocale !== locale ? (
+          <LoadingSpinner />
+        ) : (
+          <div lang={getLocaleDefinition(locale).tag} dir={getLocaleDefinition(locale).dir}>
+            {layout.pages.map((page, index) => (
+              <section key={`${page.type}-${index}`} className={pageClassName}>
+                {renderPage(page, index + 1)}
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
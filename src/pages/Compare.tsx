@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Link2, Printer, X } from 'lucide-react'
+import { useSiteData } from '../context/SiteDataContext'
+import { useCompare } from '../hooks/useCompare'
+import { useCurrency } from '../hooks/useCurrency'
+import { Seo } from '../components/common/Seo'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
+import { getLowestUnitPrice, hasPriceRange } from '../utils/pricing'
+import { createLocalizedText, localize } from '../utils/localize'
+import { COMPARE_IDS_PARAM, buildSpecRows, hasDifference, parseCompareIds } from '../utils/compare'
+import { AVAILABILITY_LABEL_KEYS } from '../utils/inventory'
+import { getProductAvailability } from '../utils/variants'
+import type { Locale, Product } from '../types/site'
+
+interface CompareRow {
+  key: string
+  label: string
+  cells: string[]
+  differs: boolean
+}
+
+export const Compare = () => {
+  const { siteData } = useSiteData()
+  const { ids: selectedIds, removeItem } = useCompare()
+  const { t, i18n } = useTranslation()
+  const { formatPrice } = useCurrency()
+  const locale = i18n.language as Locale
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  const idsParam = searchParams.get(COMPARE_IDS_PARAM)
+
+  // 从导航进入时链接中还没有产品 id，补上当前的对比列表，使地址可直接分享
+  useEffect(() => {
+    if (idsParam === null && selectedIds.length > 0) {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous)
+          next.set(COMPARE_IDS_PARAM, selectedIds.join(','))
+          return next
+        },
+        { replace: true }
+      )
+    }
+  }, [idsParam, selectedIds, setSearchParams])
+
+  const products = useMemo(
+    () =>
+      parseCompareIds(idsParam ?? selectedIds.join(','))
+        .map((id) => siteData.products.find((product) => product.id === id))
+        .filter((product): product is Product => Boolean(product)),
+    [idsParam, selectedIds, siteData.products]
+  )
+
+  const handleRemove = (productId: string) => {
+    removeItem(productId)
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous)
+      next.set(
+        COMPARE_IDS_PARAM,
+        products
+          .map((product) => product.id)
+          .filter((id) => id !== productId)
+          .join(',')
+      )
+      return next
+    })
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success(t('compare.linkCopied'))
+    } catch {
+      toast.error(t('compare.linkCopyFailed'))
+    }
+  }
+
+  const buildRow = (key: string, label: string, cells: string[], differenceKeys = cells): CompareRow => ({
+    key,
+    label,
+    cells,
+    differs: hasDifference(differenceKeys)
+  })
+
+  const summaryRows = [
+    buildRow(
+      'price',
+      t('productDetail.price'),
+      products.map((product) => {
+        const price = formatPrice(getLowestUnitPrice(product), product.price.currency, locale)
+        const unit = localize(product.price.unit, locale)
+        return `${hasPriceRange(product) ? t('products.fromPrice', { price }) : price}${unit ? ` / ${unit}` : ''}`
+      })
+    ),
+    buildRow('moq', t('productDetail.moq'), products.map((product) => String(product.price.moq))),
+    buildRow('leadTime', t('productDetail.leadTime'), products.map((product) => localize(product.leadTime, locale))),
+    buildRow(
+      'certifications',
+      t('productDetail.certificationsTitle'),
+      products.map((product) => product.certifications.join(', ') || '—'),
+      products.map((product) => [...product.certifications].sort().join(','))
+    ),
+    buildRow(
+      'stock',
+      t('products.filter.stock'),
+      products.map((product) => t(AVAILABILITY_LABEL_KEYS[getProductAvailability(product)]))
+    )
+  ]
+
+  const specRows = buildSpecRows(products).map((row) => ({
+    key: `spec-${row.key}`,
+    label: localize(row.label, locale),
+    cells: row.values.map((value) => localize(value, locale) || '—'),
+    differs: row.differs
+  }))
+
+  const visibleRows = (rows: CompareRow[]) => (onlyDifferences ? rows.filter((row) => row.differs) : rows)
+
+  const renderRows = (rows: CompareRow[]) =>
+    visibleRows(rows).map((row) => (
+      <tr key={row.key} className={row.differs ? 'bg-amber-300/5 print:bg-amber-50' : ''}>
+        <th
+          scope="row"
+          className="border-t border-white/10 px-4 py-3 text-start text-xs font-medium text-white/50 print:border-slate-300 print:text-slate-600"
+        >
+          {row.label}
+        </th>
+        {row.cells.map((cell, index) => (
+          <td
+            key={products[index].id}
+            className={`border-t border-white/10 px-4 py-3 text-sm print:border-slate-300 ${
+              row.differs ? 'font-medium text-amber-200 print:text-slate-900' : 'text-white/70 print:text-slate-700'
+            }`}
+          >
+            {cell}
+          </td>
+        ))}
+      </tr>
+    ))
+
+  return (
+    <>
+      <Seo
+        title={siteData.settings?.seoDefaults?.title || createLocalizedText(siteData.locales)}
+        description={siteData.settings?.seoDefaults?.description || createLocalizedText(siteData.locales)}
+      />
+      <section className="px-4 py-12 md:px-6 print:p-0">
+        <div className="mx-auto max-w-6xl">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-col gap-3">
+              <h1 className="section-title print:text-slate-900">{t('compare.title')}</h1>
+              <p className="section-subtitle print:hidden">{t('compare.subtitle')}</p>
+            </div>
+            {products.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 print:hidden">
+                <label className="flex items-center gap-2 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={onlyDifferences}
+                    onChange={(event) => setOnlyDifferences(event.target.checked)}
+                    className="h-4 w-4 accent-amber-300"
+                  />
+                  {t('compare.onlyDifferences')}
+                </label>
+                <button type="button" onClick={() => void handleCopyLink()} className="btn-ghost gap-2">
+                  <Link2 className="h-4 w-4" />
+                  {t('compare.copyLink')}
+                </button>
+                <button type="button" onClick={() => window.print()} className="btn-ghost gap-2">
+                  <Printer className="h-4 w-4" />
+                  {t('compare.print')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {products.length === 0 ? (
+            <div className="mt-8 rounded-3xl border border-white/10 bg-slate-950/50 p-10 text-center text-white/60">
+              <p>{t('compare.empty')}</p>
+              <Link to="/products" className="btn-primary mt-6">
+                {t('actions.viewCatalog')}
+              </Link>
+            </div>
+          ) : (
+            <div className="mt-8 overflow-x-auto rounded-3xl border border-white/10 bg-slate-950/60 print:overflow-visible print:rounded-none print:border-0 print:bg-transparent">
+              <table className="w-full min-w-[40rem] table-fixed border-collapse">
+                <thead>
+                  <tr>
+                    <th scope="col" className="w-40 px-4 py-4">
+                      <span className="sr-only">{t('compare.attribute')}</span>
+                    </th>
+                    {products.map((product) => (
+                      <th key={product.id} scope="col" className="px-4 py-4 text-start align-top">
+                        <div className="relative">
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(product.id)}
+                            className="absolute end-0 top-0 rounded-full bg-slate-950/80 p-1 text-white/60 hover:text-rose-300 print:hidden"
+                            aria-label={t('compare.remove')}
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                          <ResponsiveImage
+                            src={product.mainImage}
+                            sizes="16rem"
+                            alt={localize(product.name, locale)}
+                            className="h-28 w-full rounded-2xl object-cover"
+                            loading="lazy"
+                          />
+                          <Link
+                            to={`/products/${product.id}`}
+                            className="mt-3 block text-sm font-semibold text-white hover:text-amber-300 print:text-slate-900"
+                          >
+                            {localize(product.name, locale)}
+                          </Link>
+                          <p className="font-mono text-xs font-normal text-white/40 print:text-slate-500">
+                            {product.sku}
+                          </p>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderRows(summaryRows)}
+                  {visibleRows(specRows).length > 0 && (
+                    <tr>
+                      <th
+                        scope="colgroup"
+                        colSpan={products.length + 1}
+                        className="border-t border-white/10 px-4 pb-2 pt-6 text-start text-sm font-semibold text-white print:border-slate-300 print:text-slate-900"
+                      >
+                        {t('productDetail.specsTitle')}
+                      </th>
+                    </tr>
+                  )}
+                  {renderRows(specRows)}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
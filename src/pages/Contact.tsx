@@ -1,13 +1,18 @@
+import { useSearchParams } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { Mail, MapPin, Phone } from 'lucide-react'
 import { useSiteData } from '../context/SiteDataContext'
 import { Seo } from '../components/common/Seo'
+import { InquiryForm } from '../components/contact/InquiryForm'
+import { createLocalizedText, localize } from '../utils/localize'
+import { VARIANT_PARAM } from '../utils/variants'
 import type { Locale } from '../types/site'
 
 export const Contact = () => {
   const { siteData } = useSiteData()
   const { t, i18n } = useTranslation()
   const locale = i18n.language as Locale
+  const [searchParams] = useSearchParams()
 
   const { lat = 0, lng = 0 } = siteData.contact?.map || {}
   const mapUrl = `https://www.openstreetmap.org/export/embed.html?bbox=${lng - 0.05}%2C${lat - 0.03}%2C${lng + 0.05}%2C${lat + 0.03}&layer=mapnik&marker=${lat}%2C${lng}`
@@ -15,8 +20,8 @@ export const Contact = () => {
   return (
     <>
       <Seo 
-        title={siteData.seo?.pages?.contact?.title || { en: '', zh: '' }} 
-        description={siteData.seo?.pages?.contact?.description || { en: '', zh: '' }} 
+        title={siteData.seo?.pages?.contact?.title || createLocalizedText(siteData.locales)} 
+        description={siteData.seo?.pages?.contact?.description || createLocalizedText(siteData.locales)} 
       />
       <section className="px-4 py-12 md:px-6">
         <div className="mx-auto max-w-6xl">
@@ -27,12 +32,21 @@ export const Contact = () => {
 
           <div className="mt-8 grid gap-8 lg:grid-cols-[1.2fr_1fr]">
             <div className="space-y-6">
+              <div className="rounded-3xl border border-white/10 bg-slate-950/60 p-6">
+                <h2 className="text-lg font-semibold text-white">{t('contact.formTitle')}</h2>
+                <p className="mt-2 text-sm text-white/60">{t('contact.formSubtitle')}</p>
+                <InquiryForm
+                  defaultProductId={searchParams.get('product') ?? undefined}
+                  defaultVariantId={searchParams.get(VARIANT_PARAM) ?? undefined}
+                />
+              </div>
+
               <div className="rounded-3xl border border-white/10 bg-slate-950/60 p-6">
                 <h2 className="text-lg font-semibold text-white">{t('contact.infoTitle')}</h2>
                 <div className="mt-4 space-y-3 text-sm text-white/60">
                   <div className="flex items-start gap-2">
                     <MapPin className="mt-0.5 h-4 w-4 text-amber-300" />
-                    <span>{siteData.contact.address[locale]}</span>
+                    <span>{localize(siteData.contact.address, locale)}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <Phone className="h-4 w-4 text-amber-300" />
@@ -49,7 +63,7 @@ export const Contact = () => {
                     <span>{siteData.contact.email}</span>
                   </div>
                   <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-xs text-white/60">
-                    {siteData.contact.hours[locale]}
+                    {localize(siteData.contact.hours, locale)}
                   </div>
                 </div>
                 <div className="mt-4 flex flex-wrap gap-2">
@@ -79,7 +93,7 @@ export const Contact = () => {
                 />
               </div>
               <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-xs text-white/60">
-                {t('contact.address')}: {siteData.contact.address[locale]}
+                {t('contact.address')}: {localize(siteData.contact.address, locale)}
               </div>
             </div>
           </div>
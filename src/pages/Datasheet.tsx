@@ -0,0 +1,305 @@
+import { Fragment, useEffect, useState } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { useSiteData } from '../context/SiteDataContext'
+import { Seo } from '../components/common/Seo'
+import { LoadingSpinner } from '../components/common/LoadingSpinner'
+import { ensureBundle } from '../i18n'
+import { getLocaleDefinition } from '../i18n/locales'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
+import { formatCurrency, formatDate } from '../utils/format'
+import { getPriceBreaks, hasPriceTiers } from '../utils/pricing'
+import { createLocalizedText, localize } from '../utils/localize'
+import { getAbsoluteUrl } from '../utils/seo'
+import { VARIANT_PARAM, applyVariant, buildVariantPath, getVariant, getVariantLabel } from '../utils/variants'
+import {
+  DATASHEET_EDITIONS,
+  DATASHEET_EDITION_PARAM,
+  getEditionLocales,
+  joinLocalized,
+  parseDatasheetEdition,
+  printDatasheet
+} from '../utils/datasheet'
+import type { DatasheetEdition } from '../utils/datasheet'
+import type { Locale } from '../types/site'
+
+// 规格书的文案与界面语言无关，进入页面时预先加载中英文语言包
+const SHEET_LOCALES = getEditionLocales('bilingual')
+
+export const Datasheet = () => {
+  const { productId } = useParams()
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [bundlesReady, setBundlesReady] = useState(false)
+
+  const baseProduct = siteData.products.find((item) => item.id === productId)
+  // 从详情页带入的变体：规格书使用该变体的 SKU、价格与图片
+  const variant = baseProduct && getVariant(baseProduct, searchParams.get(VARIANT_PARAM))
+  const product = baseProduct && applyVariant(baseProduct, variant)
+  const edition = parseDatasheetEdition(searchParams.get(DATASHEET_EDITION_PARAM), locale)
+  const locales = getEditionLocales(edition)
+
+  useEffect(() => {
+    let active = true
+    void Promise.allSettled(SHEET_LOCALES.map((item) => ensureBundle(item))).then(() => {
+      if (active) setBundlesReady(true)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const setEdition = (next: DatasheetEdition) => {
+    setSearchParams(
+      (previous) => {
+        const params = new URLSearchParams(previous)
+        params.set(DATASHEET_EDITION_PARAM, next)
+        return params
+      },
+      { replace: true }
+    )
+  }
+
+  // 双语版的标题与标签以“English / 中文”的形式并列
+  const label = (key: string) => [...new Set(locales.map((item) => i18n.getFixedT(item)(key)))].join(' / ')
+
+  if (!product) {
+    return (
+      <section className="px-4 py-16 md:px-6">
+        <div className="mx-auto max-w-4xl rounded-3xl border border-white/10 bg-slate-950/60 p-10 text-center text-white/60">
+          {t('productDetail.notFound')}
+        </div>
+      </section>
+    )
+  }
+
+  const currency = product.price?.currency || 'USD'
+  const facts = [
+    {
+      key: 'price',
+      label: label('productDetail.price'),
+      value: formatCurrency(product.price?.amount || 0, currency, locales[0])
+    },
+    { key: 'unit', label: label('productDetail.unit'), value: joinLocalized(product.price?.unit, locales) },
+    { key: 'moq', label: label('productDetail.moq'), value: String(product.price?.moq || 0) },
+    { key: 'leadTime', label: label('productDetail.leadTime'), value: joinLocalized(product.leadTime, locales) }
+  ]
+
+  return (
+    <>
+      <Seo
+        title={product.seo?.title || createLocalizedText(siteData.locales)}
+        description={product.seo?.description || createLocalizedText(siteData.locales)}
+        noindex
+      />
+      <div className="min-h-screen px-4 py-8 print:min-h-0 print:p-0">
+        <div className="mx-auto mb-6 flex w-[210mm] max-w-full flex-wrap items-center justify-between gap-3 print:hidden">
+          <Link to={buildVariantPath(product.id, variant?.id)} className="btn-ghost gap-2">
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('datasheet.back')}
+          </Link>
+          <div className="flex flex-wrap items-center gap-3">
+            <div role="group" aria-label={t('datasheet.edition')} className="flex rounded-full border border-white/20 p-1">
+              {DATASHEET_EDITIONS.map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  aria-pressed={edition === item}
+                  onClick={() => setEdition(item)}
+                  className={`rounded-full px-4 py-1.5 text-sm transition ${
+                    edition === item ? 'bg-amber-400 font-semibold text-slate-900' : 'text-white/70 hover:text-white'
+                  }`}
+                >
+                  {t(`datasheet.editions.${item}`)}
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={() => printDatasheet(product, edition)} disabled={!bundlesReady} className="btn-primary gap-2">
+              <Printer className="h-4 w-4" />
+              {t('datasheet.printPdf')}
+            </button>
+          </div>
+          <p className="w-full text-xs text-white/50">{t('datasheet.pdfHint')}</p>
+        </div>
+
+        {!bundlesReady ? (
+          <LoadingSpinner />
+        ) : (
+          <article
+            lang={locales.length === 1 ? getLocaleDefinition(locales[0]).tag : undefined}
+            dir="ltr"
+            className="mx-auto flex min-h-[297mm] w-[210mm] max-w-full flex-col bg-white p-[12mm] text-slate-900 shadow-2xl shadow-black/40 print:min-h-0 print:w-auto print:p-0 print:shadow-none"
+          >
+            <header className="flex items-start justify-between gap-6 border-b-2 border-amber-400 pb-4">
+              <div className="flex items-center gap-3">
+                <ResponsiveImage
+                  src={siteData.settings.logoUrl}
+                  alt=""
+                  sizes="48px"
+                  placeholder={false}
+                  className="h-12 w-12 rounded-full object-cover ring-1 ring-slate-200"
+                />
+                <div>
+                  <p className="text-base font-semibold">{joinLocalized(siteData.settings.siteName, locales)}</p>
+                  <p className="text-xs text-slate-500">{joinLocalized(siteData.settings.tagline, locales)}</p>
+                </div>
+              </div>
+              <div className="text-end text-xs text-slate-500">
+                <p className="text-sm font-semibold uppercase tracking-widest text-slate-900">
+                  {label('datasheet.title')}
+                </p>
+                <p className="mt-1">
+                  {label('datasheet.updated')}: {formatDate(product.updatedAt || product.createdAt, locales[0])}
+                </p>
+              </div>
+            </header>
+
+            <section className="mt-6 grid grid-cols-[1fr_1.1fr] gap-6">
+              <ResponsiveImage
+                src={product.mainImage}
+                sizes="90mm"
+                placeholder={false}
+                alt={localize(product.name, locales[0])}
+                className="h-64 w-full rounded-xl border border-slate-200 object-contain"
+              />
+              <div>
+                <h1 className="text-2xl font-semibold leading-tight">{localize(product.name, locales[0])}</h1>
+                {locales.slice(1).map((item) => (
+                  <p key={item} className="mt-1 text-lg text-slate-600">
+                    {localize(product.name, item)}
+                  </p>
+                ))}
+                {baseProduct && variant && (
+                  <p className="mt-2 text-sm text-slate-600">
+                    {[...new Set(locales.map((item) => getVariantLabel(baseProduct, variant, item)))].join(' / ')}
+                  </p>
+                )}
+                <p className="mt-2 font-mono text-xs text-slate-500">
+                  {label('datasheet.sku')}: {product.sku}
+                </p>
+                <dl className="mt-4 divide-y divide-slate-200 border-y border-slate-200 text-sm">
+                  {facts.map((fact) => (
+                    <div key={fact.key} className="flex justify-between gap-4 py-1.5">
+                      <dt className="text-slate-500">{fact.label}</dt>
+                      <dd className="text-end font-medium">{fact.value || '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {hasPriceTiers(product) && (
+                  <table className="mt-3 w-full text-xs">
+                    <thead className="text-slate-500">
+                      <tr>
+                        <th className="py-1 text-start font-normal">{label('productDetail.quantity')}</th>
+                        <th className="py-1 text-end font-normal">{label('productDetail.unitPrice')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {getPriceBreaks(product).map((tier, index, breaks) => (
+                        <tr key={tier.minQuantity} className="border-t border-slate-100">
+                          <td className="py-1">
+                            {breaks[index + 1]
+                              ? `${tier.minQuantity} – ${breaks[index + 1].minQuantity - 1}`
+                              : `${tier.minQuantity}+`}
+                          </td>
+                          <td className="py-1 text-end">{formatCurrency(tier.amount, currency, locales[0])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {product.certifications.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                      {label('productDetail.certificationsTitle')}
+                    </p>
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {product.certifications.map((cert) => (
+                        <span key={cert} className="rounded-full border border-slate-300 px-2.5 py-0.5 text-xs">
+                          {cert}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </section>
+
+            <section className={`mt-6 grid gap-6 ${locales.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {locales.map((item) => (
+                <div key={item} lang={getLocaleDefinition(item).tag}>
+                  <h2 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                    {i18n.getFixedT(item)('datasheet.overview')}
+                  </h2>
+                  <p className="mt-2 text-sm leading-relaxed text-slate-700">{localize(product.description, item)}</p>
+                  {product.features.length > 0 && (
+                    <>
+                      <h2 className="mt-4 text-xs font-semibold uppercase tracking-widest text-slate-500">
+                        {i18n.getFixedT(item)('productDetail.featuresTitle')}
+                      </h2>
+                      <ul className="mt-2 space-y-1 text-sm text-slate-700">
+                        {product.features.map((feature, index) => (
+                          <li key={`${feature?.en || index}-${index}`} className="flex gap-2">
+                            <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-amber-400" />
+                            <span>{localize(feature, item)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              ))}
+            </section>
+
+            {product.specs.length > 0 && (
+              <section className="mt-6 break-inside-avoid">
+                <h2 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                  {label('productDetail.specsTitle')}
+                </h2>
+                <table className="mt-2 w-full border-collapse text-sm">
+                  <tbody>
+                    {product.specs.map((spec, index) => (
+                      <tr key={spec?.label?.en || index} className="border-t border-slate-200 even:bg-slate-50">
+                        {locales.map((item) => (
+                          <Fragment key={item}>
+                            <th scope="row" className="w-1/4 px-2 py-1.5 text-start font-normal text-slate-500">
+                              {localize(spec.label, item)}
+                            </th>
+                            <td className="px-2 py-1.5 font-medium">{localize(spec.value, item)}</td>
+                          </Fragment>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            <footer className="mt-auto break-inside-avoid border-t border-slate-200 pt-4 text-xs text-slate-600 print:mt-8">
+              <p className="font-semibold uppercase tracking-widest text-slate-500">{label('contact.infoTitle')}</p>
+              <div className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1">
+                <p>
+                  {label('contact.address')}: {joinLocalized(siteData.contact.address, locales)}
+                </p>
+                <p>
+                  {label('contact.phone')}: {siteData.contact.phone}
+                </p>
+                <p>
+                  {label('contact.email')}: {siteData.contact.email}
+                </p>
+                <p>
+                  {label('contact.whatsapp')}: {siteData.contact.whatsapp}
+                </p>
+              </div>
+              <p className="mt-2 break-all text-slate-500">
+                {label('datasheet.moreInfo')}: {getAbsoluteUrl(buildVariantPath(product.id, variant?.id), locales[0])}
+              </p>
+            </footer>
+          </article>
+        )}
+      </div>
+    </>
+  )
+}
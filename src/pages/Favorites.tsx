@@ -0,0 +1,147 @@
+import { useMemo } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { ClipboardList, HeartPlus, Link2 } from 'lucide-react'
+import { useSiteData } from '../context/SiteDataContext'
+import { useFavorites } from '../hooks/useFavorites'
+import { useQuoteBasket } from '../hooks/useQuoteBasket'
+import { Seo } from '../components/common/Seo'
+import { ProductCard } from '../components/products/ProductCard'
+import { InquiryForm } from '../components/contact/InquiryForm'
+import { createLocalizedText } from '../utils/localize'
+import { FAVORITE_IDS_PARAM, parseFavoriteIds, toFavoriteQuoteLines } from '../utils/favorites'
+import { resolveQuoteLines, toInquiryItems } from '../utils/quote'
+import type { Product } from '../types/site'
+
+export const Favorites = () => {
+  const { siteData } = useSiteData()
+  const { ids: favoriteIds, addItems, clear } = useFavorites()
+  const { addItem } = useQuoteBasket()
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // 链接中带有产品 id 时展示他人分享的收藏，否则展示本机收藏
+  const idsParam = searchParams.get(FAVORITE_IDS_PARAM)
+  const isShared = idsParam !== null
+
+  const products = useMemo(
+    () =>
+      (isShared ? parseFavoriteIds(idsParam) : favoriteIds)
+        .map((id) => siteData.products.find((product) => product.id === id))
+        .filter((product): product is Product => Boolean(product)),
+    [favoriteIds, idsParam, isShared, siteData.products]
+  )
+
+  const quoteLines = useMemo(() => toFavoriteQuoteLines(products), [products])
+  const inquiryItems = useMemo(
+    () => toInquiryItems(resolveQuoteLines(quoteLines, siteData.products)),
+    [quoteLines, siteData.products]
+  )
+
+  const handleCopyLink = async () => {
+    const url = new URL(window.location.href)
+    url.searchParams.set(
+      FAVORITE_IDS_PARAM,
+      products.map((product) => product.id).join(',')
+    )
+    try {
+      await navigator.clipboard.writeText(url.toString())
+      toast.success(t('favorites.linkCopied'))
+    } catch {
+      toast.error(t('favorites.linkCopyFailed'))
+    }
+  }
+
+  const handleSaveShared = () => {
+    addItems(products.map((product) => product.id))
+    toast.success(t('favorites.saved', { count: products.length }))
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous)
+      next.delete(FAVORITE_IDS_PARAM)
+      return next
+    })
+  }
+
+  const handleAddAllToQuote = () => {
+    quoteLines.forEach((line) => addItem(line.productId, line.quantity, line.variantId))
+    navigate('/quote')
+  }
+
+  return (
+    <>
+      <Seo
+        title={siteData.settings?.seoDefaults?.title || createLocalizedText(siteData.locales)}
+        description={siteData.settings?.seoDefaults?.description || createLocalizedText(siteData.locales)}
+      />
+      <section className="px-4 py-12 md:px-6">
+        <div className="mx-auto max-w-6xl">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-col gap-3">
+              <h1 className="section-title">{isShared ? t('favorites.sharedTitle') : t('favorites.title')}</h1>
+              <p className="section-subtitle">{isShared ? t('favorites.sharedSubtitle') : t('favorites.subtitle')}</p>
+            </div>
+            {products.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3">
+                {isShared ? (
+                  <button type="button" onClick={handleSaveShared} className="btn-ghost gap-2">
+                    <HeartPlus className="h-4 w-4" />
+                    {t('favorites.saveShared')}
+                  </button>
+                ) : (
+                  <>
+                    <button type="button" onClick={() => void handleCopyLink()} className="btn-ghost gap-2">
+                      <Link2 className="h-4 w-4" />
+                      {t('favorites.copyLink')}
+                    </button>
+                    <button type="button" onClick={clear} className="btn-ghost">
+                      {t('favorites.clear')}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {products.length === 0 ? (
+            <div className="mt-8 rounded-3xl border border-white/10 bg-slate-950/50 p-10 text-center text-white/60">
+              <p>{t('favorites.empty')}</p>
+              <Link to="/products" className="btn-primary mt-6">
+                {t('actions.viewCatalog')}
+              </Link>
+            </div>
+          ) : (
+            <div className="mt-8 grid gap-8 lg:grid-cols-[1fr_360px]">
+              <div className="grid gap-6 md:grid-cols-2">
+                {products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+
+              <aside className="h-fit rounded-3xl border border-white/10 bg-slate-950/70 p-6 lg:sticky lg:top-28">
+                <h2 className="text-lg font-semibold text-white">{t('favorites.inquiryTitle')}</h2>
+                <p className="mt-2 text-sm text-white/60">
+                  {t('favorites.inquirySubtitle', { count: inquiryItems.length })}
+                </p>
+                {inquiryItems.length < products.length && (
+                  <p className="mt-3 text-xs text-rose-300">{t('favorites.skippedUnavailable')}</p>
+                )}
+                <button
+                  type="button"
+                  onClick={handleAddAllToQuote}
+                  disabled={quoteLines.length === 0}
+                  className="btn-ghost mt-4 w-full gap-2 disabled:opacity-50"
+                >
+                  <ClipboardList className="h-4 w-4" />
+                  {t('favorites.addAllToQuote')}
+                </button>
+                <InquiryForm items={inquiryItems} disabled={inquiryItems.length === 0} />
+              </aside>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
@@ -4,13 +4,20 @@ import { motion } from 'framer-motion'
 import { useTranslation } from 'react-i18next'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { useSiteData } from '../context/SiteDataContext'
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed'
 import { Seo } from '../components/common/Seo'
 import { ProductCard } from '../components/products/ProductCard'
+import { RecentlyViewed } from '../components/products/RecentlyViewed'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
 import { iconMap } from '../utils/iconMap'
+import { createLocalizedText, localize } from '../utils/localize'
+import { getVisibleProducts } from '../utils/translations'
+import { getAbsoluteUrl } from '../utils/seo'
 import type { Locale } from '../types/site'
 
 export const Home = () => {
   const { siteData, isLoading } = useSiteData()
+  const { ids: recentlyViewedIds } = useRecentlyViewed()
   const { t, i18n } = useTranslation()
   const locale = i18n.language as Locale
 
@@ -20,7 +27,7 @@ export const Home = () => {
   // 计算精选产品（需要处理加载状态）
   const featuredProducts = isLoading
     ? []
-    : siteData.products.filter((product) =>
+    : getVisibleProducts(siteData, locale).filter((product) =>
     siteData.featuredProductIds.includes(product.id)
   )
 
@@ -52,8 +59,8 @@ export const Home = () => {
   const organizationSchema = {
     '@context': 'https://schema.org',
     '@type': 'Organization',
-    name: siteData.settings?.siteName?.[locale] || '',
-    url: `${window.location.origin}${window.location.pathname}`,
+    name: localize(siteData.settings?.siteName, locale),
+    url: getAbsoluteUrl('/', locale),
     logo: siteData.settings?.logoUrl || '',
     contactPoint: [
       {
@@ -69,8 +76,8 @@ export const Home = () => {
   return (
     <>
       <Seo
-        title={siteData.seo?.pages?.home?.title || { en: '', zh: '' }}
-        description={siteData.seo?.pages?.home?.description || { en: '', zh: '' }}
+        title={siteData.seo?.pages?.home?.title || createLocalizedText(siteData.locales)}
+        description={siteData.seo?.pages?.home?.description || createLocalizedText(siteData.locales)}
         structuredData={organizationSchema}
       />
 
@@ -87,10 +94,11 @@ export const Home = () => {
               <source src={siteData.hero.backgroundVideo} />
             </video>
           ) : (
-            <img
+            <ResponsiveImage
               src={siteData.hero.backgroundImage}
               alt="hero background"
               className="h-full w-full object-cover opacity-40"
+              fetchPriority="high"
             />
           )}
           <div className="absolute inset-0 bg-gradient-to-b from-slate-950/70 via-slate-950/60 to-slate-950/90" />
@@ -106,14 +114,14 @@ export const Home = () => {
               {t('home.heroBadge')}
             </span>
             <h1 className="mt-4 text-3xl font-semibold text-white md:text-5xl">
-              {siteData.hero?.title?.[locale] || ''}
+              {localize(siteData.hero?.title, locale)}
             </h1>
             <p className="mt-4 text-base text-white/70 md:text-lg">
-              {siteData.hero?.subtitle?.[locale] || ''}
+              {localize(siteData.hero?.subtitle, locale)}
             </p>
             <div className="mt-8 flex flex-wrap gap-4">
               <Link to="/contact" className="btn-primary">
-                {siteData.hero?.ctaLabel?.[locale] || ''}
+                {localize(siteData.hero?.ctaLabel, locale)}
               </Link>
               <Link to="/products" className="btn-ghost">
                 {t('actions.viewCatalog')}
@@ -129,8 +137,8 @@ export const Home = () => {
             <div className="grid gap-4 sm:grid-cols-2">
               {siteData.tradeRegions?.map((region) => (
                 <div key={region.id} className="rounded-2xl border border-white/10 p-4">
-                  <p className="text-sm font-semibold text-white">{region.name?.[locale] || ''}</p>
-                  <p className="mt-2 text-xs text-white/60">{region.markets?.[locale] || ''}</p>
+                  <p className="text-sm font-semibold text-white">{localize(region.name, locale)}</p>
+                  <p className="mt-2 text-xs text-white/60">{localize(region.markets, locale)}</p>
                 </div>
               ))}
             </div>
@@ -163,10 +171,10 @@ export const Home = () => {
                     <Icon className="h-6 w-6 text-amber-300" />
                   </div>
                   <h3 className="mt-4 text-lg font-semibold text-white">
-                    {advantage.title?.[locale] || ''}
+                    {localize(advantage.title, locale)}
                   </h3>
                   <p className="mt-3 text-sm text-white/60">
-                    {advantage.description?.[locale] || ''}
+                    {localize(advantage.description, locale)}
                   </p>
                 </motion.div>
               )
@@ -194,7 +202,7 @@ export const Home = () => {
                     }
                     className="btn-ghost"
                   >
-                    <ChevronLeft className="h-4 w-4" />
+                    <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
                   </button>
                   <button
                     type="button"
@@ -203,7 +211,7 @@ export const Home = () => {
                     }
                     className="btn-ghost"
                   >
-                    <ChevronRight className="h-4 w-4" />
+                    <ChevronRight className="h-4 w-4 rtl:rotate-180" />
                   </button>
                 </div>
                 <motion.div
@@ -225,6 +233,12 @@ export const Home = () => {
         </div>
       </section>
 
+      {recentlyViewedIds.length > 0 && (
+        <section className="px-4 py-12 md:px-6">
+          <RecentlyViewed className="mx-auto max-w-6xl" />
+        </section>
+      )}
+
       <section className="px-4 py-12 md:px-6">
         <div className="mx-auto max-w-6xl">
           <div className="flex flex-col gap-3">
@@ -246,7 +260,7 @@ export const Home = () => {
                     key={region.id}
                     className="rounded-full border border-white/20 bg-slate-950/60 px-3 py-1"
                   >
-                    {region.name[locale]}
+                    {localize(region.name, locale)}
                   </span>
                 ))}
               </div>
@@ -1,20 +1,62 @@
 import { useEffect, useMemo, useState } from 'react'
-import { Link, useParams } from 'react-router-dom'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { X, ChevronLeft, ChevronRight } from 'lucide-react'
+import { X, ChevronLeft, ChevronRight, FileText } from 'lucide-react'
 import { useSiteData } from '../context/SiteDataContext'
 import { Seo } from '../components/common/Seo'
 import { ProductCard } from '../components/products/ProductCard'
-import { formatCurrency } from '../utils/format'
+import { AddToQuoteButton } from '../components/products/AddToQuoteButton'
+import { FavoriteToggle } from '../components/products/FavoriteToggle'
+import { RecentlyViewed } from '../components/products/RecentlyViewed'
+import { useCurrency } from '../hooks/useCurrency'
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed'
+import { useAnalytics } from '../hooks/useAnalytics'
+import { CurrencyDisclaimer } from '../components/common/CurrencyDisclaimer'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
+import { AvailabilityBadge } from '../components/products/AvailabilityBadge'
+import { formatCurrency, formatDate } from '../utils/format'
+import { buildOfferSchema, getPriceBreaks, hasPriceTiers } from '../utils/pricing'
+import { createLocalizedText, localize } from '../utils/localize'
+import { getVisibleProducts } from '../utils/translations'
+import { buildDatasheetPath } from '../utils/datasheet'
+import { getRelatedProducts, getSetupProducts } from '../utils/recommendations'
+import {
+  AVAILABILITY_LABEL_KEYS,
+  acceptsInquiries,
+  getAvailability,
+  getRestockDate,
+  getSchemaAvailability
+} from '../utils/inventory'
+import {
+  VARIANT_PARAM,
+  applyVariant,
+  getDefaultVariant,
+  getOptionValueState,
+  getVariant,
+  selectVariantOption
+} from '../utils/variants'
 import type { Locale } from '../types/site'
 
 export const ProductDetail = () => {
   const { productId } = useParams()
   const { siteData } = useSiteData()
   const { t, i18n } = useTranslation()
+  const { convert, formatPrice } = useCurrency()
+  const { addView } = useRecentlyViewed()
+  const { track } = useAnalytics()
   const locale = i18n.language as Locale
 
-  const product = siteData.products.find((item) => item.id === productId)
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const baseProduct = siteData.products.find((item) => item.id === productId)
+  const selectedVariant = baseProduct
+    ? (getVariant(baseProduct, searchParams.get(VARIANT_PARAM)) ?? getDefaultVariant(baseProduct))
+    : undefined
+  // 以下均使用合并了所选变体 SKU、价格、库存与图片的产品
+  const product = useMemo(
+    () => baseProduct && applyVariant(baseProduct, selectedVariant),
+    [baseProduct, selectedVariant]
+  )
   const [activeImage, setActiveImage] = useState(product?.mainImage ?? '')
   const [lightboxOpen, setLightboxOpen] = useState(false)
   const [lightboxImage, setLightboxImage] = useState('')
@@ -23,18 +65,35 @@ export const ProductDetail = () => {
     setActiveImage(product?.mainImage ?? '')
   }, [product])
 
+  // 同一次访问中切换变体不重复计数（见 getOncePerPageKey），记录的是进入页面时选中的变体
+  const viewedProductId = baseProduct?.id
+  const viewedVariantId = selectedVariant?.id
+  useEffect(() => {
+    if (!viewedProductId) return
+    addView(viewedProductId)
+    track('product_view', {
+      productId: viewedProductId,
+      ...(viewedVariantId ? { variantId: viewedVariantId } : {})
+    })
+  }, [addView, track, viewedProductId, viewedVariantId])
+
   useEffect(() => {
     if (!lightboxOpen || !product) return
 
+    // 从右到左布局中左右方向键的含义互换
+    const isRtl = document.documentElement.dir === 'rtl'
+    const previousKey = isRtl ? 'ArrowRight' : 'ArrowLeft'
+    const nextKey = isRtl ? 'ArrowLeft' : 'ArrowRight'
+
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         closeLightbox()
-      } else if (e.key === 'ArrowLeft') {
+      } else if (e.key === previousKey) {
         const images = product.images
         const currentIndex = images.indexOf(lightboxImage)
         const prevIndex = currentIndex > 0 ? currentIndex - 1 : images.length - 1
         setLightboxImage(images[prevIndex])
-      } else if (e.key === 'ArrowRight') {
+      } else if (e.key === nextKey) {
         const images = product.images
         const currentIndex = images.indexOf(lightboxImage)
         const nextIndex = currentIndex < images.length - 1 ? currentIndex + 1 : 0
@@ -54,6 +113,7 @@ export const ProductDetail = () => {
   const openLightbox = (image: string) => {
     setLightboxImage(image)
     setLightboxOpen(true)
+    if (product) track('lightbox_open', { productId: product.id, image })
   }
 
   const closeLightbox = () => {
@@ -73,34 +133,46 @@ export const ProductDetail = () => {
     }
   }
 
-  const relatedProducts = useMemo(() => {
-    if (!product) return []
-    return siteData.products
-      .filter((item) => item.categoryId === product.categoryId && item.id !== product.id)
-      .slice(0, 3)
-  }, [product, siteData.products])
+  const handleSelectOption = (optionId: string, valueId: string) => {
+    if (!baseProduct || !selectedVariant) return
+    const variant = selectVariantOption(baseProduct, selectedVariant.options, optionId, valueId)
+    if (!variant) return
+    setSearchParams(
+      (previous) => {
+        const next = new URLSearchParams(previous)
+        next.set(VARIANT_PARAM, variant.id)
+        return next
+      },
+      { replace: true, preventScrollReset: true }
+    )
+  }
+
+  const { relatedProducts, setupProducts } = useMemo(() => {
+    if (!baseProduct) return { relatedProducts: [], setupProducts: [] }
+    const visibleProducts = getVisibleProducts(siteData, locale)
+    return {
+      relatedProducts: getRelatedProducts(baseProduct, visibleProducts, siteData.exchangeRates),
+      setupProducts: getSetupProducts(baseProduct, visibleProducts)
+    }
+  }, [baseProduct, locale, siteData])
 
   const productSchema = product
     ? {
         '@context': 'https://schema.org',
         '@type': 'Product',
-        name: product?.name?.[locale] || '',
-        description: product?.description?.[locale] || '',
+        name: localize(product?.name, locale),
+        description: localize(product?.description, locale),
         sku: product?.sku || '',
         image: product?.images || [],
         brand: {
           '@type': 'Brand',
-          name: siteData?.settings?.siteName?.[locale] || ''
+          name: localize(siteData?.settings?.siteName, locale)
         },
-        offers: {
-          '@type': 'Offer',
-          priceCurrency: product?.price?.currency || 'USD',
-          price: product?.price?.amount || 0,
-          availability:
-            product?.stockStatus === 'in_stock'
-              ? 'https://schema.org/InStock'
-              : 'https://schema.org/OutOfStock'
-        }
+        offers: buildOfferSchema(
+          product,
+          getSchemaAvailability(getAvailability(product)),
+          localize(product?.price?.unit, locale)
+        )
       }
     : undefined
 
@@ -114,12 +186,17 @@ export const ProductDetail = () => {
     )
   }
 
+  const availability = getAvailability(product)
+  const canInquire = acceptsInquiries(availability)
+  const restockDate = getRestockDate(product)
+
   return (
     <>
       <Seo
-        title={product.seo?.title || { en: '', zh: '' }}
-        description={product.seo?.description || { en: '', zh: '' }}
+        title={product.seo?.title || createLocalizedText(siteData.locales)}
+        description={product.seo?.description || createLocalizedText(siteData.locales)}
         structuredData={productSchema}
+        noindex={product.noindex}
       />
       <section className="px-4 py-12 md:px-6">
         <div className="mx-auto grid max-w-6xl gap-8 lg:grid-cols-[1.6fr_1fr]">
@@ -134,11 +211,12 @@ export const ProductDetail = () => {
                   onClick={() => openLightbox(activeImage)}
                   className="block w-full cursor-zoom-in transition-opacity hover:opacity-90"
                 >
-                <img
-                  src={activeImage}
-                    alt={product.name?.[locale] || ''}
-                  className="h-80 w-full object-cover"
-                />
+                  <ResponsiveImage
+                    src={activeImage}
+                    alt={localize(product.name, locale)}
+                    sizes="(min-width: 1024px) 42rem, 100vw"
+                    className="h-80 w-full object-cover"
+                  />
                 </button>
               </div>
               <div className="mt-4 grid grid-cols-3 gap-3 sm:grid-cols-4">
@@ -151,35 +229,138 @@ export const ProductDetail = () => {
                       activeImage === image ? 'border-amber-300' : 'border-white/10'
                     }`}
                   >
-                    <img src={image} alt="" className="h-20 w-full object-cover" loading="lazy" />
+                    <ResponsiveImage
+                      src={image}
+                      alt=""
+                      sizes="(min-width: 640px) 10rem, 33vw"
+                      className="h-20 w-full object-cover"
+                      loading="lazy"
+                    />
                   </button>
                 ))}
               </div>
             </div>
 
             <div className="rounded-3xl border border-white/10 bg-slate-950/60 p-6">
-              <h1 className="text-2xl font-semibold text-white">{product.name?.[locale] || ''}</h1>
-              <p className="mt-3 text-sm text-white/60">{product.description?.[locale] || ''}</p>
+              <div className="flex items-start justify-between gap-3">
+                <h1 className="text-2xl font-semibold text-white">{localize(product.name, locale)}</h1>
+                <FavoriteToggle productId={product.id} />
+              </div>
+              <p className="mt-3 text-sm text-white/60">{localize(product.description, locale)}</p>
+              {selectedVariant && (
+                <div className="mt-6 space-y-4">
+                  {product.options?.map((option) => (
+                    <div key={option.id}>
+                      <p className="text-xs uppercase tracking-widest text-white/40">
+                        {localize(option.name, locale)}
+                      </p>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {option.values.map((value) => {
+                          const selected = selectedVariant.options[option.id] === value.id
+                          const state = getOptionValueState(product, selectedVariant.options, option.id, value.id)
+                          return (
+                            <button
+                              key={value.id}
+                              type="button"
+                              onClick={() => handleSelectOption(option.id, value.id)}
+                              aria-pressed={selected}
+                              title={state === 'available' ? undefined : t(`productDetail.variantStates.${state}`)}
+                              className={`rounded-full border px-4 py-1.5 text-sm transition ${
+                                selected
+                                  ? 'border-amber-300 bg-amber-300/10 text-amber-200'
+                                  : 'border-white/15 text-white/70 hover:border-amber-300/60'
+                              } ${state === 'available' ? '' : 'opacity-50'} ${state === 'unavailable' ? 'line-through' : ''}`}
+                            >
+                              {localize(value.label, locale)}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  <p className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-white/50">
+                    <span>
+                      {t('productDetail.sku')}: <span className="font-mono text-white/70">{product.sku}</span>
+                    </span>
+                    <span className={canInquire ? 'text-emerald-300' : 'text-rose-300'}>
+                      {t(AVAILABILITY_LABEL_KEYS[availability])}
+                    </span>
+                  </p>
+                </div>
+              )}
               <div className="mt-6 grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-sm">
                 <div className="flex justify-between text-white/70">
                   <span>{t('productDetail.price')}</span>
-                  <span className="text-amber-300">
-                    {formatCurrency(product.price?.amount || 0, product.price?.currency || 'USD', locale)}
+                  <span className="text-end text-amber-300">
+                    {formatPrice(product.price?.amount || 0, product.price?.currency || 'USD', locale)}
+                    {convert(product.price?.amount || 0, product.price?.currency || 'USD').approximate && (
+                      <span className="block text-xs text-white/40">
+                        {formatCurrency(product.price?.amount || 0, product.price?.currency || 'USD', locale)}
+                      </span>
+                    )}
                   </span>
                 </div>
                 <div className="flex justify-between text-white/70">
                   <span>{t('productDetail.unit')}</span>
-                  <span>{product.price?.unit?.[locale] || ''}</span>
+                  <span>{localize(product.price?.unit, locale)}</span>
                 </div>
                 <div className="flex justify-between text-white/70">
                   <span>{t('productDetail.moq')}</span>
                   <span>{product.price?.moq || 0}</span>
                 </div>
+                <div className="flex justify-between gap-4 text-white/70">
+                  <span>{t('productDetail.availability')}</span>
+                  <span className="flex flex-col items-end gap-1 text-end">
+                    <AvailabilityBadge availability={availability} />
+                    {availability === 'low_stock' && (
+                      <span className="text-xs text-amber-200">
+                        {t('productDetail.lowStock', { count: product.inventory?.quantity ?? 0 })}
+                      </span>
+                    )}
+                    {restockDate && (
+                      <span className="text-xs text-violet-200">
+                        {t('products.restockDate', { date: formatDate(restockDate, locale) })}
+                      </span>
+                    )}
+                  </span>
+                </div>
                 <div className="flex justify-between text-white/70">
                   <span>{t('productDetail.leadTime')}</span>
-                  <span>{product.leadTime?.[locale] || ''}</span>
+                  <span>{localize(product.leadTime, locale)}</span>
                 </div>
               </div>
+              {hasPriceTiers(product) && (
+                <div className="mt-4 overflow-hidden rounded-2xl border border-white/10">
+                  <p className="bg-white/5 px-4 py-2 text-xs uppercase tracking-widest text-white/40">
+                    {t('productDetail.priceBreaks')}
+                  </p>
+                  <table className="w-full text-sm text-white/70">
+                    <thead className="text-xs text-white/40">
+                      <tr>
+                        <th className="px-4 py-2 text-start font-normal">{t('productDetail.quantity')}</th>
+                        <th className="px-4 py-2 text-end font-normal">
+                          {t('productDetail.unitPrice')} / {localize(product.price?.unit, locale)}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {getPriceBreaks(product).map((tier, index, breaks) => (
+                        <tr key={tier.minQuantity} className="border-t border-white/5">
+                          <td className="px-4 py-2">
+                            {breaks[index + 1]
+                              ? `${tier.minQuantity} – ${breaks[index + 1].minQuantity - 1}`
+                              : `${tier.minQuantity}+`}
+                          </td>
+                          <td className="px-4 py-2 text-end text-amber-300">
+                            {formatPrice(tier.amount, product.price?.currency || 'USD', locale)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <CurrencyDisclaimer sourceCurrencies={[product.price?.currency || 'USD']} className="mt-3" />
             </div>
 
             <div className="grid gap-6 lg:grid-cols-2">
@@ -191,7 +372,7 @@ export const ProductDetail = () => {
                   {product.features?.map((feature, index) => (
                     <li key={`${feature?.en || index}-${index}`} className="flex gap-2">
                       <span className="mt-1 h-2 w-2 rounded-full bg-amber-300" />
-                      <span>{feature?.[locale] || ''}</span>
+                      <span>{localize(feature, locale)}</span>
                     </li>
                   ))}
                 </ul>
@@ -223,13 +404,25 @@ export const ProductDetail = () => {
                     key={spec?.label?.en || index}
                     className="flex items-center justify-between rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-white/70"
                   >
-                    <span>{spec?.label?.[locale] || ''}</span>
-                    <span>{spec?.value?.[locale] || ''}</span>
+                    <span>{localize(spec?.label, locale)}</span>
+                    <span>{localize(spec?.value, locale)}</span>
                   </div>
                 ))}
               </div>
             </div>
 
+            {setupProducts.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold text-white">{t('productDetail.setupTitle')}</h2>
+                <p className="mt-1 text-sm text-white/50">{t('productDetail.setupSubtitle')}</p>
+                <div className="mt-4 grid gap-6 md:grid-cols-2">
+                  {setupProducts.map((accessory) => (
+                    <ProductCard key={accessory.id} product={accessory} />
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <h2 className="text-lg font-semibold text-white">
                 {t('productDetail.relatedTitle')}
@@ -243,6 +436,8 @@ export const ProductDetail = () => {
                 <p className="mt-4 text-sm text-white/50">{t('products.empty')}</p>
               )}
             </div>
+
+            <RecentlyViewed excludeId={product.id} />
           </div>
 
           <aside className="h-fit rounded-3xl border border-white/10 bg-slate-950/70 p-6 lg:sticky lg:top-28">
@@ -250,8 +445,24 @@ export const ProductDetail = () => {
             <p className="mt-2 text-sm text-white/60">{t('productDetail.inquirySubtitle')}</p>
             <div className="mt-6 space-y-3 text-sm text-white/70">
               <p>{t('contact.formSubtitle')}</p>
-              <Link to="/contact" className="btn-primary w-full">
-                {t('actions.learnMore')}
+              <AddToQuoteButton productId={product.id} variantId={selectedVariant?.id} disabled={!canInquire} />
+              {canInquire ? (
+                <Link
+                  to={`/contact?product=${product.id}${
+                    selectedVariant ? `&${VARIANT_PARAM}=${encodeURIComponent(selectedVariant.id)}` : ''
+                  }`}
+                  className="btn-primary w-full"
+                >
+                  {t('actions.requestQuote')}
+                </Link>
+              ) : (
+                <p className="rounded-2xl border border-rose-400/30 bg-rose-400/10 px-4 py-3 text-xs text-rose-200">
+                  {t('productDetail.noInquiries')}
+                </p>
+              )}
+              <Link to={buildDatasheetPath(product.id, selectedVariant?.id)} className="btn-ghost w-full gap-2">
+                <FileText className="h-4 w-4" />
+                {t('productDetail.datasheet')}
               </Link>
             </div>
           </aside>
@@ -267,7 +478,7 @@ export const ProductDetail = () => {
           <button
             type="button"
             onClick={closeLightbox}
-            className="absolute right-4 top-4 z-10 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
+            className="absolute end-4 top-4 z-10 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
             aria-label="关闭"
           >
             <X className="h-6 w-6" />
@@ -280,10 +491,10 @@ export const ProductDetail = () => {
                   e.stopPropagation()
                   navigateImage('prev')
                 }}
-                className="absolute left-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
+                className="absolute start-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
                 aria-label="上一张"
               >
-                <ChevronLeft className="h-6 w-6" />
+                <ChevronLeft className="h-6 w-6 rtl:rotate-180" />
               </button>
               <button
                 type="button"
@@ -291,10 +502,10 @@ export const ProductDetail = () => {
                   e.stopPropagation()
                   navigateImage('next')
                 }}
-                className="absolute right-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
+                className="absolute end-4 top-1/2 z-10 -translate-y-1/2 rounded-full bg-white/10 p-2 text-white transition hover:bg-white/20"
                 aria-label="下一张"
               >
-                <ChevronRight className="h-6 w-6" />
+                <ChevronRight className="h-6 w-6 rtl:rotate-180" />
               </button>
             </>
           )}
@@ -302,9 +513,10 @@ export const ProductDetail = () => {
             className="relative max-h-[90vh] max-w-[90vw]"
             onClick={(e) => e.stopPropagation()}
           >
-            <img
+            <ResponsiveImage
               src={lightboxImage}
-              alt={product.name[locale]}
+              alt={localize(product.name, locale)}
+              sizes="90vw"
               className="max-h-[90vh] max-w-[90vw] object-contain"
             />
           </div>
@@ -1,84 +1,127 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { Search } from 'lucide-react'
+import { Search, SlidersHorizontal } from 'lucide-react'
 import { useSiteData } from '../context/SiteDataContext'
+import { useAnalytics } from '../hooks/useAnalytics'
 import { ProductCard } from '../components/products/ProductCard'
 import { Seo } from '../components/common/Seo'
-import type { Locale } from '../types/site'
+import { CurrencyDisclaimer } from '../components/common/CurrencyDisclaimer'
+import { FacetDrawer, FacetSidebar } from '../components/products/FacetSidebar'
+import { useCurrency } from '../hooks/useCurrency'
+import { getLowestUnitPrice } from '../utils/pricing'
+import { createLocalizedText, localize } from '../utils/localize'
+import { getVisibleProducts } from '../utils/translations'
+import { buildSearchIndex, loadPinyinConverter, searchProducts } from '../utils/search'
+import { convertAmount } from '../utils/currency'
+import {
+  buildFacetIndex,
+  countSelectedFacets,
+  filterByFacets,
+  getFacetCounts,
+  pruneFacetSelection,
+  toggleFacetValue
+} from '../utils/facets'
+import { PRICE_CURRENCY_PARAM, parseCatalogFilters, writeCatalogFilters } from '../utils/catalogFilters'
+import { AVAILABILITIES, AVAILABILITY_LABEL_KEYS, matchesStockFilter } from '../utils/inventory'
+import { getProductAvailability } from '../utils/variants'
+import type { PinyinConverter } from '../utils/search'
+import type { CatalogFilters, CatalogSort } from '../utils/catalogFilters'
+import type { Locale, Product } from '../types/site'
 
 const PAGE_SIZE = 9
 
+const UNTRACKED_FILTER_KEYS = ['search', 'page', 'facets']
+
 export const Products = () => {
   const { siteData, isLoading } = useSiteData()
+  const { track } = useAnalytics()
   const { t, i18n } = useTranslation()
+  const { currency, convert } = useCurrency()
   const locale = i18n.language as Locale
+  const products = useMemo(() => getVisibleProducts(siteData, locale), [locale, siteData])
+  const [toPinyin, setToPinyin] = useState<PinyinConverter>()
+  const [facetDrawerOpen, setFacetDrawerOpen] = useState(false)
+  const closeFacetDrawer = useCallback(() => setFacetDrawerOpen(false), [])
+  const searchIndex = useMemo(
+    () => buildSearchIndex(products, siteData.categories, toPinyin),
+    [products, siteData.categories, toPinyin]
+  )
+
+  // 拼音词典加载完成后重建索引，此前仍可按原文搜索
+  useEffect(() => {
+    void loadPinyinConverter().then((converter) => setToPinyin(() => converter))
+  }, [])
+
+  // 混合币种目录统一换算为当前展示币种后再筛选、排序
+  const getComparablePrice = useCallback(
+    (product: Product) => convert(getLowestUnitPrice(product), product.price.currency).amount,
+    [convert]
+  )
 
   // 所有 Hooks 必须在条件返回之前调用
-  const [search, setSearch] = useState('')
-  const [categoryId, setCategoryId] = useState('all')
-  const [subcategoryId, setSubcategoryId] = useState('all')
-  const [stockStatus, setStockStatus] = useState('all')
-  const [sortBy, setSortBy] = useState('latest')
-  const [page, setPage] = useState(1)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams])
+  const { search, stockStatus, sortBy } = filters
+
+  // 链接中已不存在的分类视为全部
+  const categories = siteData.categories
+  const { categoryId, subcategoryId, subcategories } = useMemo(() => {
+    const selectedCategory = categories.find((category) => category.id === filters.categoryId)
+    const options = selectedCategory
+      ? selectedCategory.subcategories || []
+      : categories.flatMap((category) => category.subcategories || [])
+    return {
+      categoryId: selectedCategory ? selectedCategory.id : 'all',
+      subcategoryId: options.some((subcategory) => subcategory.id === filters.subcategoryId)
+        ? filters.subcategoryId
+        : 'all',
+      subcategories: options
+    }
+  }, [categories, filters.categoryId, filters.subcategoryId])
+
+  const searchResults = useMemo(
+    () => new Map(searchProducts(searchIndex, search).map((result) => [result.product.id, result])),
+    [search, searchIndex]
+  )
 
   // 计算价格范围（需要处理加载状态）
   const priceRange = useMemo(() => {
-    if (isLoading || !siteData.products || siteData.products.length === 0) {
+    if (isLoading || !products || products.length === 0) {
       return { min: 0, max: 1000 }
     }
-    const prices = siteData.products.map((product) => product.price.amount)
+    const prices = products.map(getComparablePrice)
     return {
-      min: Math.min(...prices),
-      max: Math.max(...prices)
-    }
-  }, [siteData.products, isLoading])
-
-  const [minPrice, setMinPrice] = useState(0)
-  const [maxPrice, setMaxPrice] = useState(1000)
-
-  useEffect(() => {
-    if (!isLoading && siteData.products && siteData.products.length > 0) {
-    setMinPrice(priceRange.min)
-    setMaxPrice(priceRange.max)
+      min: Math.floor(Math.min(...prices)),
+      max: Math.ceil(Math.max(...prices))
     }
-  }, [priceRange.min, priceRange.max, isLoading, siteData.products])
+  }, [getComparablePrice, products, isLoading])
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="flex flex-col items-center gap-4">
-          <div className="h-12 w-12 border-4 border-amber-300/30 border-t-amber-300 rounded-full animate-spin" />
-          <p className="text-sm text-white/60">{t('misc.loading')}</p>
-        </div>
-      </div>
-    )
-  }
+  // 链接中的价格区间按其记录的币种换算为当前展示币种
+  const priceCurrency = searchParams.get(PRICE_CURRENCY_PARAM)
+  const fromLinkCurrency = (amount: number) =>
+    priceCurrency && currency && priceCurrency !== currency
+      ? convertAmount(amount, priceCurrency, currency, siteData.exchangeRates) ?? amount
+      : amount
+  const minPrice = filters.minPrice === undefined ? priceRange.min : Math.floor(fromLinkCurrency(filters.minPrice))
+  const maxPrice = filters.maxPrice === undefined ? priceRange.max : Math.ceil(fromLinkCurrency(filters.maxPrice))
 
-  const categories = siteData.categories || []
-  const subcategories =
-    categoryId === 'all'
-      ? categories.flatMap((category) => category.subcategories || [])
-      : categories.find((category) => category.id === categoryId)?.subcategories ?? []
+  const facetIndex = useMemo(() => buildFacetIndex(products), [products])
+  const facetSelection = useMemo(() => pruneFacetSelection(facetIndex, filters.facets), [facetIndex, filters.facets])
 
-  const filteredProducts = useMemo(() => {
-    const keyword = search.trim().toLowerCase()
-    let result = (siteData.products || []).filter((product) => {
-      const matchesKeyword =
-        !keyword ||
-        product.name?.en?.toLowerCase().includes(keyword) ||
-        product.name?.zh?.toLowerCase().includes(keyword) ||
-        product.sku?.toLowerCase().includes(keyword) ||
-        product.description?.en?.toLowerCase().includes(keyword) ||
-        product.description?.zh?.toLowerCase().includes(keyword)
+  // 先应用分面以外的条件，分面计数在此基础上随其他勾选实时变化
+  const baseProducts = useMemo(() => {
+    const keyword = search.trim()
+    return (products || []).filter((product) => {
+      const matchesKeyword = !keyword || searchResults.has(product.id)
 
       const matchesCategory =
         categoryId === 'all' || product.categoryId === categoryId
       const matchesSubcategory =
         subcategoryId === 'all' || product.subcategoryId === subcategoryId
-      const matchesStock =
-        stockStatus === 'all' || product.stockStatus === stockStatus
-      const matchesPrice =
-        (product.price?.amount || 0) >= minPrice && (product.price?.amount || 0) <= maxPrice
+      const matchesStock = matchesStockFilter(getProductAvailability(product), stockStatus)
+      const price = getComparablePrice(product)
+      const matchesPrice = price >= minPrice && price <= maxPrice
 
       return (
         matchesKeyword &&
@@ -88,28 +131,102 @@ export const Products = () => {
         matchesPrice
       )
     })
+  }, [
+    categoryId,
+    getComparablePrice,
+    maxPrice,
+    minPrice,
+    search,
+    searchResults,
+    products,
+    stockStatus,
+    subcategoryId
+  ])
 
-    result = [...result].sort((a, b) => {
-      if (sortBy === 'latest') return (b.createdAt || '').localeCompare(a.createdAt || '')
-      if (sortBy === 'nameAsc') return (a.name?.[locale] || '').localeCompare(b.name?.[locale] || '')
-      if (sortBy === 'priceAsc') return (a.price?.amount || 0) - (b.price?.amount || 0)
-      if (sortBy === 'priceDesc') return (b.price?.amount || 0) - (a.price?.amount || 0)
+  const facets = useMemo(
+    () => getFacetCounts(baseProducts, facetIndex, facetSelection),
+    [baseProducts, facetIndex, facetSelection]
+  )
+
+  const filteredProducts = useMemo(() => {
+    const keyword = search.trim()
+    return filterByFacets(baseProducts, facetIndex, facetSelection).sort((a, b) => {
+      // 无关键词时按相关度排序等同于最新
+      if (sortBy === 'relevance' && keyword) {
+        return (searchResults.get(b.id)?.score ?? 0) - (searchResults.get(a.id)?.score ?? 0)
+      }
+      if (sortBy === 'latest' || sortBy === 'relevance') return (b.createdAt || '').localeCompare(a.createdAt || '')
+      if (sortBy === 'nameAsc') return localize(a.name, locale).localeCompare(localize(b.name, locale))
+      if (sortBy === 'priceAsc') return getComparablePrice(a) - getComparablePrice(b)
+      if (sortBy === 'priceDesc') return getComparablePrice(b) - getComparablePrice(a)
       return 0
     })
+  }, [baseProducts, facetIndex, facetSelection, getComparablePrice, locale, search, searchResults, sortBy])
 
-    return result
-  }, [categoryId, locale, maxPrice, minPrice, search, siteData.products, sortBy, stockStatus, subcategoryId])
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="flex flex-col items-center gap-4">
+          <div className="h-12 w-12 border-4 border-amber-300/30 border-t-amber-300 rounded-full animate-spin" />
+          <p className="text-sm text-white/60">{t('misc.loading')}</p>
+        </div>
+      </div>
+    )
+  }
 
   const totalPages = Math.max(1, Math.ceil(filteredProducts.length / PAGE_SIZE))
+  const page = Math.min(filters.page, totalPages)
   const pageProducts = filteredProducts.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
 
-  const resetPage = () => setPage(1)
+  // 筛选条件变化时回到第一页；连续输入（搜索词、价格）替换当前历史记录，其余操作新增一条
+  const updateFilters = (patch: Partial<CatalogFilters>, replace = false) => {
+    // 连续输入只在开始时统计一次；搜索词与翻页不算筛选，分面在切换时单独统计
+    if (!replace) {
+      Object.entries(patch)
+        .filter(([key]) => !UNTRACKED_FILTER_KEYS.includes(key))
+        .forEach(([key, value]) => track('filter_change', { filter: key, value: String(value ?? '') }))
+    }
+    setSearchParams(
+      (previous) => {
+        const next = writeCatalogFilters(previous, { ...filters, page: 1, ...patch })
+        if (('minPrice' in patch || 'maxPrice' in patch) && currency) {
+          next.set(PRICE_CURRENCY_PARAM, currency)
+        }
+        return next
+      },
+      { replace }
+    )
+  }
+
+  const selectedFacetCount = countSelectedFacets(facetSelection)
+  const facetProps = {
+    facets,
+    selection: facetSelection,
+    onToggle: (id: string, value: string) => {
+      track('filter_change', { filter: `facet:${id}`, value })
+      updateFilters({ facets: toggleFacetValue(facetSelection, id, value) })
+    },
+    onClear: () => updateFilters({ facets: {} })
+  }
+
+  // 与价格上下限相同的取值视为未设置，不写入链接
+  const updatePrice = (key: 'minPrice' | 'maxPrice', value: number) => {
+    const bound = key === 'minPrice' ? priceRange.min : priceRange.max
+    updateFilters(
+      {
+        minPrice: filters.minPrice === undefined ? undefined : minPrice,
+        maxPrice: filters.maxPrice === undefined ? undefined : maxPrice,
+        [key]: value === bound ? undefined : value
+      },
+      filters[key] !== undefined
+    )
+  }
 
   return (
     <>
       <Seo
-        title={siteData.seo?.pages?.products?.title || { en: '', zh: '' }}
-        description={siteData.seo?.pages?.products?.description || { en: '', zh: '' }}
+        title={siteData.seo?.pages?.products?.title || createLocalizedText(siteData.locales)}
+        description={siteData.seo?.pages?.products?.description || createLocalizedText(siteData.locales)}
       />
       <section className="px-4 py-12 md:px-6">
         <div className="mx-auto max-w-6xl">
@@ -123,10 +240,7 @@ export const Products = () => {
               <Search className="h-4 w-4" />
               <input
                 value={search}
-                onChange={(event) => {
-                  setSearch(event.target.value)
-                  resetPage()
-                }}
+                onChange={(event) => updateFilters({ search: event.target.value }, Boolean(search))}
                 placeholder={t('products.searchPlaceholder')}
                 className="w-full bg-transparent text-sm text-white outline-none placeholder:text-white/40"
               />
@@ -134,33 +248,26 @@ export const Products = () => {
 
             <select
               value={categoryId}
-              onChange={(event) => {
-                setCategoryId(event.target.value)
-                setSubcategoryId('all')
-                resetPage()
-              }}
+              onChange={(event) => updateFilters({ categoryId: event.target.value, subcategoryId: 'all' })}
               className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white"
             >
               <option value="all">{t('products.filter.all')}</option>
               {categories?.map((category) => (
                 <option key={category.id} value={category.id}>
-                  {category.name?.[locale] || ''}
+                  {localize(category.name, locale)}
                 </option>
               ))}
             </select>
 
             <select
               value={subcategoryId}
-              onChange={(event) => {
-                setSubcategoryId(event.target.value)
-                resetPage()
-              }}
+              onChange={(event) => updateFilters({ subcategoryId: event.target.value })}
               className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white"
             >
               <option value="all">{t('products.filter.all')}</option>
               {subcategories?.map((subcategory) => (
                 <option key={subcategory.id} value={subcategory.id}>
-                  {subcategory.name?.[locale] || ''}
+                  {localize(subcategory.name, locale)}
                 </option>
               ))}
             </select>
@@ -169,7 +276,7 @@ export const Products = () => {
               <div className="flex items-center justify-between text-xs text-white/50">
                 <span>{t('products.filter.priceRange')}</span>
                 <span>
-                  {minPrice} - {maxPrice} {siteData.products[0]?.price.currency}
+                  {minPrice} - {maxPrice} {currency ?? products[0]?.price.currency}
                 </span>
               </div>
               <div className="flex items-center gap-3">
@@ -178,10 +285,7 @@ export const Products = () => {
                   min={priceRange.min}
                   max={priceRange.max}
                   value={minPrice}
-                  onChange={(event) => {
-                    setMinPrice(Number(event.target.value))
-                    resetPage()
-                  }}
+                  onChange={(event) => updatePrice('minPrice', Number(event.target.value))}
                   className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white/70"
                 />
                 <input
@@ -189,36 +293,32 @@ export const Products = () => {
                   min={priceRange.min}
                   max={priceRange.max}
                   value={maxPrice}
-                  onChange={(event) => {
-                    setMaxPrice(Number(event.target.value))
-                    resetPage()
-                  }}
+                  onChange={(event) => updatePrice('maxPrice', Number(event.target.value))}
                   className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white/70"
                 />
               </div>
+              <CurrencyDisclaimer sourceCurrencies={products.map((product) => product.price.currency)} />
             </div>
 
             <select
               value={stockStatus}
-              onChange={(event) => {
-                setStockStatus(event.target.value)
-                resetPage()
-              }}
+              onChange={(event) => updateFilters({ stockStatus: event.target.value })}
               className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white"
             >
               <option value="all">{t('products.filter.all')}</option>
-              <option value="in_stock">{t('products.badge.inStock')}</option>
-              <option value="out_of_stock">{t('products.badge.outOfStock')}</option>
+              {AVAILABILITIES.map((availability) => (
+                <option key={availability} value={availability}>
+                  {t(AVAILABILITY_LABEL_KEYS[availability])}
+                </option>
+              ))}
             </select>
 
             <select
               value={sortBy}
-              onChange={(event) => {
-                setSortBy(event.target.value)
-                resetPage()
-              }}
+              onChange={(event) => updateFilters({ sortBy: event.target.value as CatalogSort })}
               className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white"
             >
+              <option value="relevance">{t('products.sort.relevance')}</option>
               <option value="latest">{t('products.sort.latest')}</option>
               <option value="nameAsc">{t('products.sort.nameAsc')}</option>
               <option value="priceAsc">{t('products.sort.priceAsc')}</option>
@@ -226,39 +326,69 @@ export const Products = () => {
             </select>
           </div>
 
-          <div className="mt-8 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {pageProducts.length > 0 ? (
-              pageProducts.map((product) => <ProductCard key={product.id} product={product} />)
-            ) : (
-              <div className="col-span-full rounded-3xl border border-white/10 bg-slate-950/50 p-10 text-center text-white/60">
-                {t('products.empty')}
+          <div className={`mt-8 grid gap-6 ${facets.length > 0 ? 'lg:grid-cols-[16rem_1fr]' : ''}`}>
+            {facets.length > 0 && <FacetSidebar {...facetProps} />}
+            <div>
+              {facets.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setFacetDrawerOpen(true)}
+                  className="btn-ghost mb-6 gap-2 lg:hidden"
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                  {t('products.facets.open')}
+                  {selectedFacetCount > 0 && (
+                    <span className="rounded-full bg-amber-300 px-2 text-xs text-slate-950">{selectedFacetCount}</span>
+                  )}
+                </button>
+              )}
+              <div className={`grid gap-6 md:grid-cols-2 ${facets.length > 0 ? 'xl:grid-cols-3' : 'lg:grid-cols-3'}`}>
+                {pageProducts.length > 0 ? (
+                  pageProducts.map((product) => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      highlights={searchResults.get(product.id)?.matches}
+                    />
+                  ))
+                ) : (
+                  <div className="col-span-full rounded-3xl border border-white/10 bg-slate-950/50 p-10 text-center text-white/60">
+                    {t('products.empty')}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          <div className="mt-10 flex flex-wrap items-center justify-between gap-4 text-sm text-white/60">
-            <span>{t('products.pagination.page', { page, total: totalPages })}</span>
-            <div className="flex items-center gap-2">
-              <button
-                type="button"
-                disabled={page === 1}
-                onClick={() => setPage((prev) => Math.max(1, prev - 1))}
-                className="btn-ghost disabled:opacity-40"
-              >
-                {t('products.pagination.prev')}
-              </button>
-              <button
-                type="button"
-                disabled={page === totalPages}
-                onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
-                className="btn-ghost disabled:opacity-40"
-              >
-                {t('products.pagination.next')}
-              </button>
+              <div className="mt-10 flex flex-wrap items-center justify-between gap-4 text-sm text-white/60">
+                <span>{t('products.pagination.page', { page, total: totalPages })}</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    disabled={page === 1}
+                    onClick={() => updateFilters({ page: Math.max(1, page - 1) })}
+                    className="btn-ghost disabled:opacity-40"
+                  >
+                    {t('products.pagination.prev')}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={page === totalPages}
+                    onClick={() => updateFilters({ page: Math.min(totalPages, page + 1) })}
+                    className="btn-ghost disabled:opacity-40"
+                  >
+                    {t('products.pagination.next')}
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
         </div>
       </section>
+      <FacetDrawer
+        {...facetProps}
+        open={facetDrawerOpen}
+        resultCount={filteredProducts.length}
+        onClose={closeFacetDrawer}
+      />
     </>
   )
 }
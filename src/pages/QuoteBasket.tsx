@@ -0,0 +1,172 @@
+import { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Trash2 } from 'lucide-react'
+import { useSiteData } from '../context/SiteDataContext'
+import { useQuoteBasket } from '../hooks/useQuoteBasket'
+import { Seo } from '../components/common/Seo'
+import { InquiryForm } from '../components/contact/InquiryForm'
+import { ResponsiveImage } from '../components/common/ResponsiveImage'
+import { formatCurrency } from '../utils/format'
+import { getMinimumQuantity, getQuoteLineKey, getQuoteTotals, resolveQuoteLines, toInquiryItems } from '../utils/quote'
+import { buildVariantPath, getVariantLabel } from '../utils/variants'
+import { AVAILABILITY_LABEL_KEYS, getAvailability } from '../utils/inventory'
+import { createLocalizedText, localize } from '../utils/localize'
+import type { Locale } from '../types/site'
+
+export const QuoteBasket = () => {
+  const { siteData } = useSiteData()
+  const { lines, updateQuantity, removeItem, clear } = useQuoteBasket()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+
+  const resolvedLines = useMemo(
+    () => resolveQuoteLines(lines, siteData.products),
+    [lines, siteData.products]
+  )
+  const totals = getQuoteTotals(resolvedLines)
+  const hasBelowMoq = resolvedLines.some((line) => line.belowMoq)
+  const hasUnavailable = resolvedLines.some((line) => line.unavailable)
+  const hasInvalidLine = hasBelowMoq || hasUnavailable
+
+  return (
+    <>
+      <Seo
+        title={siteData.settings?.seoDefaults?.title || createLocalizedText(siteData.locales)}
+        description={siteData.settings?.seoDefaults?.description || createLocalizedText(siteData.locales)}
+      />
+      <section className="px-4 py-12 md:px-6">
+        <div className="mx-auto max-w-6xl">
+          <div className="flex flex-col gap-3">
+            <h1 className="section-title">{t('quote.title')}</h1>
+            <p className="section-subtitle">{t('quote.subtitle')}</p>
+          </div>
+
+          {resolvedLines.length === 0 ? (
+            <div className="mt-8 rounded-3xl border border-white/10 bg-slate-950/50 p-10 text-center text-white/60">
+              <p>{t('quote.empty')}</p>
+              <Link to="/products" className="btn-primary mt-6">
+                {t('actions.viewCatalog')}
+              </Link>
+            </div>
+          ) : (
+            <div className="mt-8 grid gap-8 lg:grid-cols-[1.4fr_1fr]">
+              <div className="space-y-4">
+                {resolvedLines.map((line) => {
+                  const minimum = getMinimumQuantity(line.product)
+                  const lineKey = getQuoteLineKey(line)
+                  return (
+                    <div
+                      key={lineKey}
+                      className="flex gap-4 rounded-3xl border border-white/10 bg-slate-950/60 p-4"
+                    >
+                      <ResponsiveImage
+                        src={line.product.mainImage}
+                        sizes="80px"
+                        alt={localize(line.product.name, locale)}
+                        className="h-20 w-20 shrink-0 rounded-2xl object-cover"
+                        loading="lazy"
+                      />
+                      <div className="flex flex-1 flex-col gap-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <Link
+                              to={buildVariantPath(line.productId, line.variantId)}
+                              className="text-sm font-semibold text-white hover:text-amber-300"
+                            >
+                              {localize(line.product.name, locale)}
+                            </Link>
+                            {line.variant && (
+                              <p className="text-xs text-white/60">{getVariantLabel(line.product, line.variant, locale)}</p>
+                            )}
+                            <p className="font-mono text-xs text-white/40">{line.product.sku}</p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeItem(lineKey)}
+                            className="rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                            aria-label={t('actions.delete')}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap items-end justify-between gap-3 text-sm text-white/70">
+                          <label className="text-xs text-white/50">
+                            <span className="block">
+                              {t('contact.fields.quantity')} ({t('productDetail.moq')} {minimum})
+                            </span>
+                            <input
+                              type="number"
+                              min={minimum}
+                              step={1}
+                              value={line.quantity}
+                              onChange={(event) => updateQuantity(lineKey, Number(event.target.value))}
+                              className={`mt-1 w-32 rounded-xl border bg-slate-950/60 px-3 py-2 text-sm text-white ${
+                                line.belowMoq ? 'border-rose-400/60' : 'border-white/10'
+                              }`}
+                            />
+                          </label>
+                          <div className="text-end">
+                            <p className="text-xs text-white/50">
+                              {formatCurrency(line.unitPrice, line.product.price?.currency || 'USD', locale)} /{' '}
+                              {localize(line.product.price?.unit, locale)}
+                            </p>
+                            <p className="text-amber-300">
+                              {formatCurrency(line.lineTotal, line.product.price?.currency || 'USD', locale)}
+                            </p>
+                          </div>
+                        </div>
+                        {line.belowMoq && (
+                          <p className="text-xs text-rose-300">{t('quote.belowMoq', { moq: minimum })}</p>
+                        )}
+                        {line.unavailable && (
+                          <p className="text-xs text-rose-300">
+                            {t('quote.lineUnavailable', {
+                              status: t(AVAILABILITY_LABEL_KEYS[getAvailability(line.product)])
+                            })}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+
+                <div className="flex flex-wrap items-center justify-between gap-4 rounded-3xl border border-white/10 bg-white/5 p-4 text-sm text-white/70">
+                  <button type="button" onClick={clear} className="btn-ghost">
+                    {t('quote.clear')}
+                  </button>
+                  <div className="text-end">
+                    <p className="text-xs text-white/50">{t('quote.estimatedTotal')}</p>
+                    {Object.entries(totals).map(([currency, amount]) => (
+                      <p key={currency} className="text-lg font-semibold text-amber-300">
+                        {formatCurrency(amount, currency, locale)}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <aside className="h-fit rounded-3xl border border-white/10 bg-slate-950/70 p-6 lg:sticky lg:top-28">
+                <h2 className="text-lg font-semibold text-white">{t('quote.submitTitle')}</h2>
+                <p className="mt-2 text-sm text-white/60">
+                  {t('quote.submitSubtitle', { count: resolvedLines.length })}
+                </p>
+                {hasBelowMoq && (
+                  <p className="mt-3 text-xs text-rose-300">{t('quote.fixQuantities')}</p>
+                )}
+                {hasUnavailable && (
+                  <p className="mt-3 text-xs text-rose-300">{t('quote.removeUnavailable')}</p>
+                )}
+                <InquiryForm
+                  items={toInquiryItems(resolvedLines)}
+                  disabled={hasInvalidLine}
+                  onSubmitted={clear}
+                />
+              </aside>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
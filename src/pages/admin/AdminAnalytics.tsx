@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { CloudDownload, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard } from '../../components/admin/FormFields'
+import { ANALYTICS_ENDPOINT, ANALYTICS_EVENT_TYPES, clearStoredEvents, loadStoredEvents } from '../../utils/analytics'
+import { buildAnalyticsReport, parseAnalyticsEvents } from '../../utils/analyticsReport'
+import { localize } from '../../utils/localize'
+import type { Locale } from '../../types/site'
+
+type EventSource = 'local' | 'endpoint'
+
+// 默认读取本浏览器的事件缓冲区；配置了 VITE_ANALYTICS_ENDPOINT 且该地址支持 GET（如开发环境的模拟接口）时可读取汇总数据
+export const AdminAnalytics = () => {
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [{ events, skipped }, setParsed] = useState(() => parseAnalyticsEvents(loadStoredEvents()))
+  const [source, setSource] = useState<EventSource>('local')
+
+  const report = useMemo(() => buildAnalyticsReport(events), [events])
+  const productById = useMemo(
+    () => new Map(siteData.products.map((product) => [product.id, product])),
+    [siteData.products]
+  )
+
+  const handleLoadEndpoint = async () => {
+    if (!ANALYTICS_ENDPOINT) return
+    try {
+      const response = await fetch(ANALYTICS_ENDPOINT)
+      if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+      const body: unknown = await response.json()
+      if (!Array.isArray(body)) throw new Error('Expected an array of analytics events')
+      setParsed(parseAnalyticsEvents(body))
+      setSource('endpoint')
+    } catch (error) {
+      console.error(error)
+      toast.error(t('admin.analytics.loadFailed'))
+    }
+  }
+
+  const handleToggleSource = () => {
+    if (source === 'local') {
+      void handleLoadEndpoint()
+      return
+    }
+    setParsed(parseAnalyticsEvents(loadStoredEvents()))
+    setSource('local')
+  }
+
+  const handleClear = () => {
+    if (!window.confirm(t('admin.analytics.clearConfirm'))) return
+    clearStoredEvents()
+    setParsed({ events: [], skipped: 0 })
+    setSource('local')
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard
+        title={t('admin.analytics.title', { count: events.length })}
+        actions={
+          <div className="flex flex-wrap items-center gap-2">
+            {ANALYTICS_ENDPOINT && (
+              <button
+                type="button"
+                onClick={handleToggleSource}
+                className="btn-ghost gap-2 px-4 py-2"
+              >
+                <CloudDownload className="h-4 w-4" />
+                {source === 'local' ? t('admin.analytics.loadEndpoint') : t('admin.analytics.showLocal')}
+              </button>
+            )}
+            <button type="button" onClick={handleClear} className="btn-ghost gap-2 px-4 py-2">
+              <Trash2 className="h-4 w-4" />
+              {t('admin.analytics.clear')}
+            </button>
+          </div>
+        }
+      >
+        <p className="text-xs text-white/50">
+          {source === 'local' ? t('admin.analytics.localHint') : t('admin.analytics.endpointHint', { url: ANALYTICS_ENDPOINT })}
+        </p>
+        {skipped > 0 && <p className="mt-1 text-xs text-amber-200">{t('admin.analytics.skipped', { count: skipped })}</p>}
+        <div className="mt-4 grid gap-3 sm:grid-cols-3 lg:grid-cols-7">
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+            <p className="text-xs text-white/50">{t('admin.analytics.sessions')}</p>
+            <p className="mt-1 text-xl font-semibold text-white">{report.sessionCount}</p>
+          </div>
+          {ANALYTICS_EVENT_TYPES.map((type) => (
+            <div key={type} className="rounded-2xl border border-white/10 bg-white/5 p-3">
+              <p className="text-xs text-white/50">{t(`admin.analytics.events.${type}`)}</p>
+              <p className="mt-1 text-xl font-semibold text-white">{report.totals[type]}</p>
+            </div>
+          ))}
+        </div>
+      </AdminCard>
+
+      <AdminCard title={t('admin.analytics.funnel')}>
+        <div className="space-y-3">
+          {report.funnel.map((step) => (
+            <div key={step.stage}>
+              <div className="flex justify-between text-sm text-white/70">
+                <span>{t(`admin.analytics.events.${step.stage}`)}</span>
+                <span>
+                  {step.sessions} · {Math.round(step.rate * 100)}%
+                </span>
+              </div>
+              <div className="mt-1 h-2 overflow-hidden rounded-full bg-white/10">
+                <div className="h-full rounded-full bg-amber-300" style={{ width: `${step.rate * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </AdminCard>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <AdminCard title={t('admin.analytics.topProducts')}>
+          <table className="w-full text-start text-sm text-white/70">
+            <thead className="text-xs text-white/40">
+              <tr>
+                <th className="px-3 py-2 text-start">{t('admin.analytics.product')}</th>
+                <th className="px-3 py-2 text-end">{t('admin.analytics.events.product_view')}</th>
+                <th className="px-3 py-2 text-end">{t('admin.analytics.events.lightbox_open')}</th>
+                <th className="px-3 py-2 text-end">{t('admin.analytics.events.inquiry_submitted')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.topProducts.map((stats) => {
+                const product = productById.get(stats.productId)
+                return (
+                  <tr key={stats.productId} className="border-t border-white/5">
+                    <td className="px-3 py-2 text-white">
+                      {product ? localize(product.name, locale) : stats.productId}
+                      {product && <span className="ms-2 font-mono text-xs text-white/40">{product.sku}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-end">{stats.views}</td>
+                    <td className="px-3 py-2 text-end">{stats.lightboxOpens}</td>
+                    <td className="px-3 py-2 text-end">{stats.inquiries}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          {report.topProducts.length === 0 && (
+            <p className="py-6 text-center text-sm text-white/50">{t('admin.analytics.empty')}</p>
+          )}
+        </AdminCard>
+
+        <AdminCard title={t('admin.analytics.topFilters')}>
+          <ul className="space-y-2 text-sm text-white/70">
+            {report.topFilters.map((filter) => (
+              <li
+                key={`${filter.filter}=${filter.value}`}
+                className="flex justify-between gap-3 rounded-xl border border-white/10 px-3 py-2"
+              >
+                <span className="font-mono text-xs">
+                  {filter.filter} = {filter.value || '—'}
+                </span>
+                <span>{filter.count}</span>
+              </li>
+            ))}
+          </ul>
+          {report.topFilters.length === 0 && (
+            <p className="py-6 text-center text-sm text-white/50">{t('admin.analytics.empty')}</p>
+          )}
+        </AdminCard>
+      </div>
+    </div>
+  )
+}
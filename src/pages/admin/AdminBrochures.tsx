@@ -0,0 +1,249 @@
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ArrowDown, ArrowUp, FileText, Plus, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard, Field, LocalizedTextField, inputClassName } from '../../components/admin/FormFields'
+import { createUniqueId, moveItem } from '../../utils/admin'
+import { buildBrochureLayout, createBrochureDefinition } from '../../utils/brochure'
+import { localize } from '../../utils/localize'
+import type { BrochureDefinition, BrochureSelection, Locale } from '../../types/site'
+
+const selections: BrochureSelection[] = ['categories', 'subcategories', 'products']
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((item) => item !== id)
+
+export const AdminBrochures = () => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const brochures = siteData.brochures ?? []
+
+  const updateBrochure = (id: string, patch: Partial<BrochureDefinition>) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      brochures: (previous.brochures ?? []).map((item) =>
+        item.id === id ? { ...item, ...patch, updatedAt: new Date().toISOString() } : item
+      )
+    }))
+  }
+
+  const handleCreate = () => {
+    const id = createUniqueId(
+      'brochure',
+      brochures.map((item) => item.id)
+    )
+    updateSiteData((previous) => ({
+      ...previous,
+      brochures: [...(previous.brochures ?? []), createBrochureDefinition(previous, id)]
+    }))
+  }
+
+  const handleDelete = (brochure: BrochureDefinition) => {
+    if (!window.confirm(t('admin.deleteConfirm', { name: localize(brochure.title, locale) || brochure.id }))) return
+    updateSiteData((previous) => ({
+      ...previous,
+      brochures: (previous.brochures ?? []).filter((item) => item.id !== brochure.id)
+    }))
+  }
+
+  const renderSelection = (brochure: BrochureDefinition) => {
+    switch (brochure.selection) {
+      case 'categories':
+        return (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {siteData.categories.map((category) => (
+              <label key={category.id} className="flex items-center gap-2 text-sm text-white/70">
+                <input
+                  type="checkbox"
+                  checked={brochure.categoryIds.includes(category.id)}
+                  onChange={(event) =>
+                    updateBrochure(brochure.id, {
+                      categoryIds: toggleId(brochure.categoryIds, category.id, event.target.checked)
+                    })
+                  }
+                />
+                {localize(category.name, locale) || category.id}
+              </label>
+            ))}
+          </div>
+        )
+      case 'subcategories':
+        return (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {siteData.categories
+              .filter((category) => category.subcategories.length > 0)
+              .map((category) => (
+                <div key={category.id} className="space-y-2">
+                  <p className="text-xs uppercase tracking-widest text-white/40">
+                    {localize(category.name, locale) || category.id}
+                  </p>
+                  {category.subcategories.map((subcategory) => (
+                    <label key={subcategory.id} className="flex items-center gap-2 text-sm text-white/70">
+                      <input
+                        type="checkbox"
+                        checked={brochure.subcategoryIds.includes(subcategory.id)}
+                        onChange={(event) =>
+                          updateBrochure(brochure.id, {
+                            subcategoryIds: toggleId(brochure.subcategoryIds, subcategory.id, event.target.checked)
+                          })
+                        }
+                      />
+                      {localize(subcategory.name, locale) || subcategory.id}
+                    </label>
+                  ))}
+                </div>
+              ))}
+          </div>
+        )
+      case 'products':
+        return (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="max-h-80 space-y-2 overflow-y-auto pe-2">
+              {siteData.products.map((product) => (
+                <label key={product.id} className="flex items-center gap-2 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={brochure.productIds.includes(product.id)}
+                    onChange={(event) =>
+                      updateBrochure(brochure.id, {
+                        productIds: toggleId(brochure.productIds, product.id, event.target.checked)
+                      })
+                    }
+                  />
+                  <span className="font-mono text-xs text-white/40">{product.sku}</span>
+                  <span>{localize(product.name, locale)}</span>
+                </label>
+              ))}
+            </div>
+            <div>
+              <p className="mb-2 text-xs text-white/50">{t('admin.brochures.orderHint')}</p>
+              <ol className="space-y-2">
+                {brochure.productIds.map((productId, index) => (
+                  <li
+                    key={productId}
+                    className="flex items-center justify-between rounded-xl border border-white/10 px-3 py-2 text-sm text-white/70"
+                  >
+                    <span>
+                      {index + 1}.{' '}
+                      {localize(siteData.products.find((product) => product.id === productId)?.name, locale) ||
+                        productId}
+                    </span>
+                    <span className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => updateBrochure(brochure.id, { productIds: moveItem(brochure.productIds, index, -1) })}
+                        className="rounded-full p-1 hover:bg-white/10"
+                        aria-label="up"
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateBrochure(brochure.id, { productIds: moveItem(brochure.productIds, index, 1) })}
+                        className="rounded-full p-1 hover:bg-white/10"
+                        aria-label="down"
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{t('admin.brochures.title', { count: brochures.length })}</h2>
+          <p className="text-xs text-white/50">{t('admin.brochures.subtitle')}</p>
+        </div>
+        <button type="button" onClick={handleCreate} className="btn-primary gap-2">
+          <Plus className="h-4 w-4" />
+          {t('admin.brochures.create')}
+        </button>
+      </div>
+
+      {brochures.length === 0 && (
+        <p className="rounded-3xl border border-white/10 bg-slate-950/60 p-6 text-sm text-white/60">
+          {t('admin.brochures.empty')}
+        </p>
+      )}
+
+      {brochures.map((brochure) => {
+        const layout = buildBrochureLayout(siteData, brochure)
+        return (
+          <AdminCard
+            key={brochure.id}
+            title={localize(brochure.title, locale) || brochure.id}
+            actions={
+              <div className="flex items-center gap-2">
+                <Link to={`/admin/brochures/${brochure.id}/print`} className="btn-ghost gap-2">
+                  <FileText className="h-4 w-4" />
+                  {t('admin.brochures.generate')}
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(brochure)}
+                  className="rounded-full p-2 text-white/60 hover:bg-white/10 hover:text-rose-300"
+                  aria-label={t('actions.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            }
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <LocalizedTextField
+                label={t('admin.brochures.coverTitle')}
+                value={brochure.title}
+                onChange={(title) => updateBrochure(brochure.id, { title })}
+              />
+              <div className="space-y-4">
+                <Field label={t('admin.brochures.locale')}>
+                  <select
+                    value={brochure.locale}
+                    onChange={(event) => updateBrochure(brochure.id, { locale: event.target.value as Locale })}
+                    className={inputClassName}
+                  >
+                    {siteData.locales.map((code) => (
+                      <option key={code} value={code}>
+                        {t(`languages.${code}`)}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label={t('admin.brochures.selection')}>
+                  <select
+                    value={brochure.selection}
+                    onChange={(event) =>
+                      updateBrochure(brochure.id, { selection: event.target.value as BrochureSelection })
+                    }
+                    className={inputClassName}
+                  >
+                    {selections.map((selection) => (
+                      <option key={selection} value={selection}>
+                        {t(`admin.brochures.selections.${selection}`)}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+                <p className={`text-xs ${layout.productCount > 0 ? 'text-white/50' : 'text-rose-300'}`}>
+                  {layout.productCount > 0
+                    ? t('admin.brochures.summary', { count: layout.productCount, pages: layout.pages.length })
+                    : t('admin.brochures.noProducts')}
+                </p>
+              </div>
+            </div>
+            <div className="mt-6">{renderSelection(brochure)}</div>
+          </AdminCard>
+        )
+      })}
+    </div>
+  )
+}
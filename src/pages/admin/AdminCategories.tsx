@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Plus, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard, LocalizedTextField } from '../../components/admin/FormFields'
+import { createUniqueId, slugify } from '../../utils/admin'
+import { createLocalizedText } from '../../utils/localize'
+import type { Category, LocalizedText } from '../../types/site'
+
+export const AdminCategories = () => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t } = useTranslation()
+  const [newName, setNewName] = useState<LocalizedText>(() => createLocalizedText(siteData.locales))
+
+  const updateCategory = (categoryId: string, updater: (category: Category) => Category) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      categories: previous.categories.map((category) =>
+        category.id === categoryId ? updater(category) : category
+      )
+    }))
+  }
+
+  const handleAddCategory = () => {
+    if (!newName[siteData.defaultLocale]?.trim()) {
+      toast.error(t('validation.required'))
+      return
+    }
+    const id = createUniqueId(
+      slugify(newName.en ?? '', 'category'),
+      siteData.categories.map((category) => category.id)
+    )
+    updateSiteData((previous) => ({
+      ...previous,
+      categories: [...previous.categories, { id, name: newName, subcategories: [] }]
+    }))
+    setNewName(createLocalizedText(siteData.locales))
+  }
+
+  const handleDeleteCategory = (category: Category) => {
+    const inUse = siteData.products.filter((product) => product.categoryId === category.id).length
+    if (inUse > 0) {
+      toast.error(t('admin.categories.inUse', { count: inUse }))
+      return
+    }
+    if (!window.confirm(t('admin.deleteConfirm', { name: category.id }))) return
+    const subcategoryIds = new Set(category.subcategories.map((subcategory) => subcategory.id))
+    updateSiteData((previous) => ({
+      ...previous,
+      categories: previous.categories.filter((item) => item.id !== category.id),
+      // 同时从产品手册的选品范围中移除该分类及其子分类
+      brochures: previous.brochures?.map((brochure) => ({
+        ...brochure,
+        categoryIds: brochure.categoryIds.filter((id) => id !== category.id),
+        subcategoryIds: brochure.subcategoryIds.filter((id) => !subcategoryIds.has(id))
+      }))
+    }))
+  }
+
+  const handleAddSubcategory = (category: Category) => {
+    const id = createUniqueId(
+      `${category.id}-sub`,
+      siteData.categories.flatMap((item) => item.subcategories.map((subcategory) => subcategory.id))
+    )
+    updateCategory(category.id, (current) => ({
+      ...current,
+      subcategories: [...current.subcategories, { id, name: createLocalizedText(siteData.locales) }]
+    }))
+  }
+
+  const handleDeleteSubcategory = (category: Category, subcategoryId: string) => {
+    const inUse = siteData.products.filter((product) => product.subcategoryId === subcategoryId).length
+    if (inUse > 0) {
+      toast.error(t('admin.categories.inUse', { count: inUse }))
+      return
+    }
+    updateSiteData((previous) => ({
+      ...previous,
+      categories: previous.categories.map((item) =>
+        item.id === category.id
+          ? { ...item, subcategories: item.subcategories.filter((subcategory) => subcategory.id !== subcategoryId) }
+          : item
+      ),
+      brochures: previous.brochures?.map((brochure) => ({
+        ...brochure,
+        subcategoryIds: brochure.subcategoryIds.filter((id) => id !== subcategoryId)
+      }))
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      {siteData.categories.map((category) => (
+        <AdminCard
+          key={category.id}
+          title={category.id}
+          actions={
+            <button
+              type="button"
+              onClick={() => handleDeleteCategory(category)}
+              className="rounded-full p-2 text-white/60 hover:bg-white/10 hover:text-rose-300"
+              aria-label={t('actions.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          }
+        >
+          <LocalizedTextField
+            label={t('admin.categories.name')}
+            value={category.name}
+            onChange={(value) => updateCategory(category.id, (current) => ({ ...current, name: value }))}
+          />
+          <div className="mt-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold text-white">{t('products.filter.subcategory')}</p>
+              <button
+                type="button"
+                onClick={() => handleAddSubcategory(category)}
+                className="btn-ghost gap-1 px-3 py-1 text-xs"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                {t('actions.add')}
+              </button>
+            </div>
+            {category.subcategories.map((subcategory) => (
+              <div
+                key={subcategory.id}
+                className="flex items-start gap-2 rounded-2xl border border-white/10 p-3"
+              >
+                <LocalizedTextField
+                  label={subcategory.id}
+                  value={subcategory.name}
+                  onChange={(value) =>
+                    updateCategory(category.id, (current) => ({
+                      ...current,
+                      subcategories: current.subcategories.map((item) =>
+                        item.id === subcategory.id ? { ...item, name: value } : item
+                      )
+                    }))
+                  }
+                  className="flex-1"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleDeleteSubcategory(category, subcategory.id)}
+                  className="mt-6 rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                  aria-label={t('actions.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </AdminCard>
+      ))}
+
+      <AdminCard
+        title={t('admin.categories.create')}
+        actions={
+          <button type="button" onClick={handleAddCategory} className="btn-primary gap-2 px-4 py-2">
+            <Plus className="h-4 w-4" />
+            {t('actions.add')}
+          </button>
+        }
+      >
+        <LocalizedTextField label={t('admin.categories.name')} value={newName} onChange={setNewName} />
+      </AdminCard>
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+import { useTranslation } from 'react-i18next'
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import {
+  AdminCard,
+  Field,
+  LocalizedTextField,
+  TextField,
+  inputClassName
+} from '../../components/admin/FormFields'
+import { createUniqueId, moveItem } from '../../utils/admin'
+import { iconMap } from '../../utils/iconMap'
+import { DEFAULT_LOCALE, SUPPORTED_LANGUAGES } from '../../i18n/locales'
+import { createLocalizedText, localize } from '../../utils/localize'
+import type { Advantage, ExchangeRates, HeroContent, Locale, Partner } from '../../types/site'
+
+export const AdminContent = () => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+
+  const updateHero = <K extends keyof HeroContent>(key: K, value: HeroContent[K]) => {
+    updateSiteData((previous) => ({ ...previous, hero: { ...previous.hero, [key]: value } }))
+  }
+
+  const updateAdvantage = (id: string, patch: Partial<Advantage>) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      advantages: previous.advantages.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    }))
+  }
+
+  const updatePartner = (id: string, patch: Partial<Partner>) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      partners: previous.partners.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    }))
+  }
+
+  const exchangeRates: ExchangeRates = siteData.exchangeRates ?? {
+    base: siteData.products[0]?.price.currency ?? 'USD',
+    asOf: new Date().toISOString().slice(0, 10),
+    rates: {}
+  }
+  const rateEntries = Object.entries(exchangeRates.rates)
+
+  const updateExchangeRates = (patch: Partial<ExchangeRates>) => {
+    updateSiteData((previous) => ({ ...previous, exchangeRates: { ...exchangeRates, ...patch } }))
+  }
+
+  // 以数组形式编辑汇率，便于修改币种代码时保持行顺序
+  const updateRateEntries = (entries: Array<[string, number]>) => {
+    updateExchangeRates({ rates: Object.fromEntries(entries) })
+  }
+
+  // 内容语言决定后台编辑哪些翻译；默认语言与英文回退不可取消
+  const toggleLocale = (code: Locale, checked: boolean) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      locales: checked
+        ? SUPPORTED_LANGUAGES.filter((item) => item === code || previous.locales.includes(item))
+        : previous.locales.filter((item) => item !== code)
+    }))
+  }
+
+  const toggleFeatured = (productId: string, checked: boolean) => {
+    updateSiteData((previous) => ({
+      ...previous,
+      featuredProductIds: checked
+        ? [...previous.featuredProductIds, productId]
+        : previous.featuredProductIds.filter((id) => id !== productId)
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <AdminCard title={t('admin.content.locales')}>
+        <div className="flex flex-wrap gap-4 text-sm text-white/70">
+          {SUPPORTED_LANGUAGES.map((code) => (
+            <label key={code} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={siteData.locales.includes(code)}
+                disabled={code === DEFAULT_LOCALE || code === siteData.defaultLocale}
+                onChange={(event) => toggleLocale(code, event.target.checked)}
+              />
+              {t(`languages.${code}`)}
+            </label>
+          ))}
+        </div>
+      </AdminCard>
+
+      <AdminCard title={t('admin.content.hero')}>
+        <div className="grid gap-4 md:grid-cols-2">
+          <LocalizedTextField
+            label={t('admin.content.heroTitle')}
+            value={siteData.hero.title}
+            onChange={(value) => updateHero('title', value)}
+          />
+          <LocalizedTextField
+            label={t('admin.content.heroCta')}
+            value={siteData.hero.ctaLabel}
+            onChange={(value) => updateHero('ctaLabel', value)}
+          />
+          <LocalizedTextField
+            label={t('admin.content.heroSubtitle')}
+            value={siteData.hero.subtitle}
+            onChange={(value) => updateHero('subtitle', value)}
+            multiline
+            className="md:col-span-2"
+          />
+          <TextField
+            label={t('admin.content.backgroundImage')}
+            type="url"
+            value={siteData.hero.backgroundImage}
+            onChange={(value) => updateHero('backgroundImage', value)}
+          />
+          <TextField
+            label={t('admin.content.backgroundVideo')}
+            type="url"
+            value={siteData.hero.backgroundVideo ?? ''}
+            onChange={(value) => updateHero('backgroundVideo', value || undefined)}
+          />
+        </div>
+      </AdminCard>
+
+      <AdminCard title={t('home.featuredTitle')}>
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="max-h-80 space-y-2 overflow-y-auto pe-2">
+            {siteData.products.map((product) => (
+              <label key={product.id} className="flex items-center gap-2 text-sm text-white/70">
+                <input
+                  type="checkbox"
+                  checked={siteData.featuredProductIds.includes(product.id)}
+                  onChange={(event) => toggleFeatured(product.id, event.target.checked)}
+                />
+                <span className="font-mono text-xs text-white/40">{product.sku}</span>
+                <span>{localize(product.name, locale)}</span>
+              </label>
+            ))}
+          </div>
+          <ol className="space-y-2">
+            {siteData.featuredProductIds.map((productId, index) => (
+              <li
+                key={productId}
+                className="flex items-center justify-between rounded-xl border border-white/10 px-3 py-2 text-sm text-white/70"
+              >
+                <span>
+                  {index + 1}.{' '}
+                  {siteData.products.find((product) => product.id === productId)?.name?.[locale] || productId}
+                </span>
+                <span className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateSiteData((previous) => ({
+                        ...previous,
+                        featuredProductIds: moveItem(previous.featuredProductIds, index, -1)
+                      }))
+                    }
+                    className="rounded-full p-1 hover:bg-white/10"
+                    aria-label="up"
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateSiteData((previous) => ({
+                        ...previous,
+                        featuredProductIds: moveItem(previous.featuredProductIds, index, 1)
+                      }))
+                    }
+                    className="rounded-full p-1 hover:bg-white/10"
+                    aria-label="down"
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </AdminCard>
+
+      <AdminCard
+        title={t('home.advantagesTitle')}
+        actions={
+          <button
+            type="button"
+            onClick={() =>
+              updateSiteData((previous) => ({
+                ...previous,
+                advantages: [
+                  ...previous.advantages,
+                  {
+                    id: createUniqueId(
+                      `adv-${previous.advantages.length + 1}`,
+                      previous.advantages.map((item) => item.id)
+                    ),
+                    icon: 'default',
+                    title: createLocalizedText(previous.locales),
+                    description: createLocalizedText(previous.locales)
+                  }
+                ]
+              }))
+            }
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        }
+      >
+        <div className="space-y-4">
+          {siteData.advantages.map((advantage) => (
+            <div key={advantage.id} className="grid gap-3 rounded-2xl border border-white/10 p-4 md:grid-cols-[160px_1fr_1fr_auto]">
+              <Field label={t('admin.content.icon')}>
+                <select
+                  value={advantage.icon}
+                  onChange={(event) => updateAdvantage(advantage.id, { icon: event.target.value })}
+                  className={inputClassName}
+                >
+                  {Object.keys(iconMap).map((icon) => (
+                    <option key={icon} value={icon}>
+                      {icon}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <LocalizedTextField
+                label={t('admin.content.title')}
+                value={advantage.title}
+                onChange={(value) => updateAdvantage(advantage.id, { title: value })}
+              />
+              <LocalizedTextField
+                label={t('admin.content.description')}
+                value={advantage.description}
+                onChange={(value) => updateAdvantage(advantage.id, { description: value })}
+                multiline
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateSiteData((previous) => ({
+                    ...previous,
+                    advantages: previous.advantages.filter((item) => item.id !== advantage.id)
+                  }))
+                }
+                className="h-fit rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                aria-label={t('actions.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </AdminCard>
+
+      <AdminCard
+        title={t('home.partnersTitle')}
+        actions={
+          <button
+            type="button"
+            onClick={() =>
+              updateSiteData((previous) => ({
+                ...previous,
+                partners: [
+                  ...previous.partners,
+                  {
+                    id: createUniqueId(
+                      `partner-${previous.partners.length + 1}`,
+                      previous.partners.map((item) => item.id)
+                    ),
+                    name: ''
+                  }
+                ]
+              }))
+            }
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        }
+      >
+        <div className="space-y-3">
+          {siteData.partners.map((partner) => (
+            <div key={partner.id} className="grid items-end gap-3 md:grid-cols-[1fr_1fr_auto]">
+              <TextField
+                label={t('admin.content.partnerName')}
+                value={partner.name}
+                onChange={(value) => updatePartner(partner.id, { name: value })}
+              />
+              <TextField
+                label={t('admin.content.logoUrl')}
+                type="url"
+                value={partner.logoUrl ?? ''}
+                onChange={(value) => updatePartner(partner.id, { logoUrl: value || undefined })}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateSiteData((previous) => ({
+                    ...previous,
+                    partners: previous.partners.filter((item) => item.id !== partner.id)
+                  }))
+                }
+                className="rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                aria-label={t('actions.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </AdminCard>
+
+      <AdminCard
+        title={t('admin.content.exchangeRates')}
+        actions={
+          <button
+            type="button"
+            onClick={() => updateRateEntries([...rateEntries, ['', 1]])}
+            className="btn-ghost gap-1 px-3 py-1 text-xs"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t('actions.add')}
+          </button>
+        }
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          <TextField
+            label={t('admin.content.baseCurrency')}
+            value={exchangeRates.base}
+            onChange={(value) => updateExchangeRates({ base: value.toUpperCase() })}
+          />
+          <TextField
+            label={t('admin.content.ratesAsOf')}
+            type="date"
+            value={exchangeRates.asOf.slice(0, 10)}
+            onChange={(value) => updateExchangeRates({ asOf: value })}
+          />
+        </div>
+        <div className="mt-4 space-y-3">
+          {rateEntries.map(([code, rate], index) => (
+            <div key={index} className="grid items-end gap-3 md:grid-cols-[1fr_1fr_auto]">
+              <TextField
+                label={t('admin.products.currency')}
+                value={code}
+                onChange={(value) =>
+                  updateRateEntries(
+                    rateEntries.map((entry, entryIndex) =>
+                      entryIndex === index ? [value.toUpperCase(), entry[1]] : entry
+                    )
+                  )
+                }
+              />
+              <TextField
+                label={t('admin.content.rateFor', { base: exchangeRates.base })}
+                type="number"
+                value={String(rate)}
+                onChange={(value) =>
+                  updateRateEntries(
+                    rateEntries.map((entry, entryIndex) =>
+                      entryIndex === index ? [entry[0], Number(value) || 0] : entry
+                    )
+                  )
+                }
+              />
+              <button
+                type="button"
+                onClick={() => updateRateEntries(rateEntries.filter((_, entryIndex) => entryIndex !== index))}
+                className="rounded-full p-2 text-white/50 hover:bg-white/10 hover:text-rose-300"
+                aria-label={t('actions.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </AdminCard>
+    </div>
+  )
+}
@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Download, ExternalLink, Search } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard, Field, TextField, inputClassName } from '../../components/admin/FormFields'
+import { LoadingSpinner } from '../../components/common/LoadingSpinner'
+import { createInquiryId, saveStoredInquiries } from '../../utils/inquiries'
+import { INQUIRY_STATUSES, loadInquiries } from '../../utils/inquiryInbox'
+import { toCsv } from '../../utils/csv'
+import { downloadFile, downloadJson } from '../../utils/download'
+import { formatCurrency, formatDate, toLocalDateKey } from '../../utils/format'
+import { localize } from '../../utils/localize'
+import { buildVariantPath } from '../../utils/variants'
+import type { Inquiry, InquiryStatus, Locale } from '../../types/site'
+
+const statusStyles: Record<InquiryStatus, string> = {
+  new: 'bg-sky-400/20 text-sky-300',
+  contacted: 'bg-violet-400/20 text-violet-300',
+  quoted: 'bg-amber-400/20 text-amber-300',
+  won: 'bg-emerald-400/20 text-emerald-300',
+  lost: 'bg-rose-400/20 text-rose-300'
+}
+
+export const AdminInquiries = () => {
+  const { siteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [loadedInquiries, setInquiries] = useState<Inquiry[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [keyword, setKeyword] = useState('')
+  const [status, setStatus] = useState<InquiryStatus | 'all'>('all')
+  const [productId, setProductId] = useState('all')
+  const [categoryId, setCategoryId] = useState('all')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [noteDraft, setNoteDraft] = useState('')
+  const inquiries = useMemo(() => loadedInquiries ?? [], [loadedInquiries])
+
+  useEffect(() => {
+    void loadInquiries().then(setInquiries)
+  }, [])
+
+  const productById = useMemo(
+    () => new Map(siteData.products.map((product) => [product.id, product])),
+    [siteData.products]
+  )
+
+  const filteredInquiries = useMemo(() => {
+    const search = keyword.trim().toLowerCase()
+    return inquiries.filter((inquiry) => {
+      // 询价篮询盘包含多个产品，任一产品匹配即可
+      const productIds = [inquiry.productId, ...(inquiry.items ?? []).map((item) => item.productId)].filter(
+        (id): id is string => Boolean(id)
+      )
+      // 按管理员所在时区的日期筛选
+      const day = toLocalDateKey(inquiry.createdAt)
+      const matchesKeyword =
+        !search ||
+        [inquiry.name, inquiry.email, inquiry.company, inquiry.message, inquiry.assignee]
+          .filter(Boolean)
+          .some((value) => value!.toLowerCase().includes(search))
+      return (
+        matchesKeyword &&
+        (status === 'all' || inquiry.status === status) &&
+        (productId === 'all' || productIds.includes(productId)) &&
+        (categoryId === 'all' || productIds.some((id) => productById.get(id)?.categoryId === categoryId)) &&
+        (!dateFrom || day >= dateFrom) &&
+        (!dateTo || day <= dateTo)
+      )
+    })
+  }, [categoryId, dateFrom, dateTo, inquiries, keyword, productById, productId, status])
+
+  const selected = inquiries.find((inquiry) => inquiry.id === selectedId) ?? null
+
+  const updateInquiry = (id: string, patch: Partial<Inquiry>) => {
+    const next = inquiries.map((inquiry) =>
+      inquiry.id === id ? { ...inquiry, ...patch, updatedAt: new Date().toISOString() } : inquiry
+    )
+    setInquiries(next)
+    saveStoredInquiries(next)
+  }
+
+  const handleAddNote = () => {
+    if (!selected || !noteDraft.trim()) return
+    updateInquiry(selected.id, {
+      notes: [
+        ...selected.notes,
+        {
+          id: createInquiryId(),
+          content: noteDraft.trim(),
+          author: selected.assignee,
+          createdAt: new Date().toISOString()
+        }
+      ]
+    })
+    setNoteDraft('')
+  }
+
+  // 产品已从目录中删除时显示原始 id
+  const getProductName = (id?: string) => {
+    if (!id) return ''
+    const product = productById.get(id)
+    return product ? localize(product.name, locale) : id
+  }
+
+  const handleExportCsv = () => {
+    const csv = toCsv(filteredInquiries, [
+      { header: 'id', value: (row) => row.id },
+      { header: 'createdAt', value: (row) => row.createdAt },
+      { header: 'status', value: (row) => row.status },
+      { header: 'assignee', value: (row) => row.assignee },
+      { header: 'name', value: (row) => row.name },
+      { header: 'email', value: (row) => row.email },
+      { header: 'phone', value: (row) => row.phone },
+      { header: 'company', value: (row) => row.company },
+      { header: 'productId', value: (row) => row.productId },
+      { header: 'variantId', value: (row) => row.variantId },
+      {
+        header: 'productSku',
+        value: (row) => row.sku ?? (row.productId ? productById.get(row.productId)?.sku : '')
+      },
+      { header: 'productName', value: (row) => getProductName(row.productId) },
+      { header: 'quantity', value: (row) => row.quantity },
+      {
+        header: 'items',
+        value: (row) => row.items?.map((item) => `${item.sku} x ${item.quantity}`).join(' | ')
+      },
+      { header: 'locale', value: (row) => row.locale },
+      { header: 'message', value: (row) => row.message },
+      { header: 'notes', value: (row) => row.notes.map((note) => note.content).join(' | ') }
+    ])
+    downloadFile(`inquiries-${toLocalDateKey(new Date())}.csv`, csv, 'text/csv;charset=utf-8')
+  }
+
+  if (!loadedInquiries) return <LoadingSpinner />
+
+  return (
+    <div className="space-y-6">
+      <AdminCard
+        title={t('admin.inquiries.title', { count: filteredInquiries.length })}
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={handleExportCsv} className="btn-ghost gap-2 px-4 py-2">
+              <Download className="h-4 w-4" />
+              CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadJson(`inquiries-${toLocalDateKey(new Date())}.json`, filteredInquiries)}
+              className="btn-ghost gap-2 px-4 py-2"
+            >
+              <Download className="h-4 w-4" />
+              JSON
+            </button>
+          </div>
+        }
+      >
+        <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
+          <label className="flex items-center gap-2 rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white/70 lg:col-span-2">
+            <Search className="h-4 w-4" />
+            <input
+              value={keyword}
+              onChange={(event) => setKeyword(event.target.value)}
+              placeholder={t('admin.inquiries.searchPlaceholder')}
+              className="w-full bg-transparent text-white outline-none placeholder:text-white/40"
+            />
+          </label>
+          <select
+            value={status}
+            onChange={(event) => setStatus(event.target.value as InquiryStatus | 'all')}
+            className={inputClassName}
+          >
+            <option value="all">{t('products.filter.all')}</option>
+            {INQUIRY_STATUSES.map((item) => (
+              <option key={item} value={item}>
+                {t(`admin.inquiries.status.${item}`)}
+              </option>
+            ))}
+          </select>
+          <select value={categoryId} onChange={(event) => setCategoryId(event.target.value)} className={inputClassName}>
+            <option value="all">{t('products.filter.category')}</option>
+            {siteData.categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {localize(category.name, locale) || category.id}
+              </option>
+            ))}
+          </select>
+          <select value={productId} onChange={(event) => setProductId(event.target.value)} className={inputClassName}>
+            <option value="all">{t('contact.fields.product')}</option>
+            {siteData.products.map((product) => (
+              <option key={product.id} value={product.id}>
+                {localize(product.name, locale) || product.sku}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(event) => setDateFrom(event.target.value)}
+              aria-label={t('admin.inquiries.dateFrom')}
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(event) => setDateTo(event.target.value)}
+              aria-label={t('admin.inquiries.dateTo')}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-start text-sm text-white/70">
+            <thead className="text-xs uppercase tracking-widest text-white/40">
+              <tr>
+                <th className="px-3 py-2">{t('admin.inquiries.date')}</th>
+                <th className="px-3 py-2">{t('contact.fields.name')}</th>
+                <th className="px-3 py-2">{t('contact.fields.product')}</th>
+                <th className="px-3 py-2">{t('contact.fields.quantity')}</th>
+                <th className="px-3 py-2">{t('admin.inquiries.assignee')}</th>
+                <th className="px-3 py-2">{t('admin.inquiries.statusLabel')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredInquiries.map((inquiry) => (
+                <tr
+                  key={inquiry.id}
+                  onClick={() => setSelectedId(inquiry.id)}
+                  className={`cursor-pointer border-t border-white/5 hover:bg-white/5 ${
+                    inquiry.id === selectedId ? 'bg-white/5' : ''
+                  }`}
+                >
+                  <td className="px-3 py-2 text-xs">{formatDate(inquiry.createdAt, locale)}</td>
+                  <td className="px-3 py-2">
+                    <p className="text-white">{inquiry.name}</p>
+                    <p className="text-xs text-white/40">{inquiry.company || inquiry.email}</p>
+                  </td>
+                  <td className="px-3 py-2">
+                    {inquiry.items?.length
+                      ? t('admin.inquiries.itemCount', { count: inquiry.items.length })
+                      : getProductName(inquiry.productId) || '—'}
+                  </td>
+                  <td className="px-3 py-2">{inquiry.quantity ?? '—'}</td>
+                  <td className="px-3 py-2">{inquiry.assignee || '—'}</td>
+                  <td className="px-3 py-2">
+                    <span className={`rounded-full px-2 py-0.5 text-xs ${statusStyles[inquiry.status]}`}>
+                      {t(`admin.inquiries.status.${inquiry.status}`)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {filteredInquiries.length === 0 && (
+            <p className="py-8 text-center text-sm text-white/50">{t('admin.inquiries.empty')}</p>
+          )}
+        </div>
+      </AdminCard>
+
+      {selected && (
+        <AdminCard title={`${selected.name} · ${selected.email}`}>
+          <div className="grid gap-6 lg:grid-cols-[1.4fr_1fr]">
+            <div className="space-y-4 text-sm text-white/70">
+              <dl className="grid grid-cols-[120px_1fr] gap-2">
+                <dt className="text-white/40">{t('contact.fields.phone')}</dt>
+                <dd>{selected.phone || '—'}</dd>
+                <dt className="text-white/40">{t('contact.fields.company')}</dt>
+                <dd>{selected.company || '—'}</dd>
+                <dt className="text-white/40">{t('contact.fields.product')}</dt>
+                <dd>
+                  {selected.productId ? (
+                    <Link
+                      to={buildVariantPath(selected.productId, selected.variantId)}
+                      className="inline-flex items-center gap-1 text-amber-300 hover:underline"
+                    >
+                      {getProductName(selected.productId)}
+                      {selected.sku && <span className="font-mono text-xs">({selected.sku})</span>}
+                      <ExternalLink className="h-3.5 w-3.5" />
+                    </Link>
+                  ) : (
+                    '—'
+                  )}
+                </dd>
+                <dt className="text-white/40">{t('contact.fields.quantity')}</dt>
+                <dd>{selected.quantity ?? '—'}</dd>
+                <dt className="text-white/40">{t('admin.inquiries.date')}</dt>
+                <dd>{formatDate(selected.createdAt, locale)}</dd>
+              </dl>
+              {selected.items && selected.items.length > 0 && (
+                <ul className="space-y-1 rounded-2xl border border-white/10 bg-white/5 p-4">
+                  {selected.items.map((item) => (
+                    <li key={item.productId} className="flex justify-between gap-3">
+                      <Link to={`/products/${item.productId}`} className="text-amber-300 hover:underline">
+                        {getProductName(item.productId)} <span className="font-mono text-xs">({item.sku})</span>
+                      </Link>
+                      <span>
+                        {item.quantity} × {formatCurrency(item.unitPrice, item.currency, locale)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="whitespace-pre-wrap rounded-2xl border border-white/10 bg-white/5 p-4">
+                {selected.message}
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              <Field label={t('admin.inquiries.statusLabel')}>
+                <select
+                  value={selected.status}
+                  onChange={(event) =>
+                    updateInquiry(selected.id, { status: event.target.value as InquiryStatus })
+                  }
+                  className={inputClassName}
+                >
+                  {INQUIRY_STATUSES.map((item) => (
+                    <option key={item} value={item}>
+                      {t(`admin.inquiries.status.${item}`)}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <TextField
+                label={t('admin.inquiries.assignee')}
+                value={selected.assignee ?? ''}
+                onChange={(value) => updateInquiry(selected.id, { assignee: value || undefined })}
+              />
+              <div>
+                <p className="mb-2 text-xs text-white/60">{t('admin.inquiries.notes')}</p>
+                <ul className="max-h-60 space-y-2 overflow-y-auto">
+                  {selected.notes.map((note) => (
+                    <li key={note.id} className="rounded-xl border border-white/10 bg-white/5 p-3 text-sm text-white/70">
+                      <p className="whitespace-pre-wrap">{note.content}</p>
+                      <p className="mt-1 text-xs text-white/40">
+                        {note.author ? `${note.author} · ` : ''}
+                        {formatDate(note.createdAt, locale)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+                <textarea
+                  rows={3}
+                  value={noteDraft}
+                  onChange={(event) => setNoteDraft(event.target.value)}
+                  placeholder={t('admin.inquiries.notePlaceholder')}
+                  className={`mt-2 ${inputClassName}`}
+                />
+                <button
+                  type="button"
+                  onClick={handleAddNote}
+                  disabled={!noteDraft.trim()}
+                  className="btn-primary mt-2 px-4 py-2 disabled:opacity-40"
+                >
+                  {t('admin.inquiries.addNote')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </AdminCard>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent, FormEvent } from 'react'
+import { NavLink, Outlet } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { Download, Lock, LogOut, RotateCcw, Upload } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { LanguageSwitcher } from '../../components/common/LanguageSwitcher'
+import { inputClassName } from '../../components/admin/FormFields'
+import { ADMIN_SESSION_KEY } from '../../utils/admin'
+import { downloadJson } from '../../utils/download'
+import { validateSiteData } from '../../schema/validateSiteData'
+import { migrateSiteData } from '../../schema/migrations'
+
+const adminLinks = [
+  { to: '/admin/products', key: 'admin.nav.products' },
+  { to: '/admin/categories', key: 'admin.nav.categories' },
+  { to: '/admin/content', key: 'admin.nav.content' },
+  { to: '/admin/translations', key: 'admin.nav.translations' },
+  { to: '/admin/inquiries', key: 'admin.nav.inquiries' },
+  { to: '/admin/brochures', key: 'admin.nav.brochures' },
+  { to: '/admin/analytics', key: 'admin.nav.analytics' }
+]
+
+export const AdminLayout = () => {
+  const { siteData, hasLocalChanges, resetSiteData, updateSiteData } = useSiteData()
+  const { t } = useTranslation()
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [authenticated, setAuthenticated] = useState(
+    () => sessionStorage.getItem(ADMIN_SESSION_KEY) === 'true'
+  )
+  const [password, setPassword] = useState('')
+
+  const handleLogin = (event: FormEvent) => {
+    event.preventDefault()
+    if (password === siteData.settings.adminPassword) {
+      sessionStorage.setItem(ADMIN_SESSION_KEY, 'true')
+      setAuthenticated(true)
+      setPassword('')
+    } else {
+      toast.error(t('admin.login.invalid'))
+    }
+  }
+
+  const handleLogout = () => {
+    sessionStorage.removeItem(ADMIN_SESSION_KEY)
+    setAuthenticated(false)
+  }
+
+  const handleExport = () => {
+    const issues = validateSiteData(siteData)
+    if (issues.length > 0 && !window.confirm(t('admin.exportIssuesConfirm', { count: issues.length }))) {
+      return
+    }
+    downloadJson('site-data.json', siteData)
+  }
+
+  // 导入的文档先迁移到当前版本，再整体替换工作副本
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const { data, applied } = migrateSiteData(JSON.parse(await file.text()))
+      const issues = validateSiteData(data)
+      if (issues.length > 0 && !window.confirm(t('admin.importIssuesConfirm', { count: issues.length }))) {
+        return
+      }
+      updateSiteData(() => data)
+      toast.success(
+        applied.length > 0
+          ? t('admin.importMigrated', { version: data.schemaVersion })
+          : t('misc.updated')
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error(t('admin.importError'))
+    }
+  }
+
+  const handleReset = () => {
+    if (window.confirm(t('admin.resetConfirm'))) {
+      resetSiteData()
+      toast.success(t('misc.updated'))
+    }
+  }
+
+  if (!authenticated) {
+    return (
+      <section className="flex min-h-screen items-center justify-center px-4">
+        <form
+          onSubmit={handleLogin}
+          className="w-full max-w-sm space-y-4 rounded-3xl border border-white/10 bg-slate-950/70 p-8"
+        >
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-400/20">
+              <Lock className="h-5 w-5 text-amber-300" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-white">{t('admin.login.title')}</h1>
+              <p className="text-xs text-white/50">{t('admin.login.subtitle')}</p>
+            </div>
+          </div>
+          <input
+            type="password"
+            value={password}
+            autoFocus
+            onChange={(event) => setPassword(event.target.value)}
+            placeholder={t('admin.login.password')}
+            className={inputClassName}
+          />
+          <button type="submit" className="btn-primary w-full">
+            {t('admin.login.submit')}
+          </button>
+        </form>
+      </section>
+    )
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-8 md:px-6">
+      <div className="mx-auto max-w-6xl">
+        <header className="glass-panel flex flex-wrap items-center justify-between gap-4 rounded-3xl px-6 py-4">
+          <div>
+            <h1 className="text-lg font-semibold text-white">{t('admin.title')}</h1>
+            <p className="text-xs text-white/50">
+              {hasLocalChanges ? t('admin.draftNotice') : t('admin.cleanNotice')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={handleExport}
+              className="btn-ghost gap-2"
+            >
+              <Download className="h-4 w-4" />
+              {t('admin.exportData')}
+            </button>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className="btn-ghost gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              {t('actions.import')}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={!hasLocalChanges}
+              className="btn-ghost gap-2 disabled:opacity-40"
+            >
+              <RotateCcw className="h-4 w-4" />
+              {t('actions.reset')}
+            </button>
+            <LanguageSwitcher />
+            <button type="button" onClick={handleLogout} className="btn-ghost gap-2">
+              <LogOut className="h-4 w-4" />
+              {t('actions.logout')}
+            </button>
+          </div>
+        </header>
+
+        <nav className="mt-6 flex flex-wrap gap-2">
+          {adminLinks.map((link) => (
+            <NavLink
+              key={link.key}
+              to={link.to}
+              className={({ isActive }) =>
+                `rounded-full border px-4 py-2 text-sm transition ${
+                  isActive
+                    ? 'border-amber-300/60 bg-amber-400/10 text-amber-300'
+                    : 'border-white/10 text-white/70 hover:border-white/30 hover:text-white'
+                }`
+              }
+            >
+              {t(link.key)}
+            </NavLink>
+          ))}
+        </nav>
+
+        <div className="mt-6">
+          <Outlet />
+        </div>
+      </div>
+    </div>
+  )
+}
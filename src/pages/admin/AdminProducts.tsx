@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { FileSpreadsheet, Pencil, Plus, Search, Trash2 } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard } from '../../components/admin/FormFields'
+import { ProductEditor } from '../../components/admin/ProductEditor'
+import { ProductImport } from '../../components/admin/ProductImport'
+import { createEmptyProduct, createUniqueId, slugify } from '../../utils/admin'
+import { formatCurrency } from '../../utils/format'
+import { localize } from '../../utils/localize'
+import { AVAILABILITY_LABEL_KEYS } from '../../utils/inventory'
+import { getProductAvailability } from '../../utils/variants'
+import type { Locale, Product } from '../../types/site'
+
+interface EditingState {
+  product: Product
+  isNew: boolean
+}
+
+const removeLink = (ids: string[] | undefined, productId: string) => {
+  const next = ids?.filter((id) => id !== productId)
+  return next && next.length > 0 ? next : undefined
+}
+
+export const AdminProducts = () => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [editing, setEditing] = useState<EditingState | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [search, setSearch] = useState('')
+
+  const keyword = search.trim().toLowerCase()
+  const products = siteData.products.filter(
+    (product) =>
+      !keyword ||
+      product.sku.toLowerCase().includes(keyword) ||
+      Object.values(product.name ?? {}).some((name) => name.toLowerCase().includes(keyword))
+  )
+
+  const handleSave = (product: Product) => {
+    if (editing?.isNew) {
+      const id = createUniqueId(
+        slugify(product.name.en || product.sku, 'product'),
+        siteData.products.map((item) => item.id)
+      )
+      updateSiteData((previous) => ({
+        ...previous,
+        products: [...previous.products, { ...product, id }]
+      }))
+    } else {
+      updateSiteData((previous) => ({
+        ...previous,
+        products: previous.products.map((item) => (item.id === product.id ? product : item))
+      }))
+    }
+    setEditing(null)
+    toast.success(t('misc.updated'))
+  }
+
+  const handleDelete = (product: Product) => {
+    if (!window.confirm(t('admin.deleteConfirm', { name: localize(product.name, locale) || product.sku }))) {
+      return
+    }
+    updateSiteData((previous) => ({
+      ...previous,
+      // 同时移除其他产品中指向该产品的关联
+      products: previous.products
+        .filter((item) => item.id !== product.id)
+        .map((item) => ({
+          ...item,
+          frequentlyQuotedWith: removeLink(item.frequentlyQuotedWith, product.id),
+          accessoryIds: removeLink(item.accessoryIds, product.id)
+        })),
+      featuredProductIds: previous.featuredProductIds.filter((id) => id !== product.id),
+      brochures: previous.brochures?.map((brochure) => ({
+        ...brochure,
+        productIds: brochure.productIds.filter((id) => id !== product.id)
+      }))
+    }))
+    toast.success(t('misc.updated'))
+  }
+
+  if (editing) {
+    return (
+      <AdminCard title={editing.isNew ? t('admin.products.create') : t('admin.products.edit')}>
+        <ProductEditor
+          key={editing.product.id || 'new'}
+          product={editing.product}
+          isNew={editing.isNew}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      </AdminCard>
+    )
+  }
+
+  if (importing) {
+    return (
+      <AdminCard title={t('admin.import.title')}>
+        <ProductImport onClose={() => setImporting(false)} />
+      </AdminCard>
+    )
+  }
+
+  return (
+    <AdminCard
+      title={t('admin.products.title', { count: siteData.products.length })}
+      actions={
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70">
+            <Search className="h-3.5 w-3.5" />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={t('products.searchPlaceholder')}
+              className="w-48 bg-transparent text-white outline-none placeholder:text-white/40"
+            />
+          </label>
+          <button type="button" onClick={() => setImporting(true)} className="btn-ghost gap-2 px-4 py-2">
+            <FileSpreadsheet className="h-4 w-4" />
+            {t('admin.import.title')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing({ product: createEmptyProduct(siteData), isNew: true })}
+            className="btn-primary gap-2 px-4 py-2"
+          >
+            <Plus className="h-4 w-4" />
+            {t('admin.products.create')}
+          </button>
+        </div>
+      }
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-start text-sm text-white/70">
+          <thead className="text-xs uppercase tracking-widest text-white/40">
+            <tr>
+              <th className="px-3 py-2">{t('admin.products.sku')}</th>
+              <th className="px-3 py-2">{t('admin.products.name')}</th>
+              <th className="px-3 py-2">{t('products.filter.category')}</th>
+              <th className="px-3 py-2">{t('productDetail.price')}</th>
+              <th className="px-3 py-2">{t('products.filter.stock')}</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((product) => (
+              <tr key={product.id} className="border-t border-white/5">
+                <td className="px-3 py-2 font-mono text-xs">{product.sku}</td>
+                <td className="px-3 py-2 text-white">{localize(product.name, locale)}</td>
+                <td className="px-3 py-2">
+                  {siteData.categories.find((category) => category.id === product.categoryId)?.name?.[locale] ||
+                    product.categoryId}
+                </td>
+                <td className="px-3 py-2">
+                  {formatCurrency(product.price?.amount || 0, product.price?.currency || 'USD', locale)}
+                </td>
+                <td className="px-3 py-2">
+                  {t(AVAILABILITY_LABEL_KEYS[getProductAvailability(product)])}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ product, isNew: false })}
+                      className="rounded-full p-2 text-white/60 hover:bg-white/10 hover:text-white"
+                      aria-label={t('actions.edit')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(product)}
+                      className="rounded-full p-2 text-white/60 hover:bg-white/10 hover:text-rose-300"
+                      aria-label={t('actions.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {products.length === 0 && (
+          <p className="py-8 text-center text-sm text-white/50">{t('products.empty')}</p>
+        )}
+      </div>
+    </AdminCard>
+  )
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import toast from 'react-hot-toast'
+import { RefreshCw } from 'lucide-react'
+import { useSiteData } from '../../context/SiteDataContext'
+import { AdminCard } from '../../components/admin/FormFields'
+import { DEFAULT_LOCALE } from '../../i18n/locales'
+import { localize } from '../../utils/localize'
+import { computeTranslationStatus, getTranslationCoverage } from '../../utils/translations'
+import type { Locale } from '../../types/site'
+
+export const AdminTranslations = () => {
+  const { siteData, updateSiteData } = useSiteData()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language as Locale
+  const [selectedLocale, setSelectedLocale] = useState<Locale>(
+    () => siteData.locales.find((item) => item !== DEFAULT_LOCALE) ?? DEFAULT_LOCALE
+  )
+
+  const coverage = useMemo(
+    () => siteData.locales.map((item) => getTranslationCoverage(siteData, item)),
+    [siteData]
+  )
+  const selected = coverage.find((item) => item.locale === selectedLocale) ?? coverage[0]
+
+  const productById = useMemo(
+    () => new Map(siteData.products.map((product) => [product.id, product])),
+    [siteData.products]
+  )
+
+  // 已保存的 translationStatus 与实际内容不一致的产品数量
+  const staleCount = siteData.products.filter((product) => {
+    const computed = computeTranslationStatus(product, siteData.locales)
+    return siteData.locales.some((item) => Boolean(product.translationStatus?.[item]) !== computed[item])
+  }).length
+
+  const hiddenLocales = siteData.settings.hideUntranslatedProducts ?? []
+
+  const toggleHidden = (code: Locale, checked: boolean) => {
+    updateSiteData((previous) => {
+      const current = previous.settings.hideUntranslatedProducts ?? []
+      const next = checked ? [...current, code] : current.filter((item) => item !== code)
+      return {
+        ...previous,
+        settings: { ...previous.settings, hideUntranslatedProducts: next.length > 0 ? next : undefined }
+      }
+    })
+  }
+
+  const handleRecompute = () => {
+    updateSiteData((previous) => ({
+      ...previous,
+      products: previous.products.map((product) => ({
+        ...product,
+        translationStatus: computeTranslationStatus(product, previous.locales)
+      }))
+    }))
+    toast.success(t('misc.updated'))
+  }
+
+  const missingBySection = (selected?.missing ?? []).reduce<Record<string, typeof selected.missing>>(
+    (groups, entry) => ({ ...groups, [entry.section]: [...(groups[entry.section] ?? []), entry] }),
+    {}
+  )
+
+  return (
+    <div className="space-y-6">
+      <AdminCard
+        title={t('admin.translations.title')}
+        actions={
+          <button
+            type="button"
+            onClick={handleRecompute}
+            disabled={staleCount === 0}
+            className="btn-ghost gap-2 px-4 py-2 text-xs disabled:opacity-50"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+            {t('admin.translations.recompute', { count: staleCount })}
+          </button>
+        }
+      >
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {coverage.map((item) => {
+            const percent = item.total === 0 ? 100 : Math.round((item.translated / item.total) * 100)
+            return (
+              <button
+                key={item.locale}
+                type="button"
+                onClick={() => setSelectedLocale(item.locale)}
+                className={`rounded-2xl border p-4 text-start transition ${
+                  item.locale === selected?.locale
+                    ? 'border-amber-300/60 bg-amber-400/10'
+                    : 'border-white/10 bg-white/5 hover:border-white/30'
+                }`}
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-semibold text-white">{t(`languages.${item.locale}`)}</span>
+                  <span className={percent === 100 ? 'text-emerald-300' : 'text-amber-300'}>{percent}%</span>
+                </div>
+                <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-white/10">
+                  <div
+                    className={`h-full rounded-full ${percent === 100 ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <p className="mt-2 text-xs text-white/50">
+                  {t('admin.translations.progress', { translated: item.translated, total: item.total })}
+                </p>
+              </button>
+            )
+          })}
+        </div>
+        <p className="mt-4 text-xs text-white/40">{t('admin.translations.localesHint')}</p>
+      </AdminCard>
+
+      {selected && (
+        <AdminCard
+          title={t('admin.translations.missingTitle', {
+            language: t(`languages.${selected.locale}`),
+            count: selected.missing.length
+          })}
+          actions={
+            selected.locale !== DEFAULT_LOCALE && (
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                <input
+                  type="checkbox"
+                  checked={hiddenLocales.includes(selected.locale)}
+                  onChange={(event) => toggleHidden(selected.locale, event.target.checked)}
+                />
+                {t('admin.translations.hideUntranslated')}
+              </label>
+            )
+          }
+        >
+          {selected.missing.length === 0 ? (
+            <p className="py-6 text-center text-sm text-emerald-300">{t('admin.translations.complete')}</p>
+          ) : (
+            <div className="space-y-6">
+              {Object.entries(missingBySection).map(([section, entries]) => (
+                <div key={section}>
+                  <p className="text-xs uppercase tracking-widest text-white/40">
+                    {section} · {entries.length}
+                  </p>
+                  <div className="mt-2 overflow-x-auto">
+                    <table className="w-full text-start text-sm text-white/70">
+                      <tbody>
+                        {entries.map((entry) => (
+                          <tr key={entry.path} className="border-t border-white/5 align-top">
+                            <td className="px-3 py-2 font-mono text-xs text-white/50">{entry.path}</td>
+                            <td className="px-3 py-2 text-xs">
+                              {entry.productId && (
+                                <span className="me-2 text-white">
+                                  {localize(productById.get(entry.productId)?.name, locale) || entry.productId}
+                                </span>
+                              )}
+                              <span className="text-white/40">{entry.text[DEFAULT_LOCALE] || '—'}</span>
+                            </td>
+                            <td className="px-3 py-2 text-end">
+                              <span
+                                className={`rounded-full px-2 py-0.5 text-xs ${
+                                  entry.reason === 'missing'
+                                    ? 'bg-rose-500/20 text-rose-300'
+                                    : 'bg-amber-400/20 text-amber-300'
+                                }`}
+                              >
+                                {t(`admin.translations.reason.${entry.reason}`)}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </AdminCard>
+      )}
+    </div>
+  )
+}
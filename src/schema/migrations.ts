@@ -0,0 +1,46 @@
+import { z } from 'zod'
+import { siteDataSchema } from './siteData'
+import { CURRENT_SCHEMA_VERSION, siteDataMigrations } from './siteDataMigrations'
+import type { SiteDataDocument, SiteDataMigration } from './siteDataMigrations'
+import type { SiteData } from '../types/site'
+
+export const getSchemaVersion = (document: SiteDataDocument) =>
+  typeof document.schemaVersion === 'number' ? document.schemaVersion : 0
+
+export interface MigrationResult {
+  data: SiteData
+  fromVersion: number
+  applied: SiteDataMigration[]
+}
+
+// 将任意旧版本的文档升级到当前版本；加载打包数据、浏览器工作副本和后台导入时都会经过这里。
+// 迁移结果须通过 schema 校验，结构不符时抛出错误；引用完整性等问题仍由 validateSiteData 报告
+export const migrateSiteData = (input: unknown): MigrationResult => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('SiteData document must be a JSON object')
+  }
+
+  const fromVersion = getSchemaVersion(input as SiteDataDocument)
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `SiteData schemaVersion ${fromVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`
+    )
+  }
+
+  const applied = siteDataMigrations.filter((migration) => migration.version > fromVersion)
+  const migrated = applied.reduce<SiteDataDocument>(
+    // 先写入 schemaVersion 使其位于导出 JSON 的首行
+    (document, migration) =>
+      Object.assign({ schemaVersion: migration.version }, migration.migrate(document), {
+        schemaVersion: migration.version
+      }),
+    input as SiteDataDocument
+  )
+
+  const result = siteDataSchema.safeParse(migrated)
+  if (!result.success) {
+    throw new Error(`SiteData document does not match the schema:\n${z.prettifyError(result.error)}`)
+  }
+
+  return { data: result.data, fromVersion, applied }
+}
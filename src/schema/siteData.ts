@@ -0,0 +1,224 @@
+import { z } from 'zod'
+import { CURRENT_SCHEMA_VERSION } from './siteDataMigrations'
+import { LOCALE_CODES } from '../i18n/locales'
+import { STOCK_STATUSES } from '../utils/inventory'
+import type { SiteData } from '../types/site'
+
+// 与 src/types/site.ts 保持一一对应，类型标注确保两者不会悄悄偏离
+export const localeSchema = z.enum(LOCALE_CODES)
+
+export const localizedTextSchema = z
+  .partialRecord(localeSchema, z.string())
+  .and(z.object({ en: z.string() }))
+
+const dateStringSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date string')
+
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Expected a 3-letter ISO 4217 currency code')
+
+const seoContentSchema = z.object({
+  title: localizedTextSchema,
+  description: localizedTextSchema
+})
+
+const stockStatusSchema = z.enum(STOCK_STATUSES)
+
+const inventorySchema = z.object({
+  quantity: z.number().int().nonnegative().optional(),
+  lowStockThreshold: z.number().int().nonnegative().optional(),
+  restockDate: dateStringSchema.optional()
+})
+
+const productOptionSchema = z.object({
+  id: z.string().min(1),
+  name: localizedTextSchema,
+  values: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        label: localizedTextSchema
+      })
+    )
+    .min(1)
+})
+
+const productVariantSchema = z.object({
+  id: z.string().min(1),
+  sku: z.string().min(1),
+  options: z.record(z.string(), z.string()),
+  amount: z.number().nonnegative().optional(),
+  moq: z.number().int().positive().optional(),
+  stockStatus: stockStatusSchema,
+  inventory: inventorySchema.optional(),
+  images: z.array(z.string()).optional()
+})
+
+const productSchema = z.object({
+  id: z.string().min(1),
+  sku: z.string().min(1),
+  categoryId: z.string().min(1),
+  subcategoryId: z.string().optional(),
+  name: localizedTextSchema,
+  shortDescription: localizedTextSchema,
+  description: localizedTextSchema,
+  price: z.object({
+    amount: z.number().nonnegative(),
+    currency: currencyCodeSchema,
+    unit: localizedTextSchema,
+    moq: z.number().int().positive(),
+    tiers: z
+      .array(
+        z.object({
+          minQuantity: z.number().int().positive(),
+          amount: z.number().nonnegative()
+        })
+      )
+      .optional()
+  }),
+  images: z.array(z.string()),
+  mainImage: z.string(),
+  features: z.array(localizedTextSchema),
+  specs: z.array(
+    z.object({
+      label: localizedTextSchema,
+      value: localizedTextSchema
+    })
+  ),
+  certifications: z.array(z.string()),
+  stockStatus: stockStatusSchema,
+  inventory: inventorySchema.optional(),
+  leadTime: localizedTextSchema,
+  options: z.array(productOptionSchema).optional(),
+  variants: z.array(productVariantSchema).optional(),
+  frequentlyQuotedWith: z.array(z.string()).optional(),
+  accessoryIds: z.array(z.string()).optional(),
+  seo: seoContentSchema,
+  noindex: z.boolean().optional(),
+  translationStatus: z.partialRecord(localeSchema, z.boolean()),
+  createdAt: dateStringSchema,
+  updatedAt: dateStringSchema
+})
+
+export const siteDataSchema: z.ZodType<SiteData> = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  locales: z.array(localeSchema).min(1),
+  defaultLocale: localeSchema,
+  settings: z.object({
+    siteName: localizedTextSchema,
+    tagline: localizedTextSchema,
+    logoUrl: z.string(),
+    adminPassword: z.string().min(1),
+    seoDefaults: seoContentSchema,
+    twitterHandle: z.string().optional(),
+    hideUntranslatedProducts: z.array(localeSchema).optional()
+  }),
+  hero: z.object({
+    title: localizedTextSchema,
+    subtitle: localizedTextSchema,
+    ctaLabel: localizedTextSchema,
+    backgroundImage: z.string(),
+    backgroundVideo: z.string().optional()
+  }),
+  advantages: z.array(
+    z.object({
+      id: z.string().min(1),
+      icon: z.string(),
+      title: localizedTextSchema,
+      description: localizedTextSchema
+    })
+  ),
+  partners: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string(),
+      logoUrl: z.string().optional()
+    })
+  ),
+  tradeRegions: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: localizedTextSchema,
+      markets: localizedTextSchema
+    })
+  ),
+  categories: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: localizedTextSchema,
+      subcategories: z.array(
+        z.object({
+          id: z.string().min(1),
+          name: localizedTextSchema
+        })
+      )
+    })
+  ),
+  featuredProductIds: z.array(z.string()),
+  products: z.array(productSchema),
+  exchangeRates: z
+    .object({
+      base: currencyCodeSchema,
+      asOf: dateStringSchema,
+      rates: z.record(currencyCodeSchema, z.number().positive())
+    })
+    .optional(),
+  brochures: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        title: localizedTextSchema,
+        selection: z.enum(['categories', 'subcategories', 'products']),
+        categoryIds: z.array(z.string()),
+        subcategoryIds: z.array(z.string()),
+        productIds: z.array(z.string()),
+        locale: localeSchema,
+        updatedAt: dateStringSchema
+      })
+    )
+    .optional(),
+  about: z.object({
+    overview: localizedTextSchema,
+    mission: localizedTextSchema,
+    timeline: z.array(
+      z.object({
+        year: z.string(),
+        content: localizedTextSchema
+      })
+    ),
+    team: z.array(
+      z.object({
+        name: z.string(),
+        role: localizedTextSchema,
+        bio: localizedTextSchema
+      })
+    )
+  }),
+  contact: z.object({
+    phone: z.string(),
+    email: z.string(),
+    whatsapp: z.string(),
+    address: localizedTextSchema,
+    hours: localizedTextSchema,
+    map: z.object({
+      lat: z.number(),
+      lng: z.number(),
+      zoom: z.number()
+    }),
+    socials: z.array(
+      z.object({
+        platform: z.string(),
+        url: z.string()
+      })
+    )
+  }),
+  seo: z.object({
+    pages: z.object({
+      home: seoContentSchema,
+      products: seoContentSchema,
+      productDetail: seoContentSchema,
+      about: seoContentSchema,
+      contact: seoContentSchema
+    })
+  })
+})
@@ -0,0 +1,19 @@
+export type SiteDataDocument = Record<string, unknown>
+
+export interface SiteDataMigration {
+  version: number
+  description: string
+  migrate: (document: SiteDataDocument) => SiteDataDocument
+}
+
+// 按版本号顺序登记，每次修改 SiteData 结构时在末尾追加一条迁移，切勿修改已发布的迁移。
+// 单独成文件以便 zod schema 引用当前版本号，而 migrations.ts 又需要用 schema 校验迁移结果
+export const siteDataMigrations: SiteDataMigration[] = [
+  {
+    version: 1,
+    description: 'Add schemaVersion to the SiteData document',
+    migrate: (document) => document
+  }
+]
+
+export const CURRENT_SCHEMA_VERSION = siteDataMigrations[siteDataMigrations.length - 1].version
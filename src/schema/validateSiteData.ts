@@ -0,0 +1,207 @@
+import { siteDataSchema } from './siteData'
+import { DEFAULT_LOCALE } from '../i18n/locales'
+import { collectLocalizedTexts, getMissingReason } from '../utils/translations'
+import type { SiteData } from '../types/site'
+
+export interface SiteDataIssue {
+  path: string
+  message: string
+  kind: 'schema' | 'reference'
+}
+
+const formatPath = (path: PropertyKey[]) =>
+  path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`
+    return result ? `${result}.${String(segment)}` : String(segment)
+  }, '') || '(root)'
+
+const findDuplicates = (values: string[]) => {
+  const seen = new Set<string>()
+  const duplicates = new Set<string>()
+  values.forEach((value) => {
+    if (seen.has(value)) duplicates.add(value)
+    seen.add(value)
+  })
+  return duplicates
+}
+
+// 结构校验无法覆盖的引用完整性检查：精选产品、分类引用、手册选品、关联产品、变体选项、重复 id / SKU、缺失的翻译
+const checkReferences = (data: SiteData): SiteDataIssue[] => {
+  const issues: SiteDataIssue[] = []
+  const reference = (path: string, message: string) => issues.push({ path, message, kind: 'reference' })
+
+  if (!data.locales.includes(data.defaultLocale)) {
+    reference('defaultLocale', `"${data.defaultLocale}" is not listed in locales`)
+  }
+
+  // 每段多语言文本都必须包含所有启用语言的非空内容；开启「隐藏未翻译产品」的语言中，产品文本可以缺失（该产品不展示）
+  const hiddenLocales = new Set(
+    (data.settings.hideUntranslatedProducts ?? []).filter((locale) => locale !== DEFAULT_LOCALE)
+  )
+  collectLocalizedTexts(data).forEach((entry) => {
+    data.locales.forEach((locale) => {
+      if (entry.productId !== undefined && hiddenLocales.has(locale)) return
+      const reason = getMissingReason(entry.text, locale)
+      if (reason) reference(`${entry.path}.${locale}`, reason === 'missing' ? 'Missing translation' : 'Empty translation')
+    })
+  })
+
+  const productIds = new Set(data.products.map((product) => product.id))
+  const categories = new Map(data.categories.map((category) => [category.id, category]))
+
+  data.featuredProductIds.forEach((id, index) => {
+    if (!productIds.has(id)) {
+      reference(`featuredProductIds[${index}]`, `Product "${id}" does not exist`)
+    }
+  })
+
+  findDuplicates(data.products.map((product) => product.id)).forEach((id) => {
+    reference('products', `Duplicate product id "${id}"`)
+  })
+  // 变体 SKU 与产品 SKU 共用一个命名空间，按 SKU 查找时才能唯一定位
+  findDuplicates(
+    data.products.flatMap((product) => [product.sku, ...(product.variants ?? []).map((variant) => variant.sku)])
+  ).forEach((sku) => {
+    reference('products', `Duplicate SKU "${sku}"`)
+  })
+  findDuplicates(data.categories.map((category) => category.id)).forEach((id) => {
+    reference('categories', `Duplicate category id "${id}"`)
+  })
+  findDuplicates(
+    data.categories.flatMap((category) => category.subcategories.map((subcategory) => subcategory.id))
+  ).forEach((id) => {
+    reference('categories', `Duplicate subcategory id "${id}"`)
+  })
+
+  const subcategoryIds = new Set(
+    data.categories.flatMap((category) => category.subcategories.map((subcategory) => subcategory.id))
+  )
+  data.brochures?.forEach((brochure, index) => {
+    const path = `brochures[${index}]`
+    if (!data.locales.includes(brochure.locale)) {
+      reference(`${path}.locale`, `Brochure "${brochure.id}" uses "${brochure.locale}" which is not listed in locales`)
+    }
+    brochure.categoryIds.forEach((id, itemIndex) => {
+      if (!categories.has(id)) reference(`${path}.categoryIds[${itemIndex}]`, `Category "${id}" does not exist`)
+    })
+    brochure.subcategoryIds.forEach((id, itemIndex) => {
+      if (!subcategoryIds.has(id)) {
+        reference(`${path}.subcategoryIds[${itemIndex}]`, `Subcategory "${id}" does not exist`)
+      }
+    })
+    brochure.productIds.forEach((id, itemIndex) => {
+      if (!productIds.has(id)) reference(`${path}.productIds[${itemIndex}]`, `Product "${id}" does not exist`)
+    })
+  })
+
+  data.products.forEach((product, index) => {
+    const tiers = product.price.tiers ?? []
+    findDuplicates(tiers.map((tier) => String(tier.minQuantity))).forEach((quantity) => {
+      reference(`products[${index}].price.tiers`, `Product "${product.id}" has duplicate price tiers for ${quantity}+`)
+    })
+    tiers.forEach((tier, tierIndex) => {
+      if (tier.minQuantity < product.price.moq) {
+        reference(
+          `products[${index}].price.tiers[${tierIndex}].minQuantity`,
+          `Tier ${tier.minQuantity}+ is below the MOQ of ${product.price.moq}`
+        )
+      }
+    })
+
+    const links = { frequentlyQuotedWith: product.frequentlyQuotedWith, accessoryIds: product.accessoryIds }
+    Object.entries(links).forEach(([field, ids]) => {
+      ids?.forEach((id, linkIndex) => {
+        if (id === product.id) {
+          reference(`products[${index}].${field}[${linkIndex}]`, `Product "${product.id}" links to itself`)
+        } else if (!productIds.has(id)) {
+          reference(`products[${index}].${field}[${linkIndex}]`, `Product "${id}" does not exist`)
+        }
+      })
+    })
+
+    const options = product.options ?? []
+    findDuplicates(options.map((option) => option.id)).forEach((id) => {
+      reference(`products[${index}].options`, `Product "${product.id}" has duplicate option "${id}"`)
+    })
+    const variants = product.variants ?? []
+    findDuplicates(variants.map((variant) => variant.id)).forEach((id) => {
+      reference(`products[${index}].variants`, `Product "${product.id}" has duplicate variant id "${id}"`)
+    })
+    findDuplicates(
+      variants.map((variant) => options.map((option) => variant.options[option.id] ?? '').join('|'))
+    ).forEach((combination) => {
+      reference(
+        `products[${index}].variants`,
+        `Product "${product.id}" has more than one variant for the option combination "${combination}"`
+      )
+    })
+    variants.forEach((variant, variantIndex) => {
+      options.forEach((option) => {
+        const value = variant.options[option.id]
+        if (!option.values.some((item) => item.id === value)) {
+          reference(
+            `products[${index}].variants[${variantIndex}].options.${option.id}`,
+            value
+              ? `Variant "${variant.id}" uses unknown value "${value}" for option "${option.id}"`
+              : `Variant "${variant.id}" has no value for option "${option.id}"`
+          )
+        }
+      })
+    })
+
+    const { exchangeRates } = data
+    if (
+      exchangeRates &&
+      product.price.currency !== exchangeRates.base &&
+      !exchangeRates.rates[product.price.currency]
+    ) {
+      reference(
+        `products[${index}].price.currency`,
+        `No exchange rate for "${product.price.currency}" in exchangeRates`
+      )
+    }
+
+    const category = categories.get(product.categoryId)
+    if (!category) {
+      reference(
+        `products[${index}].categoryId`,
+        `Product "${product.id}" references unknown category "${product.categoryId}"`
+      )
+      return
+    }
+    if (
+      product.subcategoryId &&
+      !category.subcategories.some((subcategory) => subcategory.id === product.subcategoryId)
+    ) {
+      reference(
+        `products[${index}].subcategoryId`,
+        `Product "${product.id}" references subcategory "${product.subcategoryId}" which is not part of category "${category.id}"`
+      )
+    }
+  })
+
+  return issues
+}
+
+export const validateSiteData = (data: unknown): SiteDataIssue[] => {
+  const result = siteDataSchema.safeParse(data)
+  if (result.success) return checkReferences(result.data)
+
+  const schemaIssues = result.error.issues.map<SiteDataIssue>((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+    kind: 'schema'
+  }))
+  // 结构有误时仍尽量给出引用问题，结构缺失导致的异常直接忽略
+  try {
+    return [...schemaIssues, ...checkReferences(data as SiteData)]
+  } catch {
+    return schemaIssues
+  }
+}
+
+export const formatSiteDataReport = (issues: SiteDataIssue[], source = 'site-data.json') => {
+  if (issues.length === 0) return `${source}: no problems found`
+  const lines = issues.map((issue) => `  ✗ [${issue.kind}] ${issue.path}: ${issue.message}`)
+  return [`${source}: found ${issues.length} problem(s)`, ...lines].join('\n')
+}
@@ -1,6 +1,9 @@
-export type Locale = 'en' | 'zh'
+import type { LOCALE_CODES } from '../i18n/locales'
 
-export type LocalizedText = Record<Locale, string>
+export type Locale = (typeof LOCALE_CODES)[number]
+
+// 英文为必填的回退语言，其余语言可逐步补充
+export type LocalizedText = { en: string } & Partial<Record<Locale, string>>
 
 export interface SeoContent {
   title: LocalizedText
@@ -14,6 +17,8 @@ export interface SiteSettings {
   adminPassword: string
   seoDefaults: SeoContent
   twitterHandle?: string
+  // 这些语言下隐藏翻译不完整的产品
+  hideUntranslatedProducts?: Locale[]
 }
 
 export interface HeroContent {
@@ -52,6 +57,46 @@ export interface Category {
   }>
 }
 
+export interface PriceTier {
+  minQuantity: number
+  amount: number
+}
+
+// 手动设置的库存状态；in_stock 时还会结合 inventory 中的数量判断「库存紧张」与「已售罄」
+export type StockStatus = 'in_stock' | 'out_of_stock' | 'backorder' | 'pre_order' | 'made_to_order' | 'discontinued'
+
+export interface Inventory {
+  // 现货数量，未填写时不按数量判断
+  quantity?: number
+  // 数量不高于该值时显示「库存紧张」
+  lowStockThreshold?: number
+  // 预计补货 / 到货日期（ISO 8601）
+  restockDate?: string
+}
+
+// 变体的选项轴，如尺码、颜色
+export interface ProductOption {
+  id: string
+  name: LocalizedText
+  values: Array<{
+    id: string
+    label: LocalizedText
+  }>
+}
+
+export interface ProductVariant {
+  id: string
+  sku: string
+  // 每个选项轴选中的取值：option id -> value id
+  options: Record<string, string>
+  // 以下字段留空时沿用产品本身的价格、起订量与图片；覆盖价格时不再套用产品的阶梯价
+  amount?: number
+  moq?: number
+  stockStatus: StockStatus
+  inventory?: Inventory
+  images?: string[]
+}
+
 export interface Product {
   id: string
   sku: string
@@ -65,6 +110,7 @@ export interface Product {
     currency: string
     unit: LocalizedText
     moq: number
+    tiers?: PriceTier[]
   }
   images: string[]
   mainImage: string
@@ -74,10 +120,19 @@ export interface Product {
     value: LocalizedText
   }>
   certifications: string[]
-  stockStatus: 'in_stock' | 'out_of_stock'
+  stockStatus: StockStatus
+  inventory?: Inventory
   leadTime: LocalizedText
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+  // 人工维护的「常一起询价」产品，推荐时双向生效
+  frequentlyQuotedWith?: string[]
+  // 「配套选购」的配件与耗材，如计时系统对应的计时地垫
+  accessoryIds?: string[]
   seo: SeoContent
-  translationStatus: Record<Locale, boolean>
+  // 不收录：不写入 sitemap，详情页输出 robots noindex
+  noindex?: boolean
+  translationStatus: Partial<Record<Locale, boolean>>
   createdAt: string
   updatedAt: string
 }
@@ -121,7 +176,30 @@ export interface SeoPages {
   contact: SeoContent
 }
 
+// 静态汇率表：rates[code] 为 1 单位 base 货币可兑换的金额
+export interface ExchangeRates {
+  base: string
+  asOf: string
+  rates: Record<string, number>
+}
+
+export type BrochureSelection = 'categories' | 'subcategories' | 'products'
+
+// 产品手册定义：只保存选品规则与语言，每次生成都按最新的 SiteData 重新排版
+export interface BrochureDefinition {
+  id: string
+  title: LocalizedText
+  // categories / subcategories 收录所选分类下的全部产品；products 为手动挑选的产品清单
+  selection: BrochureSelection
+  categoryIds: string[]
+  subcategoryIds: string[]
+  productIds: string[]
+  locale: Locale
+  updatedAt: string
+}
+
 export interface SiteData {
+  schemaVersion: number
   locales: Locale[]
   defaultLocale: Locale
   settings: SiteSettings
@@ -132,9 +210,49 @@ export interface SiteData {
   categories: Category[]
   featuredProductIds: string[]
   products: Product[]
+  exchangeRates?: ExchangeRates
+  brochures?: BrochureDefinition[]
   about: AboutContent
   contact: ContactInfo
   seo: {
     pages: SeoPages
   }
 }
+
+export type InquiryStatus = 'new' | 'contacted' | 'quoted' | 'won' | 'lost'
+
+export interface InquiryNote {
+  id: string
+  content: string
+  author?: string
+  createdAt: string
+}
+
+export interface InquiryItem {
+  productId: string
+  sku: string
+  quantity: number
+  unitPrice: number
+  currency: string
+}
+
+export interface Inquiry {
+  id: string
+  name: string
+  email: string
+  phone?: string
+  company?: string
+  message: string
+  quantity?: number
+  productId?: string
+  // 单一产品询价时买家所选的变体，sku 为提交时所选产品（含变体）的 SKU
+  variantId?: string
+  sku?: string
+  items?: InquiryItem[]
+  locale: Locale
+  status: InquiryStatus
+  assignee?: string
+  notes: InquiryNote[]
+  createdAt: string
+  updatedAt?: string
+}
@@ -0,0 +1,67 @@
+import { createLocalizedText } from './localize'
+import type { Product, SiteData } from '../types/site'
+
+export const ADMIN_SESSION_KEY = 'xj-admin-session'
+
+// 生成 URL 友好的 id，中文等非 ASCII 名称回退到时间戳
+export const slugify = (value: string, fallbackPrefix: string) => {
+  const slug = value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return slug || `${fallbackPrefix}-${Date.now().toString(36)}`
+}
+
+export const createUniqueId = (base: string, existingIds: string[]) => {
+  if (!existingIds.includes(base)) return base
+  let index = 2
+  while (existingIds.includes(`${base}-${index}`)) index += 1
+  return `${base}-${index}`
+}
+
+// 列表中上移（offset 为 -1）或下移（offset 为 1）一项，越界时保持不变
+export const moveItem = <T>(items: T[], index: number, offset: number) => {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+export const createEmptyProduct = (siteData: SiteData): Product => {
+  const empty = () => createLocalizedText(siteData.locales)
+  const now = new Date().toISOString()
+  return {
+    id: '',
+    sku: '',
+    categoryId: siteData.categories[0]?.id ?? '',
+    subcategoryId: undefined,
+    name: empty(),
+    shortDescription: empty(),
+    description: empty(),
+    price: {
+      amount: 0,
+      currency: siteData.products[0]?.price.currency ?? 'USD',
+      unit: empty(),
+      moq: 1
+    },
+    images: [],
+    mainImage: '',
+    features: [],
+    specs: [],
+    certifications: [],
+    stockStatus: 'in_stock',
+    leadTime: empty(),
+    seo: {
+      title: empty(),
+      description: empty()
+    },
+    translationStatus: siteData.locales.reduce(
+      (status, locale) => ({ ...status, [locale]: false }),
+      {} as Product['translationStatus']
+    ),
+    createdAt: now,
+    updatedAt: now
+  }
+}
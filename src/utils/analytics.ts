@@ -0,0 +1,179 @@
+// 访客行为事件：事件类型与各自携带的数据一一对应，track 时由类型推断 data 的结构
+export interface AnalyticsEventMap {
+  page_view: { path: string }
+  product_view: { productId: string; variantId?: string }
+  filter_change: { filter: string; value: string }
+  lightbox_open: { productId: string; image: string }
+  whatsapp_click: { path: string }
+  // 询价篮整体提交时包含每一行的产品；未选择产品的一般咨询为空数组
+  inquiry_submitted: { productIds: string[] }
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventMap
+
+export const ANALYTICS_EVENT_TYPES = [
+  'page_view',
+  'product_view',
+  'filter_change',
+  'lightbox_open',
+  'whatsapp_click',
+  'inquiry_submitted'
+] as const satisfies readonly AnalyticsEventType[]
+
+export type AnalyticsEvent = {
+  [K in AnalyticsEventType]: {
+    id: string
+    type: K
+    // 同一浏览器标签页内的访问共用一个会话，用于计算转化漏斗
+    sessionId: string
+    timestamp: string
+    locale: string
+    data: AnalyticsEventMap[K]
+  }
+}[AnalyticsEventType]
+
+// 事件的去向；可同时启用多个，也可以在 AnalyticsProvider 中替换为自定义实现
+export interface AnalyticsSink {
+  name: string
+  send: (event: AnalyticsEvent) => void
+}
+
+export type AnalyticsConsent = 'granted' | 'denied'
+
+const CONSENT_STORAGE_KEY = 'xj-analytics-consent'
+const SESSION_STORAGE_KEY = 'xj-analytics-session'
+export const ANALYTICS_EVENTS_STORAGE_KEY = 'xj-analytics-events'
+
+// 本地环形缓冲区最多保留的事件数，超出后丢弃最早的事件
+export const ANALYTICS_BUFFER_SIZE = 500
+
+export const ANALYTICS_ENDPOINT = import.meta.env.VITE_ANALYTICS_ENDPOINT
+
+// 隐私模式、禁用存储或超出配额时存储会抛错，此时同意状态与会话 id 只保存在内存中，仅在本次页面加载内有效
+let memoryConsent: AnalyticsConsent | null = null
+let memorySessionId: string | null = null
+
+// 尚未选择时返回 null；预渲染时视为拒绝，页面 HTML 中不输出同意横幅
+export const loadConsent = (): AnalyticsConsent | null => {
+  if (typeof window === 'undefined') return 'denied'
+  try {
+    const value = localStorage.getItem(CONSENT_STORAGE_KEY)
+    return value === 'granted' || value === 'denied' ? value : null
+  } catch {
+    return memoryConsent
+  }
+}
+
+export const saveConsent = (consent: AnalyticsConsent | null) => {
+  memoryConsent = consent
+  try {
+    if (consent) localStorage.setItem(CONSENT_STORAGE_KEY, consent)
+    else localStorage.removeItem(CONSENT_STORAGE_KEY)
+  } catch {
+    // 无法写入时下次访问会重新询问
+  }
+}
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const getSessionId = () => {
+  try {
+    const existing = sessionStorage.getItem(SESSION_STORAGE_KEY)
+    if (existing) return existing
+    const sessionId = memorySessionId ?? `s-${createId()}`
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId)
+    return sessionId
+  } catch {
+    memorySessionId ??= `s-${createId()}`
+    return memorySessionId
+  }
+}
+
+export const createEvent = <K extends AnalyticsEventType>(
+  type: K,
+  data: AnalyticsEventMap[K],
+  locale: string
+) =>
+  ({
+    id: `evt-${createId()}`,
+    type,
+    sessionId: getSessionId(),
+    timestamp: new Date().toISOString(),
+    locale,
+    data
+  }) as AnalyticsEvent
+
+// 同一次页面访问中只记录一次的事件：切换语言会以新的 basename 重新挂载路由，页面组件的副作用重新执行，不应重复计数
+export const getOncePerPageKey = (event: AnalyticsEvent) => {
+  if (event.type === 'page_view') return `page_view:${event.data.path}`
+  if (event.type === 'product_view') return `product_view:${event.data.productId}`
+  return null
+}
+
+export const loadStoredEvents = (): AnalyticsEvent[] => {
+  try {
+    const raw = localStorage.getItem(ANALYTICS_EVENTS_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as AnalyticsEvent[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const clearStoredEvents = () => {
+  try {
+    localStorage.removeItem(ANALYTICS_EVENTS_STORAGE_KEY)
+  } catch {
+    // 存储被禁用时本机也不会有已记录的事件
+  }
+}
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  name: 'console',
+  send: (event) => console.info(`[analytics] ${event.type}`, event.data)
+})
+
+export const createStorageSink = (size = ANALYTICS_BUFFER_SIZE): AnalyticsSink => ({
+  name: 'storage',
+  send: (event) => {
+    try {
+      localStorage.setItem(ANALYTICS_EVENTS_STORAGE_KEY, JSON.stringify([...loadStoredEvents(), event].slice(-size)))
+    } catch {
+      // 存储已满或被禁用时放弃记录，不影响页面
+    }
+  }
+})
+
+// 优先使用 sendBeacon，页面跳转或关闭时也能送达；不支持时退回 keepalive 的 fetch。
+// 以 text/plain 发送 JSON，跨域时属于简单请求，不触发预检
+export const createBeaconSink = (endpoint: string): AnalyticsSink => ({
+  name: 'beacon',
+  send: (event) => {
+    const body = JSON.stringify(event)
+    if (navigator.sendBeacon?.(endpoint, body)) return
+    void fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body,
+      keepalive: true
+    }).catch(() => undefined)
+  }
+})
+
+/**
+ * 按 VITE_ANALYTICS_SINKS（逗号分隔的 console、storage、beacon）创建事件去向。
+ * 未配置时始终写入本地缓冲区，开发环境额外输出到控制台，配置了 VITE_ANALYTICS_ENDPOINT 时发送到该地址。
+ */
+export const createDefaultSinks = (): AnalyticsSink[] => {
+  const configured = import.meta.env.VITE_ANALYTICS_SINKS?.split(',').map((name) => name.trim())
+  const names = configured ?? [
+    'storage',
+    ...(import.meta.env.DEV ? ['console'] : []),
+    ...(ANALYTICS_ENDPOINT ? ['beacon'] : [])
+  ]
+  return names.flatMap((name) => {
+    if (name === 'console') return [createConsoleSink()]
+    if (name === 'storage') return [createStorageSink()]
+    if (name === 'beacon' && ANALYTICS_ENDPOINT) return [createBeaconSink(ANALYTICS_ENDPOINT)]
+    return []
+  })
+}
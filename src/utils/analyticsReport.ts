@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import { ANALYTICS_EVENT_TYPES } from './analytics'
+import type { AnalyticsEvent, AnalyticsEventMap, AnalyticsEventType } from './analytics'
+
+// 转化漏斗的各个阶段，按会话统计：访问 → 查看产品 → 提交询价
+export const FUNNEL_STAGES = ['page_view', 'product_view', 'inquiry_submitted'] as const satisfies readonly AnalyticsEventType[]
+
+export interface ProductStats {
+  productId: string
+  views: number
+  lightboxOpens: number
+  inquiries: number
+}
+
+export interface FunnelStep {
+  stage: (typeof FUNNEL_STAGES)[number]
+  sessions: number
+  // 相对第一阶段的转化率（0–1）
+  rate: number
+}
+
+export interface FilterStats {
+  filter: string
+  value: string
+  count: number
+}
+
+const eventDataSchemas: { [K in AnalyticsEventType]: z.ZodType<AnalyticsEventMap[K]> } = {
+  page_view: z.object({ path: z.string() }),
+  product_view: z.object({ productId: z.string(), variantId: z.string().optional() }),
+  filter_change: z.object({ filter: z.string(), value: z.string() }),
+  lightbox_open: z.object({ productId: z.string(), image: z.string() }),
+  whatsapp_click: z.object({ path: z.string() }),
+  inquiry_submitted: z.object({ productIds: z.array(z.string()) })
+}
+
+const eventSchema = z.object({
+  id: z.string(),
+  type: z.enum(ANALYTICS_EVENT_TYPES),
+  sessionId: z.string(),
+  timestamp: z.string(),
+  locale: z.string(),
+  data: z.unknown()
+})
+
+const parseEvent = (value: unknown): AnalyticsEvent | null => {
+  const event = eventSchema.safeParse(value)
+  if (!event.success) return null
+  const data = eventDataSchemas[event.data.type].safeParse(event.data.data)
+  return data.success ? ({ ...event.data, data: data.data } as AnalyticsEvent) : null
+}
+
+/**
+ * 校验来自本地缓冲区或统计接口的原始数据，丢弃未知类型（如旧版本记录）或结构不完整的事件，
+ * skipped 为被丢弃的条数
+ */
+export const parseAnalyticsEvents = (raw: unknown) => {
+  const items: unknown[] = Array.isArray(raw) ? raw : []
+  const events = items.map(parseEvent).filter((event): event is AnalyticsEvent => event !== null)
+  return { events, skipped: items.length - events.length }
+}
+
+const increment = <K>(map: Map<K, number>, key: K) => map.set(key, (map.get(key) ?? 0) + 1)
+
+export const buildAnalyticsReport = (events: AnalyticsEvent[], limit = 10) => {
+  const totals = Object.fromEntries(ANALYTICS_EVENT_TYPES.map((type) => [type, 0])) as Record<
+    AnalyticsEventType,
+    number
+  >
+  const productStats = new Map<string, ProductStats>()
+  const filterCounts = new Map<string, number>()
+  const sessionTypes = new Map<string, Set<AnalyticsEventType>>()
+
+  const getProductStats = (productId: string) => {
+    const stats = productStats.get(productId) ?? { productId, views: 0, lightboxOpens: 0, inquiries: 0 }
+    productStats.set(productId, stats)
+    return stats
+  }
+
+  events.forEach((event) => {
+    totals[event.type] += 1
+    const types = sessionTypes.get(event.sessionId) ?? new Set<AnalyticsEventType>()
+    types.add(event.type)
+    sessionTypes.set(event.sessionId, types)
+
+    switch (event.type) {
+      case 'product_view':
+        getProductStats(event.data.productId).views += 1
+        break
+      case 'lightbox_open':
+        getProductStats(event.data.productId).lightboxOpens += 1
+        break
+      case 'inquiry_submitted':
+        new Set(event.data.productIds).forEach((productId) => (getProductStats(productId).inquiries += 1))
+        break
+      case 'filter_change':
+        increment(filterCounts, JSON.stringify([event.data.filter, event.data.value]))
+        break
+    }
+  })
+
+  // 只有依次经过前面所有阶段的会话才计入下一阶段，漏斗因此单调递减
+  const sessions = [...sessionTypes.values()]
+  const funnelCounts = FUNNEL_STAGES.map(
+    (_, index) => sessions.filter((types) => FUNNEL_STAGES.slice(0, index + 1).every((stage) => types.has(stage))).length
+  )
+  const funnel: FunnelStep[] = FUNNEL_STAGES.map((stage, index) => ({
+    stage,
+    sessions: funnelCounts[index],
+    rate: funnelCounts[0] > 0 ? funnelCounts[index] / funnelCounts[0] : 0
+  }))
+
+  const topProducts = [...productStats.values()]
+    .sort((a, b) => b.views - a.views || b.inquiries - a.inquiries)
+    .slice(0, limit)
+
+  const topFilters: FilterStats[] = [...filterCounts.entries()]
+    .map(([key, count]) => {
+      const [filter, value] = JSON.parse(key) as [string, string]
+      return { filter, value, count }
+    })
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+
+  return { totals, sessionCount: sessions.length, topProducts, funnel, topFilters }
+}
@@ -0,0 +1,105 @@
+import { createLocalizedText } from './localize'
+import { getVisibleProducts } from './translations'
+import type { BrochureDefinition, Category, Product, SiteData } from '../types/site'
+
+// 分页规则固定，目录中的页码才能与打印结果一致
+export const BROCHURE_PRODUCTS_PER_PAGE = 2
+export const BROCHURE_PRICE_ROWS_PER_PAGE = 20
+// 产品页只排入前几条卖点与规格，避免内容溢出到下一页
+export const BROCHURE_MAX_FEATURES = 5
+export const BROCHURE_MAX_SPECS = 8
+
+export interface BrochureSection {
+  category: Category
+  products: Product[]
+  // 该分类首页的页码（封面为第 1 页）
+  page: number
+}
+
+export type BrochurePage =
+  | { type: 'cover' }
+  | { type: 'contents' }
+  | { type: 'category'; category: Category; products: Product[]; continued: boolean }
+  | { type: 'prices'; products: Product[]; continued: boolean }
+  | { type: 'back' }
+
+export interface BrochureLayout {
+  sections: BrochureSection[]
+  pages: BrochurePage[]
+  pricePage: number
+  backPage: number
+  productCount: number
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size))
+
+export const createBrochureDefinition = (siteData: SiteData, id: string): BrochureDefinition => ({
+  id,
+  title: createLocalizedText(siteData.locales),
+  selection: 'categories',
+  categoryIds: siteData.categories.map((category) => category.id),
+  subcategoryIds: [],
+  productIds: [],
+  locale: siteData.defaultLocale,
+  updatedAt: new Date().toISOString()
+})
+
+// 按定义选出产品；隐藏未翻译产品的语言下同样不收录这些产品
+export const selectBrochureProducts = (siteData: SiteData, definition: BrochureDefinition) => {
+  const visible = getVisibleProducts(siteData, definition.locale)
+  switch (definition.selection) {
+    case 'categories':
+      return visible.filter((product) => definition.categoryIds.includes(product.categoryId))
+    case 'subcategories':
+      return visible.filter(
+        (product) => product.subcategoryId !== undefined && definition.subcategoryIds.includes(product.subcategoryId)
+      )
+    case 'products':
+      return definition.productIds
+        .map((id) => visible.find((product) => product.id === id))
+        .filter((product): product is Product => Boolean(product))
+  }
+}
+
+/**
+ * 按 SiteData 中的分类顺序分组排版：分类内先按子分类顺序，再保持选品顺序（手动清单的顺序或产品列表顺序）。
+ * 页面依次为封面、目录、各分类产品页、价格表与封底。
+ */
+export const buildBrochureLayout = (siteData: SiteData, definition: BrochureDefinition): BrochureLayout => {
+  const selected = selectBrochureProducts(siteData, definition)
+
+  const grouped = siteData.categories
+    .map((category) => {
+      const subcategoryOrder = category.subcategories.map((subcategory) => subcategory.id)
+      const rank = (product: Product) => {
+        const index = product.subcategoryId ? subcategoryOrder.indexOf(product.subcategoryId) : -1
+        return index === -1 ? subcategoryOrder.length : index
+      }
+      const products = selected
+        .filter((product) => product.categoryId === category.id)
+        .map((product, index) => ({ product, index }))
+        .sort((a, b) => rank(a.product) - rank(b.product) || a.index - b.index)
+        .map(({ product }) => product)
+      return { category, products }
+    })
+    .filter((group) => group.products.length > 0)
+
+  const pages: BrochurePage[] = [{ type: 'cover' }, { type: 'contents' }]
+  const sections = grouped.map(({ category, products }) => {
+    const page = pages.length + 1
+    chunk(products, BROCHURE_PRODUCTS_PER_PAGE).forEach((pageProducts, index) => {
+      pages.push({ type: 'category', category, products: pageProducts, continued: index > 0 })
+    })
+    return { category, products, page }
+  })
+
+  const ordered = sections.flatMap((section) => section.products)
+  const pricePage = pages.length + 1
+  chunk(ordered, BROCHURE_PRICE_ROWS_PER_PAGE).forEach((pageProducts, index) => {
+    pages.push({ type: 'prices', products: pageProducts, continued: index > 0 })
+  })
+  pages.push({ type: 'back' })
+
+  return { sections, pages, pricePage, backPage: pages.length, productCount: ordered.length }
+}
@@ -0,0 +1,104 @@
+import type { FacetSelection } from './facets'
+
+export const CATALOG_SORTS = ['relevance', 'latest', 'nameAsc', 'priceAsc', 'priceDesc'] as const
+
+export type CatalogSort = (typeof CATALOG_SORTS)[number]
+
+export interface CatalogFilters {
+  search: string
+  categoryId: string
+  subcategoryId: string
+  stockStatus: string
+  sortBy: CatalogSort
+  // 未设置时取目录当前的价格上下限
+  minPrice?: number
+  maxPrice?: number
+  facets: FacetSelection
+  page: number
+}
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  search: '',
+  categoryId: 'all',
+  subcategoryId: 'all',
+  stockStatus: 'all',
+  sortBy: 'relevance',
+  facets: {},
+  page: 1
+}
+
+// 价格区间所用的币种，链接在其他展示币种下打开时据此换算
+export const PRICE_CURRENCY_PARAM = 'currency'
+
+// 分面以 f.<分面 id> 为参数名，多选时重复出现，如 f.cert=CE&f.cert=FIBA
+const FACET_PARAM_PREFIX = 'f.'
+
+type ScalarFilterKey = Exclude<keyof CatalogFilters, 'facets'>
+
+const PARAM_KEYS: Record<ScalarFilterKey, string> = {
+  search: 'q',
+  categoryId: 'category',
+  subcategoryId: 'subcategory',
+  stockStatus: 'stock',
+  sortBy: 'sort',
+  minPrice: 'min',
+  maxPrice: 'max',
+  page: 'page'
+}
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+const parseFacets = (params: URLSearchParams) => {
+  const facets: FacetSelection = {}
+  params.forEach((value, key) => {
+    if (!key.startsWith(FACET_PARAM_PREFIX) || !value) return
+    const id = key.slice(FACET_PARAM_PREFIX.length)
+    if (id && !facets[id]?.includes(value)) {
+      facets[id] = [...(facets[id] ?? []), value]
+    }
+  })
+  return facets
+}
+
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const sortBy = params.get(PARAM_KEYS.sortBy)
+  const page = parseNumber(params.get(PARAM_KEYS.page))
+  return {
+    search: params.get(PARAM_KEYS.search) ?? DEFAULT_CATALOG_FILTERS.search,
+    categoryId: params.get(PARAM_KEYS.categoryId) || DEFAULT_CATALOG_FILTERS.categoryId,
+    subcategoryId: params.get(PARAM_KEYS.subcategoryId) || DEFAULT_CATALOG_FILTERS.subcategoryId,
+    stockStatus: params.get(PARAM_KEYS.stockStatus) || DEFAULT_CATALOG_FILTERS.stockStatus,
+    sortBy: CATALOG_SORTS.find((item) => item === sortBy) ?? DEFAULT_CATALOG_FILTERS.sortBy,
+    minPrice: parseNumber(params.get(PARAM_KEYS.minPrice)),
+    maxPrice: parseNumber(params.get(PARAM_KEYS.maxPrice)),
+    facets: parseFacets(params),
+    page: page && page >= 1 ? Math.floor(page) : DEFAULT_CATALOG_FILTERS.page
+  }
+}
+
+// 写回查询参数：保留其他参数，取默认值的筛选项不写入 URL
+export const writeCatalogFilters = (params: URLSearchParams, filters: CatalogFilters) => {
+  const next = new URLSearchParams(params)
+  const keys = Object.keys(PARAM_KEYS) as ScalarFilterKey[]
+  keys.forEach((key) => {
+    const value = filters[key]
+    if (value === undefined || value === DEFAULT_CATALOG_FILTERS[key] || value === '') {
+      next.delete(PARAM_KEYS[key])
+    } else {
+      next.set(PARAM_KEYS[key], String(value))
+    }
+  })
+  const facetKeys = [...next.keys()].filter((key) => key.startsWith(FACET_PARAM_PREFIX))
+  facetKeys.forEach((key) => next.delete(key))
+  Object.entries(filters.facets).forEach(([id, values]) => {
+    values.forEach((value) => next.append(`${FACET_PARAM_PREFIX}${id}`, value))
+  })
+  if (filters.minPrice === undefined && filters.maxPrice === undefined) {
+    next.delete(PRICE_CURRENCY_PARAM)
+  }
+  return next
+}
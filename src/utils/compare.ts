@@ -0,0 +1,48 @@
+import { getLocalizedKey } from './localize'
+import type { LocalizedText, Product } from '../types/site'
+
+export const MAX_COMPARE_ITEMS = 4
+
+// 对比页链接形如 /compare?ids=p-timer,p-mat
+export const COMPARE_IDS_PARAM = 'ids'
+
+export interface SpecRow {
+  key: string
+  label: LocalizedText
+  // 与产品顺序一一对应，缺少该规格的产品为 undefined
+  values: Array<LocalizedText | undefined>
+  differs: boolean
+}
+
+export const parseCompareIds = (value: string | null) =>
+  [...new Set((value ?? '').split(',').map((id) => id.trim()).filter(Boolean))].slice(0, MAX_COMPARE_ITEMS)
+
+export const buildComparePath = (ids: string[]) =>
+  ids.length > 0 ? `/compare?${COMPARE_IDS_PARAM}=${ids.join(',')}` : '/compare'
+
+// 任意两项取值不同（包括某个产品缺少该项）即视为存在差异
+export const hasDifference = (keys: string[]) => new Set(keys).size > 1
+
+// 按规格名称对齐各产品的规格，行的顺序取规格首次出现的位置
+export const buildSpecRows = (products: Product[]): SpecRow[] => {
+  const rows = new Map<string, SpecRow>()
+  products.forEach((product, index) => {
+    product.specs.forEach((spec) => {
+      const key = getLocalizedKey(spec.label)
+      if (!key) return
+      const row = rows.get(key) ?? {
+        key,
+        label: spec.label,
+        values: products.map(() => undefined),
+        differs: false
+      }
+      // 同一产品重复的规格名称只取第一条
+      row.values[index] ??= spec.value
+      rows.set(key, row)
+    })
+  })
+  return [...rows.values()].map((row) => ({
+    ...row,
+    differs: hasDifference(row.values.map((value) => getLocalizedKey(value)))
+  }))
+}
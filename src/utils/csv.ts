@@ -0,0 +1,91 @@
+// 解析后的一行及其在原表格中的行号（从 1 开始），跳过空行后仍能准确指出出错位置
+export interface SheetRow {
+  rowNumber: number
+  cells: string[]
+}
+
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => string | number | undefined | null
+}
+
+// 以这些字符开头的文本会被 Excel / Sheets 当作公式执行（CSV 公式注入），导出时加 ' 前缀按纯文本处理
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCell = (value: string | number | undefined | null) => {
+  const raw = value === undefined || value === null ? '' : String(value)
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 以 BOM 开头，保证 Excel 正确识别中文
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) => {
+  const lines = [
+    columns.map((column) => escapeCell(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCell(column.value(row))).join(','))
+  ]
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+// 根据首行（引号外）出现次数最多的符号判断分隔符，兼容 Excel 在部分地区导出的分号分隔文件
+const detectDelimiter = (text: string) => {
+  const counts = { ',': 0, ';': 0, '\t': 0 }
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '\n' || char === '\r')) break
+    else if (!quoted && char in counts) counts[char as keyof typeof counts] += 1
+  }
+  return (Object.keys(counts) as Array<keyof typeof counts>).reduce((best, key) =>
+    counts[key] > counts[best] ? key : best
+  )
+}
+
+// 按 RFC 4180 解析：支持引号包裹的分隔符、换行与 "" 转义；忽略开头的 BOM 与完全空白的行。
+// 行号按记录计数（与 Excel 打开时的行号一致），空行同样占用行号
+export const parseCsv = (input: string): SheetRow[] => {
+  const text = input.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(text)
+  const rows: SheetRow[] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let rowNumber = 1
+
+  // 去掉导出时为防公式注入添加的 ' 前缀，保证导出的表格可以原样导回
+  const pushCell = () => row.push(/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell)
+
+  const endRow = () => {
+    pushCell()
+    if (row.some((value) => value.trim())) rows.push({ rowNumber, cells: row })
+    row = []
+    cell = ''
+    rowNumber += 1
+  }
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      pushCell()
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) endRow()
+  return rows
+}
@@ -0,0 +1,22 @@
+import type { ExchangeRates, Product } from '../types/site'
+
+export const CURRENCY_STORAGE_KEY = 'xj-currency'
+
+const getRate = (table: ExchangeRates, currency: string) =>
+  currency === table.base ? 1 : table.rates[currency]
+
+// 无汇率表或缺少对应汇率时返回 null，由调用方决定是否回退到原币种
+export const convertAmount = (amount: number, from: string, to: string, table?: ExchangeRates) => {
+  if (from === to) return amount
+  if (!table) return null
+  const fromRate = getRate(table, from)
+  const toRate = getRate(table, to)
+  if (!fromRate || !toRate) return null
+  return (amount / fromRate) * toRate
+}
+
+export const getDisplayCurrencies = (table?: ExchangeRates) =>
+  table ? [table.base, ...Object.keys(table.rates).filter((code) => code !== table.base)] : []
+
+export const hasMixedCurrencies = (products: Product[]) =>
+  new Set(products.map((product) => product.price.currency)).size > 1
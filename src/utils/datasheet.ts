@@ -0,0 +1,38 @@
+import { printAsPdf } from './download'
+import { localize } from './localize'
+import { VARIANT_PARAM } from './variants'
+import type { Locale, LocalizedText, Product } from '../types/site'
+
+export const DATASHEET_EDITIONS = ['en', 'zh', 'bilingual'] as const
+
+export type DatasheetEdition = (typeof DATASHEET_EDITIONS)[number]
+
+// 规格书链接形如 /products/p-jersey/datasheet?variant=v-m-red&edition=bilingual
+export const DATASHEET_EDITION_PARAM = 'edition'
+
+const EDITION_LOCALES: Record<DatasheetEdition, Locale[]> = {
+  en: ['en'],
+  zh: ['zh'],
+  bilingual: ['en', 'zh']
+}
+
+// 未指定版本时跟随界面语言，界面为中文时默认中文版，其余语言默认英文版
+export const parseDatasheetEdition = (value: string | null, locale: Locale): DatasheetEdition =>
+  DATASHEET_EDITIONS.find((edition) => edition === value) ?? (locale === 'zh' ? 'zh' : 'en')
+
+export const getEditionLocales = (edition: DatasheetEdition) => EDITION_LOCALES[edition]
+
+export const buildDatasheetPath = (productId: string, variantId?: string, edition?: DatasheetEdition) => {
+  const params = new URLSearchParams()
+  if (variantId) params.set(VARIANT_PARAM, variantId)
+  if (edition) params.set(DATASHEET_EDITION_PARAM, edition)
+  const query = params.toString()
+  return `/products/${productId}/datasheet${query ? `?${query}` : ''}`
+}
+
+// 双语版中两种语言内容相同（如型号、未翻译的字段）时只显示一次
+export const joinLocalized = (text: LocalizedText | undefined, locales: Locale[], separator = ' / ') =>
+  [...new Set(locales.map((locale) => localize(text, locale)).filter(Boolean))].join(separator)
+
+export const printDatasheet = (product: Product, edition: DatasheetEdition) =>
+  printAsPdf(`${product.sku || product.id}-datasheet-${edition}`)
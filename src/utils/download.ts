@@ -0,0 +1,29 @@
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export const downloadJson = (filename: string, data: unknown) => {
+  downloadFile(filename, `${JSON.stringify(data, null, 2)}\n`, 'application/json')
+}
+
+// 打印对话框中选择“另存为 PDF”即可在浏览器内离线生成文件；浏览器以页面标题作为默认文件名，打印期间临时替换
+export const printAsPdf = (filename: string) => {
+  const previousTitle = document.title
+  window.addEventListener(
+    'afterprint',
+    () => {
+      document.title = previousTitle
+    },
+    { once: true }
+  )
+  document.title = filename
+  window.print()
+}
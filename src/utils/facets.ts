@@ -0,0 +1,169 @@
+import { getLocalizedKey } from './localize'
+import type { LocalizedText, Product } from '../types/site'
+
+export type FacetKind = 'certification' | 'moq' | 'leadTime' | 'spec'
+
+// 分面 id -> 已勾选的取值；同一分面内为“或”，不同分面之间为“且”
+export type FacetSelection = Record<string, string[]>
+
+export interface FacetOption {
+  value: string
+  label: LocalizedText
+  count: number
+}
+
+export interface Facet {
+  id: string
+  kind: FacetKind
+  // 规格分面使用规格名称作为标题，其余分面标题走 i18n
+  label?: LocalizedText
+  options: FacetOption[]
+}
+
+export interface FacetIndex {
+  facets: Array<Omit<Facet, 'options'> & { options: Array<Omit<FacetOption, 'count'>> }>
+  values: Map<string, Record<string, string[]>>
+}
+
+// 取值过多的规格（如尺寸、重量）更适合搜索，不生成分面
+const MAX_SPEC_OPTIONS = 12
+
+const KIND_ORDER: FacetKind[] = ['certification', 'moq', 'leadTime', 'spec']
+
+const MOQ_BUCKETS = [
+  { value: '1', max: 1 },
+  { value: '2-10', max: 10 },
+  { value: '11-50', max: 50 },
+  { value: '51-200', max: 200 },
+  { value: '200+', max: Infinity }
+]
+
+const getMoqBucket = (moq: number) =>
+  (MOQ_BUCKETS.find((bucket) => moq <= bucket.max) ?? MOQ_BUCKETS[MOQ_BUCKETS.length - 1]).value
+
+interface FacetEntry {
+  id: string
+  kind: FacetKind
+  value: string
+  label: LocalizedText
+  facetLabel?: LocalizedText
+}
+
+const getFacetEntries = (product: Product): FacetEntry[] => {
+  const entries: FacetEntry[] = product.certifications
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => ({ id: 'cert', kind: 'certification', value: item, label: { en: item } }))
+  const bucket = getMoqBucket(product.price.moq)
+  entries.push({ id: 'moq', kind: 'moq', value: bucket, label: { en: bucket } })
+  const leadTime = getLocalizedKey(product.leadTime)
+  if (leadTime) {
+    entries.push({ id: 'lead', kind: 'leadTime', value: leadTime, label: product.leadTime })
+  }
+  product.specs.forEach((spec) => {
+    const labelKey = getLocalizedKey(spec.label)
+    const valueKey = getLocalizedKey(spec.value)
+    if (labelKey && valueKey) {
+      entries.push({
+        id: `spec-${labelKey}`,
+        kind: 'spec',
+        value: valueKey,
+        label: spec.value,
+        facetLabel: spec.label
+      })
+    }
+  })
+  return entries
+}
+
+export const buildFacetIndex = (products: Product[]): FacetIndex => {
+  const values = new Map<string, Record<string, string[]>>()
+  const facets = new Map<string, FacetIndex['facets'][number]>()
+
+  products.forEach((product) => {
+    const productValues: Record<string, string[]> = {}
+    getFacetEntries(product).forEach(({ id, kind, value, label, facetLabel }) => {
+      productValues[id] = [...(productValues[id] ?? []), value]
+      const facet = facets.get(id) ?? { id, kind, label: facetLabel, options: [] }
+      if (!facet.options.some((option) => option.value === value)) {
+        facet.options.push({ value, label })
+      }
+      facets.set(id, facet)
+    })
+    values.set(product.id, productValues)
+  })
+
+  const moqOrder = MOQ_BUCKETS.map((bucket) => bucket.value)
+  const sorted = [...facets.values()]
+    .filter((facet) => facet.kind !== 'spec' || facet.options.length <= MAX_SPEC_OPTIONS)
+    // 只有一个取值且所有产品都具备时，勾选与否结果相同，不展示
+    .filter((facet) => {
+      if (facet.options.length > 1) return true
+      if (facet.options.length === 0) return false
+      const [option] = facet.options
+      return products.some((product) => !values.get(product.id)?.[facet.id]?.includes(option.value))
+    })
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+    .map((facet) => ({
+      ...facet,
+      options:
+        facet.kind === 'moq'
+          ? [...facet.options].sort((a, b) => moqOrder.indexOf(a.value) - moqOrder.indexOf(b.value))
+          : [...facet.options].sort((a, b) => a.label.en.localeCompare(b.label.en))
+    }))
+
+  return { facets: sorted, values }
+}
+
+// 只保留当前分面列表中存在的分面与取值：旧链接或已删除的规格留下的参数无法在侧栏中取消，不应清空结果
+export const pruneFacetSelection = (index: FacetIndex, selection: FacetSelection): FacetSelection =>
+  Object.fromEntries(
+    index.facets.flatMap((facet) => {
+      const values = (selection[facet.id] ?? []).filter((value) =>
+        facet.options.some((option) => option.value === value)
+      )
+      return values.length > 0 ? [[facet.id, values]] : []
+    })
+  )
+
+const matchesSelection = (
+  productValues: Record<string, string[]> | undefined,
+  selection: FacetSelection,
+  exceptId?: string
+) =>
+  Object.entries(selection).every(
+    ([id, selected]) =>
+      id === exceptId ||
+      selected.length === 0 ||
+      selected.some((value) => productValues?.[id]?.includes(value))
+  )
+
+export const filterByFacets = (products: Product[], index: FacetIndex, selection: FacetSelection) =>
+  products.filter((product) => matchesSelection(index.values.get(product.id), selection))
+
+// 每个分面的计数只应用其他分面的勾选，勾选本分面的其他取值时可以预知结果数量
+export const getFacetCounts = (products: Product[], index: FacetIndex, selection: FacetSelection): Facet[] =>
+  index.facets.map((facet) => {
+    const counts = new Map<string, number>()
+    products.forEach((product) => {
+      const productValues = index.values.get(product.id)
+      if (!matchesSelection(productValues, selection, facet.id)) return
+      new Set(productValues?.[facet.id] ?? []).forEach((value) => {
+        counts.set(value, (counts.get(value) ?? 0) + 1)
+      })
+    })
+    return {
+      ...facet,
+      options: facet.options.map((option) => ({ ...option, count: counts.get(option.value) ?? 0 }))
+    }
+  })
+
+export const toggleFacetValue = (selection: FacetSelection, id: string, value: string): FacetSelection => {
+  const current = selection[id] ?? []
+  const next = current.includes(value) ? current.filter((item) => item !== value) : [...current, value]
+  const rest = Object.fromEntries(Object.entries(selection).filter(([key]) => key !== id))
+  return next.length > 0 ? { ...rest, [id]: next } : rest
+}
+
+export const countSelectedFacets = (selection: FacetSelection) =>
+  Object.values(selection).reduce((total, values) => total + values.length, 0)
@@ -0,0 +1,32 @@
+import { acceptsInquiries, getAvailability } from './inventory'
+import { getMinimumQuantity } from './quote'
+import { applyVariant, getDefaultVariant } from './variants'
+import type { QuoteLine } from './quote'
+import type { Product } from '../types/site'
+
+// 收藏页的分享链接形如 /favorites?ids=p-timer,p-mat
+export const FAVORITE_IDS_PARAM = 'ids'
+
+export const MAX_RECENTLY_VIEWED = 8
+
+export const parseFavoriteIds = (value: string | null) => [
+  ...new Set(
+    (value ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+  )
+]
+
+// 最近浏览按时间倒序，重复浏览的产品移到最前
+export const pushRecentlyViewed = (ids: string[], productId: string) =>
+  [productId, ...ids.filter((id) => id !== productId)].slice(0, MAX_RECENTLY_VIEWED)
+
+// 收藏整体询价时每个产品按起订量计，有变体的产品取默认变体；不可询价的产品跳过
+export const toFavoriteQuoteLines = (products: Product[]): QuoteLine[] =>
+  products.flatMap((product) => {
+    const variant = getDefaultVariant(product)
+    const priced = applyVariant(product, variant)
+    if (!acceptsInquiries(getAvailability(priced))) return []
+    return [{ productId: product.id, variantId: variant?.id, quantity: getMinimumQuantity(priced) }]
+  })
@@ -1,16 +1,24 @@
+import { getLocaleDefinition } from '../i18n/locales'
 import type { Locale } from '../types/site'
 
 export const formatCurrency = (amount: number, currency: string, locale: Locale) => {
-  return new Intl.NumberFormat(locale === 'zh' ? 'zh-CN' : 'en-US', {
+  return new Intl.NumberFormat(getLocaleDefinition(locale).tag, {
     style: 'currency',
     currency,
     maximumFractionDigits: 2
   }).format(amount)
 }
 
+// 本地时区的 YYYY-MM-DD，与 <input type="date"> 的取值一致
+export const toLocalDateKey = (date: Date | string) => {
+  const value = new Date(date)
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+}
+
 export const formatDate = (iso: string, locale: Locale) => {
   const date = new Date(iso)
-  return new Intl.DateTimeFormat(locale === 'zh' ? 'zh-CN' : 'en-US', {
+  return new Intl.DateTimeFormat(getLocaleDefinition(locale).tag, {
     year: 'numeric',
     month: 'short',
     day: 'numeric'
@@ -0,0 +1,50 @@
+import type { SiteData } from '../types/site'
+
+export type ResponsiveImageFormat = 'avif' | 'webp' | 'jpeg' | 'png'
+
+export interface ResponsiveImageVariant {
+  width: number
+  path: string
+}
+
+export interface ResponsiveImageEntry {
+  width: number
+  height: number
+  // 不透明图片才有模糊占位图（data URI），透明图片的占位背景会从透明区域透出
+  placeholder?: string
+  // 回退格式（jpeg / png）排在最后，供不支持 AVIF、WebP 的浏览器使用
+  sources: Partial<Record<ResponsiveImageFormat, ResponsiveImageVariant[]>>
+}
+
+// 键为相对 public/ 的路径（不带开头的 /）
+export type ResponsiveImageManifest = Record<string, ResponsiveImageEntry>
+
+export const RESPONSIVE_IMAGE_WIDTHS = [320, 640, 960, 1280, 1920]
+
+export const RESPONSIVE_IMAGE_FORMATS: ResponsiveImageFormat[] = ['avif', 'webp', 'jpeg', 'png']
+
+// 远程地址、data URI 原样使用；其余视为 public/ 下的本地文件
+export const isRemoteImage = (src: string) => /^([a-z][a-z\d+.-]*:|\/\/)/i.test(src)
+
+export const toPublicImagePath = (src: string) => src.replace(/^\.?\/+/, '').split(/[?#]/)[0]
+
+// 站点数据中引用的所有本地图片
+export const collectLocalImages = (data: SiteData) =>
+  [
+    ...new Set(
+      [
+        data.settings.logoUrl,
+        data.hero.backgroundImage,
+        ...data.products.flatMap((product) => [
+          product.mainImage,
+          ...product.images,
+          ...(product.variants?.flatMap((variant) => variant.images ?? []) ?? [])
+        ])
+      ]
+        .filter((src) => src && !isRemoteImage(src))
+        .map(toPublicImagePath)
+    )
+  ]
+
+export const buildSrcSet = (variants: ResponsiveImageVariant[], resolve: (path: string) => string) =>
+  variants.map((variant) => `${resolve(variant.path)} ${variant.width}w`).join(', ')
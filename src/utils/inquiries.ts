@@ -0,0 +1,125 @@
+import { z } from 'zod'
+import type { TFunction } from 'i18next'
+import type { Inquiry, InquiryItem, Locale, Product } from '../types/site'
+
+export const INQUIRY_STORAGE_KEY = 'xj-inquiries'
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL?.replace(/\/+$/, '')
+
+// 表单校验规则，错误信息通过 t 本地化
+export const createInquirySchema = (t: TFunction) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { error: t('validation.required') })
+      .max(80, { error: t('validation.max', { max: 80 }) }),
+    email: z
+      .string()
+      .trim()
+      .min(1, { error: t('validation.required') })
+      .pipe(z.email({ error: t('validation.email') })),
+    phone: z
+      .string()
+      .trim()
+      .max(40, { error: t('validation.max', { max: 40 }) }),
+    company: z
+      .string()
+      .trim()
+      .max(120, { error: t('validation.max', { max: 120 }) }),
+    productId: z.string(),
+    variantId: z.string(),
+    quantity: z
+      .string()
+      .trim()
+      .refine((value) => value === '' || (Number.isInteger(Number(value)) && Number(value) > 0), {
+        error: t('validation.number')
+      }),
+    message: z
+      .string()
+      .trim()
+      .min(10, { error: t('validation.min', { min: 10 }) })
+      .max(2000, { error: t('validation.max', { max: 2000 }) })
+  })
+
+export type InquiryFormValues = z.infer<ReturnType<typeof createInquirySchema>>
+
+export const createInquiryId = () =>
+  `inq-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+export const buildInquiry = (
+  values: InquiryFormValues,
+  locale: Locale,
+  items?: InquiryItem[],
+  sku?: string
+): Inquiry => ({
+  id: createInquiryId(),
+  name: values.name,
+  email: values.email,
+  phone: values.phone || undefined,
+  company: values.company || undefined,
+  message: values.message,
+  quantity: values.quantity ? Number(values.quantity) : undefined,
+  productId: values.productId || undefined,
+  variantId: values.productId && values.variantId ? values.variantId : undefined,
+  sku: values.productId ? sku : undefined,
+  items: items && items.length > 0 ? items : undefined,
+  locale,
+  status: 'new',
+  notes: [],
+  createdAt: new Date().toISOString()
+})
+
+// 本模块由公开的询价表单引用，只包含提交相关的逻辑；后台收件箱的读取见 inquiryInbox.ts
+export const loadStoredInquiries = (): Inquiry[] => {
+  try {
+    const raw = localStorage.getItem(INQUIRY_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as Inquiry[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const saveStoredInquiries = (inquiries: Inquiry[]) => {
+  localStorage.setItem(INQUIRY_STORAGE_KEY, JSON.stringify(inquiries))
+}
+
+// sent：已提交到后端；stored：未配置后端，只保存在访客本机，询价并未送达
+export type InquiryDelivery = 'sent' | 'stored'
+
+// 配置了 VITE_API_BASE_URL 时提交到后端，否则保存到 localStorage 作为后备（仅供本机后台演示），由调用方引导访客改用邮件或 WhatsApp
+export const submitInquiry = async (inquiry: Inquiry): Promise<InquiryDelivery> => {
+  if (API_BASE_URL) {
+    const response = await fetch(`${API_BASE_URL}/api/inquiries`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(inquiry)
+    })
+    if (!response.ok) {
+      throw new Error(`Inquiry submission failed with status ${response.status}`)
+    }
+    return 'sent'
+  }
+
+  saveStoredInquiries([...loadStoredInquiries(), inquiry])
+  return 'stored'
+}
+
+// 询价无法自动送达时，作为邮件或 WhatsApp 消息正文
+export const formatInquiryText = (inquiry: Inquiry, products: Product[], t: TFunction) => {
+  const getSku = (productId: string) => products.find((product) => product.id === productId)?.sku ?? productId
+  const items =
+    inquiry.items?.map((item) => `- ${item.sku} × ${item.quantity}`) ??
+    (inquiry.productId ? [`- ${inquiry.sku ?? getSku(inquiry.productId)}${inquiry.quantity ? ` × ${inquiry.quantity}` : ''}`] : [])
+  return [
+    `${t('contact.fields.name')}: ${inquiry.name}`,
+    `${t('contact.fields.email')}: ${inquiry.email}`,
+    inquiry.phone && `${t('contact.fields.phone')}: ${inquiry.phone}`,
+    inquiry.company && `${t('contact.fields.company')}: ${inquiry.company}`,
+    ...(items.length > 0 ? ['', `${t('contact.fields.product')}:`, ...items] : []),
+    '',
+    inquiry.message
+  ]
+    .filter((line) => line !== undefined)
+    .join('\n')
+}
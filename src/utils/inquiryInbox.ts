@@ -0,0 +1,23 @@
+import { loadStoredInquiries } from './inquiries'
+import type { Inquiry, InquiryStatus } from '../types/site'
+
+export const INQUIRY_STATUSES: InquiryStatus[] = ['new', 'contacted', 'quoted', 'won', 'lost']
+
+// 兼容缺少状态、备注等字段的旧记录
+const normalizeInquiry = (inquiry: Inquiry): Inquiry => ({
+  ...inquiry,
+  status: INQUIRY_STATUSES.includes(inquiry.status) ? inquiry.status : 'new',
+  notes: inquiry.notes ?? []
+})
+
+/**
+ * 合并 data/inquiries.json 与浏览器中的记录，同 id 时以浏览器中的编辑为准，按时间倒序。
+ * 询盘包含访客的联系方式，按需加载为独立分包，不进入公开页面的脚本
+ */
+export const loadInquiries = async (): Promise<Inquiry[]> => {
+  const { default: seedInquiries } = await import('../../data/inquiries.json')
+  const merged = new Map<string, Inquiry>()
+  ;(seedInquiries as Inquiry[]).forEach((inquiry) => merged.set(inquiry.id, normalizeInquiry(inquiry)))
+  loadStoredInquiries().forEach((inquiry) => merged.set(inquiry.id, normalizeInquiry(inquiry)))
+  return [...merged.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
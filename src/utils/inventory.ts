@@ -0,0 +1,80 @@
+import type { Inventory, StockStatus } from '../types/site'
+
+export const STOCK_STATUSES = [
+  'in_stock',
+  'out_of_stock',
+  'backorder',
+  'pre_order',
+  'made_to_order',
+  'discontinued'
+] as const satisfies readonly StockStatus[]
+
+// 展示用的供货状态：在手动设置的 stockStatus 之外，按现货数量得出「库存紧张」
+export type Availability = StockStatus | 'low_stock'
+
+// 由好到差排列，用于变体汇总与目录排序
+export const AVAILABILITIES: Availability[] = [
+  'in_stock',
+  'low_stock',
+  'made_to_order',
+  'backorder',
+  'pre_order',
+  'out_of_stock',
+  'discontinued'
+]
+
+export const AVAILABILITY_LABEL_KEYS: Record<Availability, string> = {
+  in_stock: 'products.badge.inStock',
+  low_stock: 'products.badge.lowStock',
+  out_of_stock: 'products.badge.outOfStock',
+  backorder: 'products.badge.backorder',
+  pre_order: 'products.badge.preOrder',
+  made_to_order: 'products.badge.madeToOrder',
+  discontinued: 'products.badge.discontinued'
+}
+
+const SCHEMA_AVAILABILITY: Record<Availability, string> = {
+  in_stock: 'https://schema.org/InStock',
+  low_stock: 'https://schema.org/LimitedAvailability',
+  out_of_stock: 'https://schema.org/OutOfStock',
+  backorder: 'https://schema.org/BackOrder',
+  pre_order: 'https://schema.org/PreOrder',
+  made_to_order: 'https://schema.org/MadeToOrder',
+  discontinued: 'https://schema.org/Discontinued'
+}
+
+interface Stocked {
+  stockStatus: StockStatus
+  inventory?: Inventory
+}
+
+// 标记为有货但现货为 0 时：填写了补货日期视为可预订（backorder），否则视为缺货
+export const getAvailability = ({ stockStatus, inventory }: Stocked): Availability => {
+  if (stockStatus !== 'in_stock' || inventory?.quantity === undefined) return stockStatus
+  if (inventory.quantity <= 0) return inventory.restockDate ? 'backorder' : 'out_of_stock'
+  if (inventory.lowStockThreshold !== undefined && inventory.quantity <= inventory.lowStockThreshold) {
+    return 'low_stock'
+  }
+  return 'in_stock'
+}
+
+export const getBestAvailability = (availabilities: Availability[]) =>
+  AVAILABILITIES.find((availability) => availabilities.includes(availability)) ?? 'out_of_stock'
+
+export const getSchemaAvailability = (availability: Availability) => SCHEMA_AVAILABILITY[availability]
+
+// 缺货与停产的产品不能加入询价篮；可预订、预售与按单生产的产品照常询价
+export const acceptsInquiries = (availability: Availability) =>
+  availability !== 'out_of_stock' && availability !== 'discontinued'
+
+// 可预订、预售或缺货时在页面上显示预计到货日期
+export const getRestockDate = (item: Stocked) => {
+  const availability = getAvailability(item)
+  return availability === 'backorder' || availability === 'pre_order' || availability === 'out_of_stock'
+    ? item.inventory?.restockDate
+    : undefined
+}
+
+// 目录筛选中的「有货」包含库存紧张
+export const matchesStockFilter = (availability: Availability, filter: string) =>
+  filter === 'all' || availability === filter || (filter === 'in_stock' && availability === 'low_stock')
@@ -0,0 +1,18 @@
+import { DEFAULT_LOCALE } from '../i18n/locales'
+import type { Locale, LocalizedText } from '../types/site'
+
+// 缺少当前语言的内容时回退到默认语言（英文），避免页面出现空白
+export const localize = (text: LocalizedText | undefined, locale: Locale) =>
+  text?.[locale] || text?.[DEFAULT_LOCALE] || ''
+
+// 为每种站点语言生成空字符串，新增语言后新建的内容也包含对应的键
+export const createLocalizedText = (locales: Locale[]): LocalizedText =>
+  locales.reduce((text, locale) => ({ ...text, [locale]: '' }), {} as LocalizedText)
+
+// 以英文内容生成稳定键（如规格名称），同一内容在不同语言界面下对应同一个键
+export const getLocalizedKey = (text: LocalizedText | undefined) =>
+  (text?.[DEFAULT_LOCALE] || Object.values(text ?? {}).find(Boolean) || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
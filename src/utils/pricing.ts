@@ -0,0 +1,65 @@
+import { getPricedVariants } from './variants'
+import type { PriceTier, Product } from '../types/site'
+
+export const hasPriceTiers = (product: Product) => (product.price?.tiers?.length ?? 0) > 0
+
+// 价格阶梯：以 MOQ 对应的基础价为起点，按起订数量升序排列
+export const getPriceBreaks = (product: Product): PriceTier[] => {
+  const base: PriceTier = { minQuantity: Math.max(1, product.price?.moq || 1), amount: product.price?.amount || 0 }
+  const tiers = [...(product.price?.tiers ?? [])].sort((a, b) => a.minQuantity - b.minQuantity)
+  if (tiers.length === 0 || tiers[0].minQuantity > base.minQuantity) {
+    return [base, ...tiers]
+  }
+  return tiers
+}
+
+export const getUnitPrice = (product: Product, quantity: number) => {
+  const breaks = getPriceBreaks(product)
+  const applicable = breaks.filter((tier) => tier.minQuantity <= quantity)
+  return (applicable[applicable.length - 1] ?? breaks[0]).amount
+}
+
+// 目录中的「起价」，价格筛选与排序也以此为准；有变体时取所有变体中的最低价
+export const getLowestUnitPrice = (product: Product) =>
+  Math.min(...getPricedVariants(product).flatMap((item) => getPriceBreaks(item).map((tier) => tier.amount)))
+
+export const getHighestUnitPrice = (product: Product) =>
+  Math.max(...getPricedVariants(product).flatMap((item) => getPriceBreaks(item).map((tier) => tier.amount)))
+
+// 阶梯价或变体价格不同时，目录中以「起价」展示
+export const hasPriceRange = (product: Product) => getLowestUnitPrice(product) !== getHighestUnitPrice(product)
+
+// schema.org 报价：有阶梯价时输出 AggregateOffer，每档附带 UnitPriceSpecification
+export const buildOfferSchema = (product: Product, availability: string, unitText?: string) => {
+  const priceCurrency = product.price?.currency || 'USD'
+  const breaks = getPriceBreaks(product)
+  const offers = breaks.map((tier, index) => ({
+    '@type': 'Offer',
+    price: tier.amount,
+    priceCurrency,
+    availability,
+    priceSpecification: {
+      '@type': 'UnitPriceSpecification',
+      price: tier.amount,
+      priceCurrency,
+      eligibleQuantity: {
+        '@type': 'QuantitativeValue',
+        minValue: tier.minQuantity,
+        ...(breaks[index + 1] ? { maxValue: breaks[index + 1].minQuantity - 1 } : {}),
+        ...(unitText ? { unitText } : {})
+      }
+    }
+  }))
+
+  if (!hasPriceTiers(product)) return offers[0]
+
+  return {
+    '@type': 'AggregateOffer',
+    priceCurrency,
+    lowPrice: getLowestUnitPrice(product),
+    highPrice: getHighestUnitPrice(product),
+    offerCount: offers.length,
+    availability,
+    offers
+  }
+}
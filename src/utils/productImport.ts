@@ -0,0 +1,463 @@
+import { createEmptyProduct, createUniqueId, slugify } from './admin'
+import { toCsv } from './csv'
+import { createLocalizedText, getLocalizedKey } from './localize'
+import { withTranslationStatus } from './translations'
+import type { SheetRow } from './csv'
+import type { Category, Locale, LocalizedText, PriceTier, Product, SiteData } from '../types/site'
+
+/**
+ * 表格列映射到的产品字段。本地化字段按站点语言展开为 name.en、name.zh 等；
+ * 规格列的表头写作 spec:Weight（多语言名称写作 spec:Weight|重量），单元格同样以 | 分隔各语言的取值，
+ * 语言顺序与站点的内容语言一致。
+ */
+const IMPORT_FIELDS: Array<{ field: string; localized?: boolean }> = [
+  { field: 'sku' },
+  { field: 'name', localized: true },
+  { field: 'category' },
+  { field: 'subcategory' },
+  { field: 'price.amount' },
+  { field: 'price.currency' },
+  { field: 'price.unit', localized: true },
+  { field: 'price.moq' },
+  { field: 'price.tiers' },
+  { field: 'leadTime', localized: true },
+  { field: 'stockStatus' },
+  { field: 'inventory.quantity' },
+  { field: 'inventory.lowStockThreshold' },
+  { field: 'inventory.restockDate' },
+  { field: 'mainImage' },
+  { field: 'images' },
+  { field: 'certifications' },
+  { field: 'shortDescription', localized: true },
+  { field: 'description', localized: true },
+  { field: 'features', localized: true }
+]
+
+export const SPEC_TARGET = 'spec'
+
+const SPEC_HEADER = /^specs?\s*[:.]\s*(.+)$/i
+
+// 常见的简写表头，本地化字段对应默认语言
+const HEADER_ALIASES: Record<string, string> = {
+  name: 'name',
+  price: 'price.amount',
+  amount: 'price.amount',
+  currency: 'price.currency',
+  unit: 'price.unit',
+  moq: 'price.moq',
+  tiers: 'price.tiers',
+  pricetiers: 'price.tiers',
+  leadtime: 'leadTime',
+  stock: 'stockStatus',
+  quantity: 'inventory.quantity',
+  qty: 'inventory.quantity',
+  onhand: 'inventory.quantity',
+  lowstock: 'inventory.lowStockThreshold',
+  restock: 'inventory.restockDate',
+  restockdate: 'inventory.restockDate',
+  image: 'mainImage',
+  gallery: 'images',
+  certification: 'certifications',
+  features: 'features'
+}
+
+// 列表类字段以 | 或换行分隔；认证也接受逗号与分号
+const LIST_SEPARATOR = /\s*[|\n]\s*/
+const CERTIFICATION_SEPARATOR = /\s*[|\n,;]\s*/
+
+const STOCK_VALUES: Record<string, Product['stockStatus']> = {
+  in_stock: 'in_stock',
+  instock: 'in_stock',
+  yes: 'in_stock',
+  true: 'in_stock',
+  '1': 'in_stock',
+  有货: 'in_stock',
+  out_of_stock: 'out_of_stock',
+  outofstock: 'out_of_stock',
+  no: 'out_of_stock',
+  false: 'out_of_stock',
+  '0': 'out_of_stock',
+  缺货: 'out_of_stock',
+  backorder: 'backorder',
+  'back-order': 'backorder',
+  可预订: 'backorder',
+  pre_order: 'pre_order',
+  preorder: 'pre_order',
+  'pre-order': 'pre_order',
+  预售: 'pre_order',
+  made_to_order: 'made_to_order',
+  'made-to-order': 'made_to_order',
+  按单生产: 'made_to_order',
+  discontinued: 'discontinued',
+  停产: 'discontinued'
+}
+
+export type ImportIssueCode =
+  | 'missingSku'
+  | 'duplicateSku'
+  | 'missingName'
+  | 'missingCategory'
+  | 'unknownCategory'
+  | 'unknownSubcategory'
+  | 'invalidNumber'
+  | 'invalidCurrency'
+  | 'missingRate'
+  | 'invalidTiers'
+  | 'invalidStock'
+  | 'invalidDate'
+
+export interface ImportIssue {
+  code: ImportIssueCode
+  field?: string
+  value?: string
+}
+
+export interface ImportChange {
+  field: string
+  before: string
+  after: string
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export interface ImportRowResult {
+  // 原表格中的行号（表头通常为第 1 行）
+  rowNumber: number
+  sku: string
+  action: ImportAction
+  product: Product
+  issues: ImportIssue[]
+  changes: ImportChange[]
+}
+
+export const getImportTargets = (locales: Locale[]) =>
+  IMPORT_FIELDS.flatMap(({ field, localized }) =>
+    localized ? locales.map((locale) => `${field}.${locale}`) : [field]
+  )
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[\s_.-]+/g, '')
+
+export const guessColumnMapping = (headers: string[], siteData: SiteData) => {
+  const targets = getImportTargets(siteData.locales)
+  return headers.map((header) => {
+    if (SPEC_HEADER.test(header.trim())) return SPEC_TARGET
+    const normalized = normalizeHeader(header)
+    const exact = targets.find((target) => normalizeHeader(target) === normalized)
+    if (exact) return exact
+    const alias = HEADER_ALIASES[normalized]
+    if (!alias) return ''
+    if (targets.includes(alias)) return alias
+    const localized = `${alias}.${siteData.defaultLocale}`
+    return targets.includes(localized) ? localized : ''
+  })
+}
+
+// 只包含单元格中给出的语言，便于与已有内容合并
+const splitLocalized = (value: string, locales: Locale[]) => {
+  const parts = value.split('|').map((part) => part.trim())
+  return locales.reduce<Partial<LocalizedText>>(
+    (text, locale, index) => (parts[index] ? { ...text, [locale]: parts[index] } : text),
+    {}
+  )
+}
+
+const joinLocalized = (value: LocalizedText | undefined, locales: Locale[]) =>
+  locales.map((locale) => value?.[locale] ?? '').join('|').replace(/\|+$/, '')
+
+const getSpecLabel = (header: string) => header.trim().match(SPEC_HEADER)?.[1] ?? header.trim()
+
+const matchesName = (value: string, id: string, name: LocalizedText) => {
+  const target = value.trim().toLowerCase()
+  return id.toLowerCase() === target || Object.values(name).some((text) => text?.trim().toLowerCase() === target)
+}
+
+const parseNumber = (value: string) => {
+  const number = Number(value.replace(/[\s,]/g, ''))
+  return Number.isFinite(number) ? number : null
+}
+
+// 阶梯价写作 100:9.5|500:8.9（也接受 = 与逗号、分号）
+const parseTiers = (value: string): PriceTier[] | null => {
+  const tiers = value
+    .split(/\s*[|\n,;]\s*/)
+    .filter(Boolean)
+    .map((item) => item.match(/^(\d+)\s*[:=]\s*(\d+(?:\.\d+)?)$/))
+  if (tiers.some((match) => !match)) return null
+  return tiers
+    .map((match) => ({ minQuantity: Number(match?.[1]), amount: Number(match?.[2]) }))
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+}
+
+const formatTiers = (tiers: PriceTier[] | undefined) =>
+  (tiers ?? []).map((tier) => `${tier.minQuantity}:${tier.amount}`).join('|')
+
+// 产品展开为“字段 → 文本”，用于逐行对比与导出模板；导出的文本可原样再导入
+const flattenProduct = (product: Product, locales: Locale[]) => {
+  const entries: Record<string, string> = {
+    sku: product.sku,
+    category: product.categoryId,
+    subcategory: product.subcategoryId ?? '',
+    'price.amount': String(product.price.amount),
+    'price.currency': product.price.currency,
+    'price.moq': String(product.price.moq),
+    'price.tiers': formatTiers(product.price.tiers),
+    stockStatus: product.stockStatus,
+    'inventory.quantity': product.inventory?.quantity === undefined ? '' : String(product.inventory.quantity),
+    'inventory.lowStockThreshold':
+      product.inventory?.lowStockThreshold === undefined ? '' : String(product.inventory.lowStockThreshold),
+    'inventory.restockDate': product.inventory?.restockDate ?? '',
+    mainImage: product.mainImage,
+    images: product.images.join('|'),
+    certifications: product.certifications.join(', ')
+  }
+  locales.forEach((locale) => {
+    entries[`name.${locale}`] = product.name[locale] ?? ''
+    entries[`price.unit.${locale}`] = product.price.unit[locale] ?? ''
+    entries[`leadTime.${locale}`] = product.leadTime[locale] ?? ''
+    entries[`shortDescription.${locale}`] = product.shortDescription[locale] ?? ''
+    entries[`description.${locale}`] = product.description[locale] ?? ''
+    entries[`features.${locale}`] = product.features.map((feature) => feature[locale] ?? '').join('|')
+  })
+  product.specs.forEach((spec) => {
+    entries[`${SPEC_TARGET}:${joinLocalized(spec.label, locales)}`] = joinLocalized(spec.value, locales)
+  })
+  return entries
+}
+
+const diffProducts = (before: Product | undefined, after: Product, locales: Locale[]): ImportChange[] => {
+  const previous = before ? flattenProduct(before, locales) : {}
+  const next = flattenProduct(after, locales)
+  return [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+    .filter((field) => (previous[field] ?? '') !== (next[field] ?? ''))
+    .map((field) => ({ field, before: previous[field] ?? '', after: next[field] ?? '' }))
+}
+
+const resolveCategory = (categories: Category[], value: string) =>
+  categories.find((category) => matchesName(value, category.id, category.name))
+
+/**
+ * 逐行生成导入预览：按 SKU 匹配已有产品（有则更新、无则新建），空白单元格保留原值；与已有变体 SKU 相同的行视为重复。
+ * 任何一项校验失败的行标记为 error，不会写入。
+ */
+export const buildImportPreview = (siteData: SiteData, rows: SheetRow[], mapping: string[], headers: string[]) => {
+  const { locales, defaultLocale, exchangeRates } = siteData
+  const seenSkus = new Set<string>()
+  // 变体 SKU 不参与匹配，导入行使用时会与该变体重复
+  const variantSkus = new Set(
+    siteData.products.flatMap((product) => (product.variants ?? []).map((variant) => variant.sku))
+  )
+  const takenIds = siteData.products.map((product) => product.id)
+
+  return rows.map<ImportRowResult>(({ rowNumber, cells }) => {
+    const issues: ImportIssue[] = []
+    const values = new Map<string, string>()
+    const specs: Array<{ header: string; value: string }> = []
+    mapping.forEach((target, column) => {
+      const value = (cells[column] ?? '').trim()
+      if (!target || !value) return
+      if (target === SPEC_TARGET) specs.push({ header: headers[column] ?? '', value })
+      else values.set(target, value)
+    })
+
+    const sku = values.get('sku') ?? ''
+    const existing = siteData.products.find((product) => product.sku === sku)
+    const base = existing ?? { ...createEmptyProduct(siteData), categoryId: '' }
+    const product: Product = {
+      ...base,
+      price: { ...base.price },
+      inventory: base.inventory && { ...base.inventory },
+      specs: [...base.specs]
+    }
+
+    if (!sku) issues.push({ code: 'missingSku' })
+    else if (seenSkus.has(sku) || variantSkus.has(sku)) issues.push({ code: 'duplicateSku', value: sku })
+    seenSkus.add(sku)
+
+    const setLocalized = (field: 'name' | 'shortDescription' | 'description' | 'leadTime') => {
+      locales.forEach((locale) => {
+        const value = values.get(`${field}.${locale}`)
+        if (value) product[field] = { ...product[field], [locale]: value }
+      })
+    }
+    setLocalized('name')
+    setLocalized('shortDescription')
+    setLocalized('description')
+    setLocalized('leadTime')
+
+    locales.forEach((locale) => {
+      const unit = values.get(`price.unit.${locale}`)
+      if (unit) product.price.unit = { ...product.price.unit, [locale]: unit }
+    })
+
+    // 各语言的卖点按位置对应，某种语言的列留空时保留原有内容
+    const featureLists = locales.map((locale) => values.get(`features.${locale}`)?.split(LIST_SEPARATOR).filter(Boolean))
+    const providedLists = featureLists.filter((list): list is string[] => Boolean(list))
+    if (providedLists.length > 0) {
+      const length = Math.max(...providedLists.map((list) => list.length))
+      const features = product.features
+      product.features = Array.from({ length }, (_, index) =>
+        locales.reduce<LocalizedText>(
+          (feature, locale, localeIndex) => {
+            const list = featureLists[localeIndex]
+            const value = list ? list[index] : features[index]?.[locale]
+            return value ? { ...feature, [locale]: value } : feature
+          },
+          createLocalizedText(locales)
+        )
+      )
+    }
+
+    const categoryValue = values.get('category')
+    if (categoryValue) {
+      const category = resolveCategory(siteData.categories, categoryValue)
+      if (category) {
+        if (category.id !== product.categoryId) product.subcategoryId = undefined
+        product.categoryId = category.id
+      } else {
+        issues.push({ code: 'unknownCategory', value: categoryValue })
+      }
+    } else if (!existing) {
+      issues.push({ code: 'missingCategory' })
+    }
+
+    const subcategoryValue = values.get('subcategory')
+    if (subcategoryValue) {
+      const subcategory = siteData.categories
+        .find((category) => category.id === product.categoryId)
+        ?.subcategories.find((item) => matchesName(subcategoryValue, item.id, item.name))
+      if (subcategory) product.subcategoryId = subcategory.id
+      else issues.push({ code: 'unknownSubcategory', value: subcategoryValue })
+    }
+
+    const amount = values.get('price.amount')
+    if (amount) {
+      const number = parseNumber(amount)
+      if (number === null || number < 0) issues.push({ code: 'invalidNumber', field: 'price.amount', value: amount })
+      else product.price.amount = number
+    }
+
+    const moq = values.get('price.moq')
+    if (moq) {
+      const number = parseNumber(moq)
+      if (number === null || number < 1 || !Number.isInteger(number)) {
+        issues.push({ code: 'invalidNumber', field: 'price.moq', value: moq })
+      } else {
+        product.price.moq = number
+      }
+    }
+
+    const currency = values.get('price.currency')?.toUpperCase()
+    if (currency) {
+      if (!/^[A-Z]{3}$/.test(currency)) issues.push({ code: 'invalidCurrency', value: currency })
+      else product.price.currency = currency
+    }
+    // 与站点数据校验一致：配置了汇率表时，产品币种必须能换算
+    if (
+      exchangeRates &&
+      /^[A-Z]{3}$/.test(product.price.currency) &&
+      product.price.currency !== exchangeRates.base &&
+      !exchangeRates.rates[product.price.currency]
+    ) {
+      issues.push({ code: 'missingRate', value: product.price.currency })
+    }
+
+    const tiers = values.get('price.tiers')
+    if (tiers) {
+      const parsed = parseTiers(tiers)
+      if (!parsed || parsed.some((tier) => tier.minQuantity < product.price.moq)) {
+        issues.push({ code: 'invalidTiers', value: tiers })
+      } else {
+        product.price.tiers = parsed
+      }
+    }
+
+    const stock = values.get('stockStatus')
+    if (stock) {
+      const status = STOCK_VALUES[stock.toLowerCase().replace(/\s+/g, '_')]
+      if (status) product.stockStatus = status
+      else issues.push({ code: 'invalidStock', value: stock })
+    }
+
+    const counts = ['quantity', 'lowStockThreshold'] as const
+    counts.forEach((key) => {
+      const value = values.get(`inventory.${key}`)
+      if (!value) return
+      const number = parseNumber(value)
+      if (number === null || number < 0 || !Number.isInteger(number)) {
+        issues.push({ code: 'invalidNumber', field: `inventory.${key}`, value })
+      } else {
+        product.inventory = { ...product.inventory, [key]: number }
+      }
+    })
+
+    const restockDate = values.get('inventory.restockDate')
+    if (restockDate) {
+      if (Number.isNaN(Date.parse(restockDate))) issues.push({ code: 'invalidDate', value: restockDate })
+      else product.inventory = { ...product.inventory, restockDate }
+    }
+
+    const images = values.get('images')
+    if (images) product.images = images.split(LIST_SEPARATOR).filter(Boolean)
+    const mainImage = values.get('mainImage')
+    if (mainImage) product.mainImage = mainImage
+    if (!product.mainImage) product.mainImage = product.images[0] ?? ''
+
+    const certifications = values.get('certifications')
+    if (certifications) product.certifications = certifications.split(CERTIFICATION_SEPARATOR).filter(Boolean)
+
+    // 规格按名称合并：已有同名规格时更新取值，否则追加
+    specs.forEach(({ header, value }) => {
+      const label: LocalizedText = { ...createLocalizedText(locales), ...splitLocalized(getSpecLabel(header), locales) }
+      const specValue = splitLocalized(value, locales)
+      const index = product.specs.findIndex((spec) => getLocalizedKey(spec.label) === getLocalizedKey(label))
+      if (index === -1) {
+        product.specs.push({ label, value: { ...createLocalizedText(locales), ...specValue } })
+      } else {
+        product.specs[index] = { ...product.specs[index], value: { ...product.specs[index].value, ...specValue } }
+      }
+    })
+
+    if (!product.name[defaultLocale]?.trim()) {
+      issues.push({ code: 'missingName', field: `name.${defaultLocale}` })
+    }
+
+    if (!existing && issues.length === 0) {
+      product.id = createUniqueId(slugify(product.name.en || sku, 'product'), takenIds)
+      takenIds.push(product.id)
+    }
+
+    const result = withTranslationStatus({ ...product, sku }, locales)
+    const changes = diffProducts(existing, result, locales)
+    const action: ImportAction =
+      issues.length > 0 ? 'error' : !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged'
+
+    return { rowNumber, sku, action, product: result, issues, changes }
+  })
+}
+
+// 按 SKU 合并：更新的产品原位替换，新建的产品追加到列表末尾
+export const applyImport = (products: Product[], results: ImportRowResult[]) => {
+  const now = new Date().toISOString()
+  const updates = new Map<string, Product>()
+  const created: Product[] = []
+  results.forEach(({ action, product }) => {
+    if (action === 'update') updates.set(product.id, { ...product, updatedAt: now })
+    else if (action === 'create') created.push({ ...product, createdAt: now, updatedAt: now })
+  })
+  return [...products.map((product) => updates.get(product.id) ?? product), ...created]
+}
+
+// 当前产品导出为导入格式，既可作为模板，也可在表格中批量修改后再导入
+export const exportProductsCsv = (siteData: SiteData) => {
+  const flattened = siteData.products.map((product) => flattenProduct(product, siteData.locales))
+  const specHeaders = [
+    ...new Set(flattened.flatMap((entries) => Object.keys(entries).filter((key) => key.startsWith(`${SPEC_TARGET}:`))))
+  ]
+  return toCsv(
+    flattened,
+    [...getImportTargets(siteData.locales), ...specHeaders].map((header) => ({
+      header,
+      value: (entries: Record<string, string>) => entries[header]
+    }))
+  )
+}
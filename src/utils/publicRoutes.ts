@@ -0,0 +1,37 @@
+import { DEFAULT_LOCALE } from '../i18n/locales'
+import type { Locale, SiteData } from '../types/site'
+
+export interface PublicRoute {
+  path: string
+  lastmod?: string
+  noindex?: boolean
+}
+
+/**
+ * 部署子路径 + 语言前缀 + 路由，目录形式以 / 结尾，与预渲染输出的 index.html 对应。
+ * 构建插件与脚本运行在 Node 中，需显式传入 basePath；浏览器端使用 i18n/utils 的 getLocalizedPath。
+ */
+export const toLocalizedPath = (basePath: string, path: string, locale: Locale) => {
+  const trimmed = path.replace(/^\/+|\/+$/g, '')
+  const segments = [locale === DEFAULT_LOCALE ? '' : locale, trimmed].filter(Boolean).join('/')
+  return `${basePath.replace(/\/+$/, '')}/${segments ? `${segments}/` : ''}`
+}
+
+const latest = (dates: string[]) =>
+  dates.reduce<string | undefined>((max, date) => (!max || date > max ? date : max), undefined)
+
+// 预渲染与 sitemap 共用的公开路由；询价篮、对比页和后台只在浏览器中渲染
+export const getPublicRoutes = (siteData: SiteData): PublicRoute[] => {
+  const catalogUpdatedAt = latest(siteData.products.map((product) => product.updatedAt))
+  return [
+    { path: '/', lastmod: catalogUpdatedAt },
+    { path: '/products', lastmod: catalogUpdatedAt },
+    { path: '/about' },
+    { path: '/contact' },
+    ...siteData.products.map((product) => ({
+      path: `/products/${product.id}`,
+      lastmod: product.updatedAt,
+      noindex: product.noindex
+    }))
+  ]
+}
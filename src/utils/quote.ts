@@ -0,0 +1,72 @@
+import { acceptsInquiries, getAvailability } from './inventory'
+import { getUnitPrice } from './pricing'
+import { applyVariant, getVariant, hasVariants } from './variants'
+import type { InquiryItem, Product, ProductVariant } from '../types/site'
+
+export interface QuoteLine {
+  productId: string
+  // 有变体的产品按变体分别询价
+  variantId?: string
+  quantity: number
+}
+
+export interface ResolvedQuoteLine extends QuoteLine {
+  // 已合并变体的 SKU、价格与图片
+  product: Product
+  variant?: ProductVariant
+  unitPrice: number
+  lineTotal: number
+  belowMoq: boolean
+  // 加入询价篮后产品改为缺货或停产
+  unavailable: boolean
+}
+
+export const getQuoteLineKey = (line: Pick<QuoteLine, 'productId' | 'variantId'>) =>
+  line.variantId ? `${line.productId}:${line.variantId}` : line.productId
+
+// 产品已删除，或变体已删除 / 产品改为无变体时，该行失效
+export const isQuoteLineValid = (line: QuoteLine, product?: Product) => {
+  if (!product) return false
+  return hasVariants(product) ? Boolean(getVariant(product, line.variantId)) : !line.variantId
+}
+
+export const getMinimumQuantity = (product: Product) => Math.max(1, product.price?.moq || 1)
+
+export const resolveQuoteLines = (lines: QuoteLine[], products: Product[]): ResolvedQuoteLine[] => {
+  const productById = new Map(products.map((product) => [product.id, product]))
+  return lines.flatMap((line) => {
+    const baseProduct = productById.get(line.productId)
+    if (!baseProduct || !isQuoteLineValid(line, baseProduct)) return []
+    const variant = getVariant(baseProduct, line.variantId)
+    const product = applyVariant(baseProduct, variant)
+    const unitPrice = getUnitPrice(product, line.quantity)
+    return [
+      {
+        ...line,
+        product,
+        variant,
+        unitPrice,
+        lineTotal: unitPrice * line.quantity,
+        belowMoq: line.quantity < getMinimumQuantity(product),
+        unavailable: !acceptsInquiries(getAvailability(product))
+      }
+    ]
+  })
+}
+
+// 不同币种分别汇总，避免把 USD 与 CNY 直接相加
+export const getQuoteTotals = (lines: ResolvedQuoteLine[]) =>
+  lines.reduce<Record<string, number>>((totals, line) => {
+    const currency = line.product.price?.currency || 'USD'
+    totals[currency] = (totals[currency] ?? 0) + line.lineTotal
+    return totals
+  }, {})
+
+export const toInquiryItems = (lines: ResolvedQuoteLine[]): InquiryItem[] =>
+  lines.map((line) => ({
+    productId: line.productId,
+    sku: line.product.sku,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    currency: line.product.price?.currency || 'USD'
+  }))
@@ -0,0 +1,102 @@
+import { convertAmount } from './currency'
+import { getLocalizedKey } from './localize'
+import { getLowestUnitPrice } from './pricing'
+import type { ExchangeRates, Product } from '../types/site'
+
+export const RELATED_PRODUCTS_LIMIT = 4
+export const SETUP_PRODUCTS_LIMIT = 4
+
+// 各项信号的权重：人工维护的关联最可靠，其次是同一子分类，规格与价格只用于拉开差距
+const WEIGHTS = {
+  quotedTogether: 8,
+  subcategory: 4,
+  category: 2,
+  certification: 1,
+  specLabel: 0.5,
+  specValue: 1,
+  price: 2
+}
+
+// 认证与规格的重合按项累加，但设置上限，避免规格很多的产品压过人工关联
+const MAX_CERTIFICATION_SCORE = 3
+const MAX_SPEC_SCORE = 4
+
+const countShared = (left: string[], right: string[]) => {
+  const set = new Set(left)
+  return new Set(right.filter((item) => set.has(item))).size
+}
+
+const getSpecKeys = (product: Product) =>
+  product.specs.map((spec) => ({ label: getLocalizedKey(spec.label), value: getLocalizedKey(spec.value) }))
+
+// 两者的起价越接近得分越高（较低价 / 较高价）；币种无法换算时不计
+const getPriceProximity = (product: Product, candidate: Product, exchangeRates?: ExchangeRates) => {
+  const price = getLowestUnitPrice(product)
+  const candidatePrice = convertAmount(
+    getLowestUnitPrice(candidate),
+    candidate.price.currency,
+    product.price.currency,
+    exchangeRates
+  )
+  if (candidatePrice === null || price <= 0 || candidatePrice <= 0) return 0
+  return Math.min(price, candidatePrice) / Math.max(price, candidatePrice)
+}
+
+const isQuotedTogether = (product: Product, candidate: Product) =>
+  Boolean(product.frequentlyQuotedWith?.includes(candidate.id) || candidate.frequentlyQuotedWith?.includes(product.id))
+
+export const scoreRelatedProduct = (product: Product, candidate: Product, exchangeRates?: ExchangeRates) => {
+  let score = 0
+  if (isQuotedTogether(product, candidate)) score += WEIGHTS.quotedTogether
+  if (candidate.categoryId === product.categoryId) {
+    score +=
+      product.subcategoryId && candidate.subcategoryId === product.subcategoryId
+        ? WEIGHTS.subcategory
+        : WEIGHTS.category
+  }
+
+  score += Math.min(
+    countShared(product.certifications, candidate.certifications) * WEIGHTS.certification,
+    MAX_CERTIFICATION_SCORE
+  )
+
+  const specs = getSpecKeys(product)
+  const candidateSpecs = getSpecKeys(candidate)
+  const sharedLabels = countShared(
+    specs.map((spec) => spec.label),
+    candidateSpecs.map((spec) => spec.label)
+  )
+  const sharedValues = countShared(
+    specs.map((spec) => `${spec.label}=${spec.value}`),
+    candidateSpecs.map((spec) => `${spec.label}=${spec.value}`)
+  )
+  score += Math.min(sharedLabels * WEIGHTS.specLabel + sharedValues * WEIGHTS.specValue, MAX_SPEC_SCORE)
+
+  return score + getPriceProximity(product, candidate, exchangeRates) * WEIGHTS.price
+}
+
+/**
+ * 按得分从高到低挑选相关产品。没有任何共同点的产品也会参与排序（仅凭价格接近程度），
+ * 因此单品分类同样能跨分类补足推荐；「配套选购」中已展示的产品不再重复出现。
+ */
+export const getRelatedProducts = (
+  product: Product,
+  candidates: Product[],
+  exchangeRates?: ExchangeRates,
+  limit = RELATED_PRODUCTS_LIMIT
+) => {
+  const excluded = new Set([product.id, ...(product.accessoryIds ?? [])])
+  return candidates
+    .filter((candidate) => !excluded.has(candidate.id))
+    .map((candidate, index) => ({ candidate, index, score: scoreRelatedProduct(product, candidate, exchangeRates) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+// 「配套选购」按后台维护的顺序展示，只包含当前可见的产品
+export const getSetupProducts = (product: Product, candidates: Product[], limit = SETUP_PRODUCTS_LIMIT) =>
+  (product.accessoryIds ?? [])
+    .map((id) => candidates.find((candidate) => candidate.id === id))
+    .filter((candidate): candidate is Product => Boolean(candidate))
+    .slice(0, limit)
@@ -0,0 +1,249 @@
+import { localize } from './localize'
+import type { Category, Locale, LocalizedText, Product } from '../types/site'
+
+type SearchField = 'sku' | 'name' | 'category' | 'shortDescription' | 'features' | 'specs' | 'description'
+
+// 字段权重：命中 SKU、名称的产品排在只命中描述的产品之前
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  sku: 10,
+  name: 8,
+  category: 4,
+  shortDescription: 3,
+  features: 2,
+  specs: 2,
+  description: 1
+}
+
+interface IndexedText {
+  field: SearchField
+  normalized: string
+  tokens: string[]
+  // 含汉字的文本逐字保存拼音，用于全拼与首字母匹配
+  chars?: string[]
+  syllables?: string[]
+}
+
+export interface SearchIndexEntry {
+  product: Product
+  texts: IndexedText[]
+}
+
+export type SearchIndex = SearchIndexEntry[]
+
+export interface SearchResult {
+  product: Product
+  score: number
+  // 文档中实际命中的片段（已归一化），用于高亮
+  matches: string[]
+}
+
+export type PinyinConverter = (text: string) => string[]
+
+interface TermMatch {
+  quality: number
+  matched: string
+}
+
+const HAN_PATTERN = /\p{Script=Han}/u
+
+// 去掉重音并转小写，使 "Cronómetro" 与 "cronometro" 等价
+const normalizeChar = (char: string) => char.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+
+export const normalizeSearchText = (text: string) => Array.from(text).map(normalizeChar).join('')
+
+const tokenize = (normalized: string) => normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+
+// 拼音词典体积较大，单独分包并在目录页按需加载
+export const loadPinyinConverter = async (): Promise<PinyinConverter> => {
+  const { pinyin } = await import('pinyin-pro')
+  return (text) =>
+    pinyin(text, { toneType: 'none', type: 'array' }).map((syllable) => syllable.toLowerCase())
+}
+
+const indexText = (field: SearchField, text: string, toPinyin?: PinyinConverter): IndexedText => {
+  const normalized = normalizeSearchText(text)
+  const indexed: IndexedText = { field, normalized, tokens: tokenize(normalized) }
+  if (toPinyin && HAN_PATTERN.test(text)) {
+    indexed.chars = Array.from(text)
+    indexed.syllables = toPinyin(text)
+  }
+  return indexed
+}
+
+const textValues = (text?: LocalizedText) => Object.values(text ?? {}).filter((value): value is string => Boolean(value))
+
+export const buildSearchIndex = (
+  products: Product[],
+  categories: Category[],
+  toPinyin?: PinyinConverter
+): SearchIndex => {
+  const categoryById = new Map(categories.map((category) => [category.id, category]))
+  return products.map((product) => {
+    const category = categoryById.get(product.categoryId)
+    const subcategory = category?.subcategories.find((item) => item.id === product.subcategoryId)
+    const fields: Array<[SearchField, string[]]> = [
+      ['sku', [product.sku, ...(product.variants ?? []).map((variant) => variant.sku)]],
+      ['name', textValues(product.name)],
+      ['category', [...textValues(category?.name), ...textValues(subcategory?.name)]],
+      ['shortDescription', textValues(product.shortDescription)],
+      ['features', product.features.flatMap(textValues)],
+      ['specs', product.specs.flatMap((spec) => [...textValues(spec.label), ...textValues(spec.value)])],
+      ['description', textValues(product.description)]
+    ]
+    return {
+      product,
+      texts: fields.flatMap(([field, values]) => values.map((value) => indexText(field, value, toPinyin)))
+    }
+  })
+}
+
+// 带相邻换位的编辑距离，超过上限即提前返回
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j += 1) rows[0][j] = j
+  for (let i = 1; i <= a.length; i += 1) {
+    let rowMin = Infinity
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, rows[i][j])
+    }
+    if (rowMin > limit) return limit + 1
+  }
+  return rows[a.length][b.length]
+}
+
+const matchPinyin = (term: string, chars: string[], syllables: string[]): TermMatch | null => {
+  if (term.length < 2 || !/^[a-z]+$/.test(term)) return null
+  for (let start = 0; start < chars.length; start += 1) {
+    if (!HAN_PATTERN.test(chars[start])) continue
+    // 全拼：允许最后一个音节只输入前缀，如 "jishiq" 命中「计时器」
+    let joined = ''
+    for (let end = start; end < chars.length && HAN_PATTERN.test(chars[end]); end += 1) {
+      joined += syllables[end]
+      if (joined.startsWith(term)) return { quality: 0.7, matched: chars.slice(start, end + 1).join('') }
+      if (!term.startsWith(joined)) break
+    }
+    // 首字母：如 "jsq" 命中「计时器」
+    const span = chars.slice(start, start + term.length)
+    if (
+      span.length === term.length &&
+      span.every((char, offset) => HAN_PATTERN.test(char) && syllables[start + offset][0] === term[offset])
+    ) {
+      return { quality: 0.5, matched: span.join('') }
+    }
+  }
+  return null
+}
+
+const matchFuzzy = (term: string, tokens: string[]): TermMatch | null => {
+  if (term.length < 4) return null
+  const limit = term.length >= 8 ? 2 : 1
+  let best: TermMatch | null = null
+  tokens.forEach((token) => {
+    const distance = editDistance(term, token, limit)
+    if (distance > limit) return
+    const quality = 0.5 - distance * 0.1
+    if (!best || quality > best.quality) best = { quality, matched: token }
+  })
+  return best
+}
+
+const matchTerm = (term: string, text: IndexedText): TermMatch | null => {
+  if (text.tokens.includes(term)) return { quality: 1, matched: term }
+  if (text.tokens.some((token) => token.startsWith(term))) return { quality: 0.8, matched: term }
+  if (text.normalized.includes(term)) return { quality: 0.6, matched: term }
+  if (text.chars && text.syllables) {
+    const pinyinMatch = matchPinyin(term, text.chars, text.syllables)
+    if (pinyinMatch) return pinyinMatch
+  }
+  return matchFuzzy(term, text.tokens)
+}
+
+// 所有关键词都需命中（AND）；每个关键词按字段取最佳匹配，再按字段权重累加
+export const searchProducts = (index: SearchIndex, query: string): SearchResult[] => {
+  const terms = tokenize(normalizeSearchText(query))
+  if (terms.length === 0) return []
+
+  return index.flatMap<SearchResult>((entry) => {
+    let score = 0
+    const matches = new Set<string>()
+    for (const term of terms) {
+      const bestByField = new Map<SearchField, TermMatch>()
+      entry.texts.forEach((text) => {
+        const match = matchTerm(term, text)
+        const current = bestByField.get(text.field)
+        if (match && (!current || match.quality > current.quality)) bestByField.set(text.field, match)
+      })
+      if (bestByField.size === 0) return []
+      bestByField.forEach((match, field) => {
+        score += FIELD_WEIGHTS[field] * match.quality
+        matches.add(normalizeSearchText(match.matched))
+      })
+    }
+    return [{ product: entry.product, score, matches: Array.from(matches) }]
+  })
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// 在原文中定位归一化后的命中片段；逐字归一化以便把位置映射回原文
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text || terms.length === 0) return [{ text, match: false }]
+  const chars = Array.from(text)
+  const offsets: number[] = []
+  let normalized = ''
+  chars.forEach((char, index) => {
+    const value = normalizeChar(char)
+    normalized += value
+    for (let i = 0; i < value.length; i += 1) offsets.push(index)
+  })
+
+  const marked = new Array<boolean>(chars.length).fill(false)
+  terms.forEach((term) => {
+    if (!term) return
+    let position = normalized.indexOf(term)
+    while (position >= 0) {
+      for (let i = position; i < position + term.length; i += 1) marked[offsets[i]] = true
+      position = normalized.indexOf(term, position + term.length)
+    }
+  })
+
+  return chars.reduce<HighlightSegment[]>((segments, char, index) => {
+    const last = segments[segments.length - 1]
+    if (last && last.match === marked[index]) {
+      last.text += char
+    } else {
+      segments.push({ text: char, match: marked[index] })
+    }
+    return segments
+  }, [])
+}
+
+const hasHighlight = (text: string, terms: string[]) => splitHighlights(text, terms).some((segment) => segment.match)
+
+// 简介未命中时，从详细描述、特性或规格中截取包含命中词的片段
+export const getMatchSnippet = (product: Product, locale: Locale, terms: string[], radius = 50) => {
+  const candidates = [
+    localize(product.description, locale),
+    ...product.features.map((feature) => localize(feature, locale)),
+    ...product.specs.map((spec) => `${localize(spec.label, locale)}: ${localize(spec.value, locale)}`)
+  ]
+  const text = candidates.find((candidate) => hasHighlight(candidate, terms))
+  if (!text) return null
+
+  const chars = Array.from(text)
+  const segments = splitHighlights(text, terms)
+  const matchStart = segments.findIndex((segment) => segment.match)
+  const before = segments.slice(0, matchStart).reduce((length, segment) => length + Array.from(segment.text).length, 0)
+  const start = Math.max(0, before - radius)
+  const end = Math.min(chars.length, before + radius * 2)
+  return `${start > 0 ? '…' : ''}${chars.slice(start, end).join('').trim()}${end < chars.length ? '…' : ''}`
+}
@@ -0,0 +1,95 @@
+import { DEFAULT_LOCALE, getLocaleDefinition } from '../i18n/locales'
+import { getLocalizedPath } from '../i18n/utils'
+import { localize } from './localize'
+import type { Locale, LocalizedText, SiteData } from '../types/site'
+
+export type StructuredData = Record<string, unknown> | Array<Record<string, unknown>>
+
+export interface SeoTags {
+  title: string
+  description: string
+  ogLocale: string
+  canonical: string
+  alternates: Array<{ hreflang: string; href: string }>
+  noindex: boolean
+  structuredData?: StructuredData
+}
+
+interface SeoInput {
+  title?: LocalizedText
+  description?: LocalizedText
+  structuredData?: StructuredData
+  noindex?: boolean
+  locale: Locale
+  // 路由内路径，不含部署子路径与语言前缀
+  pathname: string
+  siteData: SiteData
+}
+
+// 预渲染时没有 window，需通过 VITE_SITE_URL 提供站点域名，如 https://example.github.io
+const getSiteOrigin = () =>
+  (import.meta.env.VITE_SITE_URL || (typeof window === 'undefined' ? '' : window.location.origin)).replace(/\/+$/, '')
+
+export const getAbsoluteUrl = (path: string, locale: Locale) => `${getSiteOrigin()}${getLocalizedPath(path, locale)}`
+
+export const buildSeoTags = ({
+  title,
+  description,
+  structuredData,
+  noindex = false,
+  locale,
+  pathname,
+  siteData
+}: SeoInput): SeoTags => {
+  const pageTitle = localize(title, locale) || localize(siteData.settings?.seoDefaults?.title, locale)
+  const pageDescription =
+    localize(description, locale) || localize(siteData.settings?.seoDefaults?.description, locale)
+
+  return {
+    title: pageTitle,
+    description: pageDescription,
+    ogLocale: getLocaleDefinition(locale).ogLocale,
+    canonical: getAbsoluteUrl(pathname, locale),
+    alternates: [
+      ...(siteData.locales ?? []).map((item) => ({
+        hreflang: getLocaleDefinition(item).tag,
+        href: getAbsoluteUrl(pathname, item)
+      })),
+      { hreflang: 'x-default', href: getAbsoluteUrl(pathname, DEFAULT_LOCALE) }
+    ],
+    noindex,
+    structuredData
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// 预渲染写入 <head> 的标签，与 Seo 组件在浏览器中维护的标签一一对应
+export const renderSeoTags = (tags: SeoTags) =>
+  [
+    `<title>${escapeHtml(tags.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(tags.description)}" />`,
+    `<meta property="og:title" content="${escapeHtml(tags.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(tags.description)}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:url" content="${escapeHtml(tags.canonical)}" />`,
+    `<meta property="og:locale" content="${escapeHtml(tags.ogLocale)}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${escapeHtml(tags.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(tags.description)}" />`,
+    ...(tags.noindex ? ['<meta name="robots" content="noindex" />'] : []),
+    `<link rel="canonical" href="${escapeHtml(tags.canonical)}" />`,
+    ...tags.alternates.map(
+      (alternate) =>
+        `<link rel="alternate" hreflang="${escapeHtml(alternate.hreflang)}" href="${escapeHtml(alternate.href)}" />`
+    ),
+    ...(tags.structuredData
+      ? [
+          `<script id="structured-data" type="application/ld+json">${JSON.stringify(tags.structuredData).replace(
+            /</g,
+            '\\u003c'
+          )}</script>`
+        ]
+      : [])
+  ].join('\n    ')
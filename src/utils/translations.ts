@@ -0,0 +1,106 @@
+import { DEFAULT_LOCALE, isSupportedLocale } from '../i18n/locales'
+import type { Locale, LocalizedText, Product, SiteData } from '../types/site'
+
+export interface LocalizedTextEntry {
+  path: string
+  // 顶层字段名，如 products、hero、seo，用于分组展示
+  section: string
+  productId?: string
+  text: LocalizedText
+}
+
+export interface MissingTranslation extends LocalizedTextEntry {
+  reason: 'missing' | 'empty'
+}
+
+export interface TranslationCoverage {
+  locale: Locale
+  total: number
+  translated: number
+  missing: MissingTranslation[]
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isLocalizedText = (value: unknown): value is LocalizedText =>
+  isPlainObject(value) &&
+  typeof value.en === 'string' &&
+  Object.entries(value).every(([key, text]) => isSupportedLocale(key) && typeof text === 'string')
+
+// translationStatus 本身由本模块计算，不参与统计
+const IGNORED_KEYS = new Set(['translationStatus'])
+
+const walk = (value: unknown, path: string, visit: (text: LocalizedText, path: string) => void) => {
+  if (isLocalizedText(value)) {
+    visit(value, path)
+    return
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => walk(item, `${path}[${index}]`, visit))
+    return
+  }
+  if (!isPlainObject(value)) return
+  Object.entries(value).forEach(([key, child]) => {
+    if (IGNORED_KEYS.has(key)) return
+    walk(child, path ? `${path}.${key}` : key, visit)
+  })
+}
+
+export const collectLocalizedTexts = (siteData: SiteData): LocalizedTextEntry[] => {
+  const entries: LocalizedTextEntry[] = []
+  walk(siteData, '', (text, path) => {
+    const section = path.split(/[.[]/)[0]
+    const productIndex = /^products\[(\d+)\]/.exec(path)?.[1]
+    entries.push({
+      path,
+      section,
+      productId: productIndex === undefined ? undefined : siteData.products[Number(productIndex)]?.id,
+      text
+    })
+  })
+  return entries
+}
+
+export const getMissingReason = (text: LocalizedText, locale: Locale): MissingTranslation['reason'] | null => {
+  const value = text[locale]
+  if (value === undefined) return 'missing'
+  if (!value.trim()) return 'empty'
+  return null
+}
+
+export const getTranslationCoverage = (siteData: SiteData, locale: Locale): TranslationCoverage => {
+  const entries = collectLocalizedTexts(siteData)
+  const missing = entries.flatMap<MissingTranslation>((entry) => {
+    const reason = getMissingReason(entry.text, locale)
+    return reason ? [{ ...entry, reason }] : []
+  })
+  return { locale, total: entries.length, translated: entries.length - missing.length, missing }
+}
+
+export const isProductTranslated = (product: Product, locale: Locale) => {
+  let translated = true
+  walk(product, '', (text) => {
+    if (getMissingReason(text, locale)) translated = false
+  })
+  return translated
+}
+
+export const computeTranslationStatus = (product: Product, locales: Locale[]) =>
+  locales.reduce<Product['translationStatus']>(
+    (status, locale) => ({ ...status, [locale]: isProductTranslated(product, locale) }),
+    {}
+  )
+
+export const withTranslationStatus = (product: Product, locales: Locale[]): Product => ({
+  ...product,
+  translationStatus: computeTranslationStatus(product, locales)
+})
+
+// 站点设置中开启「隐藏未翻译产品」的语言只展示完整翻译的产品；默认语言始终全部展示
+export const getVisibleProducts = (siteData: SiteData, locale: Locale) => {
+  if (locale === DEFAULT_LOCALE || !siteData.settings.hideUntranslatedProducts?.includes(locale)) {
+    return siteData.products
+  }
+  return siteData.products.filter((product) => isProductTranslated(product, locale))
+}
@@ -0,0 +1,108 @@
+import { acceptsInquiries, getAvailability, getBestAvailability } from './inventory'
+import { localize } from './localize'
+import type { Locale, Product, ProductOption, ProductVariant } from '../types/site'
+
+// 详情页链接形如 /products/p-jersey?variant=v-m-red，用于分享或从 SKU 搜索结果直接定位变体
+export const VARIANT_PARAM = 'variant'
+
+export type VariantSelection = Record<string, string>
+
+export const hasVariants = (product: Product) => (product.variants?.length ?? 0) > 0
+
+export const buildVariantPath = (productId: string, variantId?: string) =>
+  variantId ? `/products/${productId}?${VARIANT_PARAM}=${encodeURIComponent(variantId)}` : `/products/${productId}`
+
+// 把变体的覆盖字段合并到产品上，价格、库存、图片与 SKU 相关的工具函数因此可以直接复用
+export const applyVariant = (product: Product, variant?: ProductVariant): Product => {
+  if (!variant) return product
+  const images = variant.images?.length ? variant.images : product.images
+  return {
+    ...product,
+    sku: variant.sku,
+    stockStatus: variant.stockStatus,
+    inventory: variant.inventory,
+    price: {
+      ...product.price,
+      amount: variant.amount ?? product.price.amount,
+      moq: variant.moq ?? product.price.moq,
+      tiers: variant.amount === undefined ? product.price.tiers : undefined
+    },
+    images,
+    mainImage: variant.images?.length ? variant.images[0] : product.mainImage
+  }
+}
+
+export const getVariant = (product: Product, variantId?: string | null) =>
+  variantId ? product.variants?.find((variant) => variant.id === variantId) : undefined
+
+// 默认选中第一个可询价的变体
+export const getDefaultVariant = (product: Product) =>
+  product.variants?.find((variant) => acceptsInquiries(getAvailability(variant))) ?? product.variants?.[0]
+
+export const findVariant = (product: Product, selection: VariantSelection) =>
+  product.variants?.find((variant) =>
+    (product.options ?? []).every((option) => variant.options[option.id] === selection[option.id])
+  )
+
+// 切换某个选项时尽量保留其他选项；该组合不存在时退回包含该取值的第一个变体
+export const selectVariantOption = (product: Product, current: VariantSelection, optionId: string, valueId: string) =>
+  findVariant(product, { ...current, [optionId]: valueId }) ??
+  product.variants?.find((variant) => variant.options[optionId] === valueId)
+
+// 当前其他选项不变时，该取值是否存在对应的变体，以及是否可询价
+export const getOptionValueState = (
+  product: Product,
+  current: VariantSelection,
+  optionId: string,
+  valueId: string
+): 'available' | 'out_of_stock' | 'unavailable' => {
+  const variant = findVariant(product, { ...current, [optionId]: valueId })
+  if (!variant) return 'unavailable'
+  return acceptsInquiries(getAvailability(variant)) ? 'available' : 'out_of_stock'
+}
+
+export const getVariantLabel = (product: Product, variant: ProductVariant, locale: Locale) =>
+  (product.options ?? [])
+    .map((option) =>
+      localize(option.values.find((value) => value.id === variant.options[option.id])?.label, locale)
+    )
+    .filter(Boolean)
+    .join(' / ')
+
+// 产品及其全部变体的报价视图，用于计算目录中的起价与最高价
+export const getPricedVariants = (product: Product) =>
+  hasVariants(product) ? (product.variants ?? []).map((variant) => applyVariant(product, variant)) : [product]
+
+// 目录中展示的供货状态；有变体的产品取各变体中最好的状态
+export const getProductAvailability = (product: Product) =>
+  hasVariants(product)
+    ? getBestAvailability((product.variants ?? []).map((variant) => getAvailability(variant)))
+    : getAvailability(product)
+
+// 保存有变体的产品时写回汇总后的 stockStatus，导出与导入的表格因此保持一致
+export const getAggregateStockStatus = (product: Product): Product['stockStatus'] => {
+  if (!hasVariants(product)) return product.stockStatus
+  const availability = getProductAvailability(product)
+  return availability === 'low_stock' ? 'in_stock' : availability
+}
+
+// 所有选项取值的笛卡尔积，如 3 个尺码 × 2 种颜色得到 6 个组合
+export const buildVariantCombinations = (options: ProductOption[]) =>
+  options.reduce<VariantSelection[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) => option.values.map((value) => ({ ...combination, [option.id]: value.id }))),
+    [{}]
+  )
+
+// 默认的变体 SKU：产品 SKU 后依次拼接各选项取值的英文名，如 XJ-JR-001-M-RED
+export const createVariantSku = (product: Product, selection: VariantSelection) =>
+  [
+    product.sku,
+    ...(product.options ?? []).map((option) => {
+      const value = option.values.find((item) => item.id === selection[option.id])
+      return (value?.label.en || value?.id || '').trim().replace(/\s+/g, '-')
+    })
+  ]
+    .filter(Boolean)
+    .join('-')
+    .toUpperCase()
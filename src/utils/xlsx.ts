@@ -0,0 +1,120 @@
+// 轻量的 .xlsx 读取：用浏览器内置的 DecompressionStream 解压 ZIP，再用 DOMParser 读取第一个工作表。
+// 只取单元格的文本或缓存值（公式不重新计算），不支持旧版 .xls 与 ZIP64。
+
+import type { SheetRow } from './csv'
+
+const textDecoder = new TextDecoder()
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+const readZipEntries = (view: DataView<ArrayBuffer>) => {
+  // 中央目录结束记录位于文件末尾，其后最多跟 65535 字节的注释
+  let endOffset = -1
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOffset = offset
+      break
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a valid .xlsx file')
+
+  const entries = new Map<string, ZipEntry>()
+  const count = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupted .xlsx central directory')
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength))
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+const readZipFile = async (view: DataView<ArrayBuffer>, entry: ZipEntry) => {
+  const header = entry.localHeaderOffset
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true)
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize)
+  if (entry.method === 0) return textDecoder.decode(data)
+  if (entry.method !== 8) throw new Error(`Unsupported .xlsx compression method ${entry.method}`)
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml')
+
+// A1 形式的单元格地址转为从 0 开始的列号
+const getColumnIndex = (reference: string) =>
+  [...reference.replace(/\d+$/, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+// 富文本由多个 <r><t> 片段组成；<rPh> 中的注音不属于单元格内容
+const getText = (element: Element) =>
+  [...element.getElementsByTagName('t')]
+    .filter((node) => node.parentElement?.tagName !== 'rPh')
+    .map((node) => node.textContent ?? '')
+    .join('')
+
+// t 属性区分共享字符串、内联字符串与布尔值，其余（数字、日期序列号、公式缓存值）直接取 <v>
+const readCellValue = (cell: Element, sharedStrings: string[]) => {
+  const value = cell.getElementsByTagName('v')[0]?.textContent ?? ''
+  switch (cell.getAttribute('t')) {
+    case 's':
+      return sharedStrings[Number(value)] ?? ''
+    case 'inlineStr':
+      return getText(cell)
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE'
+    default:
+      return value
+  }
+}
+
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<SheetRow[]> => {
+  const view = new DataView(buffer)
+  const entries = readZipEntries(view)
+  const readFile = async (path: string) => {
+    const entry = entries.get(path)
+    return entry ? readZipFile(view, entry) : null
+  }
+
+  // 通过 workbook.xml 与关系文件找到第一个工作表的实际路径
+  const workbook = parseXml((await readFile('xl/workbook.xml')) ?? '')
+  const relationId = workbook.getElementsByTagName('sheet')[0]?.getAttribute('r:id')
+  const relations = parseXml((await readFile('xl/_rels/workbook.xml.rels')) ?? '')
+  const target = [...relations.getElementsByTagName('Relationship')]
+    .find((relation) => relation.getAttribute('Id') === relationId)
+    ?.getAttribute('Target')
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml'
+  const sheetXml = await readFile(sheetPath)
+  if (!sheetXml) throw new Error('The .xlsx file has no worksheet')
+
+  const sharedStringsXml = await readFile('xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsXml
+    ? [...parseXml(sharedStringsXml).getElementsByTagName('si')].map(getText)
+    : []
+
+  const rows: SheetRow[] = []
+  for (const rowElement of parseXml(sheetXml).getElementsByTagName('row')) {
+    // 工作表只保存非空行，行号以 r 属性为准；缺少时按上一行顺延
+    const rowNumber = Number(rowElement.getAttribute('r')) || (rows.at(-1)?.rowNumber ?? 0) + 1
+    const row: string[] = []
+    for (const cell of rowElement.getElementsByTagName('c')) {
+      const reference = cell.getAttribute('r')
+      const index = reference ? getColumnIndex(reference) : row.length
+      row[index] = readCellValue(cell, sharedStrings)
+    }
+    const filled = Array.from(row, (value) => value ?? '')
+    if (filled.some((value) => value.trim())) rows.push({ rowNumber, cells: filled })
+  }
+  return rows
+}
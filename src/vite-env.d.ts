@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BASE_PATH?: string
+  readonly VITE_API_BASE_URL?: string
+  readonly VITE_SITE_URL?: string
+  readonly VITE_ANALYTICS_SINKS?: string
+  readonly VITE_ANALYTICS_ENDPOINT?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
+
+declare module 'virtual:responsive-images' {
+  const manifest: import('./utils/images').ResponsiveImageManifest
+  export default manifest
+}
@@ -1,6 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { siteDataValidation } from './plugins/siteDataValidation'
+import { responsiveImages } from './plugins/responsiveImages'
+import { sitemap } from './plugins/sitemap'
+import { analyticsMock } from './plugins/analyticsMock'
 
 // https://vite.dev/config/
 // GitHub Pages 部署时，如果仓库名不是 username.github.io，需要设置 base 为仓库名
@@ -8,5 +12,5 @@ import tailwindcss from '@tailwindcss/vite'
 // 可以通过环境变量 VITE_BASE_PATH 来设置，默认为 '/XingJue/'
 export default defineConfig({
   base: process.env.VITE_BASE_PATH || '/XingJue/',
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), siteDataValidation(), sitemap(), responsiveImages(), analyticsMock()],
 })